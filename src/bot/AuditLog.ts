@@ -0,0 +1,52 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { Logger } from '../utils/Logger';
+import { AuditEntry } from '../types';
+
+/**
+ * Append-only JSON-lines record of privileged commands: who ran what, where,
+ * and whether it was allowed.
+ */
+export class AuditLog {
+  private filePath: string;
+  private logger: Logger;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.logger = new Logger('AuditLog');
+  }
+
+  async record(entry: Omit<AuditEntry, 'timestamp'>): Promise<void> {
+    const line: AuditEntry = { timestamp: new Date(), ...entry };
+    this.logger.info(`AUDIT: ${entry.command} by ${entry.username || entry.userId || 'unknown'} in ${entry.chatId}: ${entry.outcome}`);
+
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, JSON.stringify(line) + '\n', 'utf-8');
+    } catch (error) {
+      this.logger.error('Failed to write audit log:', error);
+    }
+  }
+
+  /** The last `limit` entries, oldest first. Throws if the log exists but cannot be read. */
+  async recent(limit: number): Promise<AuditEntry[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return content
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .slice(-limit)
+      .map(line => {
+        const entry = JSON.parse(line);
+        return { ...entry, timestamp: new Date(entry.timestamp) };
+      });
+  }
+}
@@ -0,0 +1,88 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { Logger } from '../utils/Logger';
+
+export type AccessLevel = 'admin' | 'chatAdmin';
+
+// Chat admin lists change rarely; don't ask Telegram on every command
+const CHAT_ADMIN_CACHE_MS = 5 * 60 * 1000;
+
+/**
+ * Decides who may run privileged commands. Bot admins come from config;
+ * chat admins are the creator/administrators of a group, the owner of a
+ * private chat, or anyone posting in a channel (only admins can post there).
+ */
+export class Authorizer {
+  private bot: TelegramBot;
+  private adminUserIds: Set<string>;
+  private logger: Logger;
+  private chatAdminCache = new Map<string, { isAdmin: boolean; expiresAt: number }>();
+
+  constructor(bot: TelegramBot, adminUserIds: string[]) {
+    this.bot = bot;
+    this.adminUserIds = new Set(adminUserIds);
+    this.logger = new Logger('Authorizer');
+  }
+
+  hasAdmins(): boolean {
+    return this.adminUserIds.size > 0;
+  }
+
+  isBotAdmin(userId?: number): boolean {
+    return userId !== undefined && this.adminUserIds.has(String(userId));
+  }
+
+  async isAllowed(msg: TelegramBot.Message, level: AccessLevel): Promise<boolean> {
+    if (this.isBotAdmin(msg.from?.id)) {
+      return true;
+    }
+
+    if (level === 'admin') {
+      return false;
+    }
+
+    return this.isChatAdmin(msg.chat, msg.from?.id, true);
+  }
+
+  /**
+   * Same as isAllowed() for a tap on an inline button. Unlike channel posts,
+   * button taps in a channel can come from any subscriber, so channel admins
+   * are looked up like group admins.
+   */
+  async isAllowedCallback(query: TelegramBot.CallbackQuery, level: AccessLevel): Promise<boolean> {
+    if (this.isBotAdmin(query.from.id)) {
+      return true;
+    }
+
+    if (level === 'admin' || !query.message) {
+      return false;
+    }
+
+    return this.isChatAdmin(query.message.chat, query.from.id, false);
+  }
+
+  private async isChatAdmin(chat: TelegramBot.Chat, userId: number | undefined, trustChannel: boolean): Promise<boolean> {
+    if (chat.type === 'private' || (chat.type === 'channel' && trustChannel)) {
+      return true;
+    }
+
+    if (userId === undefined) {
+      return false;
+    }
+
+    const cacheKey = `${chat.id}:${userId}`;
+    const cached = this.chatAdminCache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.isAdmin;
+    }
+
+    try {
+      const member = await this.bot.getChatMember(chat.id, userId);
+      const isAdmin = member.status === 'creator' || member.status === 'administrator';
+      this.chatAdminCache.set(cacheKey, { isAdmin, expiresAt: Date.now() + CHAT_ADMIN_CACHE_MS });
+      return isAdmin;
+    } catch (error) {
+      this.logger.warn(`Failed to look up chat member ${userId} in ${chat.id}:`, error);
+      return false;
+    }
+  }
+}
@@ -1,55 +1,256 @@
 import TelegramBot from 'node-telegram-bot-api';
-import cron from 'node-cron';
-import { BagsFmScraper } from '../scraper/BagsFmScraper';
+import { randomUUID } from 'crypto';
 import { DatabaseManager } from '../database/DatabaseManager';
 import { Logger } from '../utils/Logger';
-import { MigratedToken, BotConfig } from '../types';
+import { RELOADABLE_SETTINGS, changedSettings, loadConfig, loggingOptions, settingName } from './config';
+import { createSources, mergeSourceResults, reloadSources } from '../scraper/sources';
+import { describeSchemaDrift } from '../scraper/SchemaDriftMonitor';
+import { DEFAULT_FILTERS, describeFilters, matchesFilters, parseFilterArgs } from './SubscriptionFilters';
+import { MilestoneTracker } from './MilestoneTracker';
+import { DigestReporter } from './DigestReporter';
+import { CreatorProfile, CreatorReputation } from './CreatorReputation';
+import { MigrationExporter, parseExportArgs } from './MigrationExporter';
+import { RiskScorer } from './RiskScorer';
+import { EXPORT_CONTENT_TYPES, MigrationFileError, formatFromPath } from '../database/migrationFiles';
+import { DigestScheduler, DEFAULT_DIGEST_TIME, DEFAULT_DIGEST_WEEKDAY, describeDigestSchedule, parseDigestArgs } from './DigestScheduler';
+import { Authorizer, AccessLevel } from './Authorizer';
+import { AuditLog } from './AuditLog';
+import { NotificationQueue } from './NotificationQueue';
+import { PollScheduler, PollSchedulerOptions, describePollResult } from './PollScheduler';
+import { TelegramNotifier, toReplyMarkup } from '../notifiers/TelegramNotifier';
+import { DiscordNotifier } from '../notifiers/DiscordNotifier';
+import { SlackNotifier } from '../notifiers/SlackNotifier';
+import { WebhookNotifier } from '../notifiers/WebhookNotifier';
+import { MessageTemplates } from '../templates/MessageTemplates';
+import { escapeHtml } from '../templates/TemplateEngine';
+import { formatCurrency, formatDuration } from '../utils/format';
+import { BotMetrics } from './BotMetrics';
+import { HttpServer } from '../server/HttpServer';
+import { TelegramWebhook } from '../server/TelegramWebhook';
+import { StatusApi } from '../server/StatusApi';
+import { MigratedToken, BotConfig, TokenSource, SchemaDriftReport, PollResult, PollTrigger, Subscription, TokenSnapshot, AuditEntry, OutboxMessage, HealthReport, Notifier, NotificationEvent, NotifierContent, MigrationEvent, DigestFrequency, DigestSchedule } from '../types';
+
+// Stops a busy group from hammering the sources through one alert's Refresh button
+const REFRESH_COOLDOWN_MS = 30 * 1000;
+
+// Largest file the Bot API lets bots download
+const MAX_IMPORT_BYTES = 20 * 1024 * 1024;
+const RECENT_PAGE_SIZE = 10;
+const MAX_RECENT_PAGE_SIZE = 25;
+
+// Consecutive failed polls of one source
+interface SourceOutage {
+  failures: number;
+  since: Date;
+  alerted: boolean;
+}
+
+export interface BagsFmBotOptions {
+  config?: BotConfig; // Defaults to loadConfig(), which is also what reloadConfig() reads
+  telegram?: TelegramBot; // Bot API client to use instead of a real one, e.g. an InMemoryTelegramBot
+  // Runs without receiving updates, the HTTP server or the check schedule; checks only run through poll()
+  offline?: boolean;
+}
 
 export class BagsFmBot {
   private bot: TelegramBot;
-  private scraper: BagsFmScraper;
+  private sources: TokenSource[];
   private database: DatabaseManager;
+  private milestones: MilestoneTracker;
+  private digestReporter: DigestReporter;
+  private reputation: CreatorReputation;
+  private riskScorer: RiskScorer;
+  private exporter: MigrationExporter;
+  private digestScheduler: DigestScheduler;
+  private authorizer: Authorizer;
+  private auditLog: AuditLog;
+  private queue: NotificationQueue;
+  private templates: MessageTemplates;
+  private telegram: TelegramNotifier;
+  private notifiers: Notifier[];
+  private httpServer?: HttpServer;
+  private metrics = new BotMetrics();
+  private lastSuccessfulScrapeAt?: Date;
+  private lastSuccessfulSendAt?: Date;
+  private sendFailingSince?: Date;
+  private pendingClears = new Map<string, number>();
+  private lastManualCheckAt = 0;
+  private lastRefreshAt = new Map<string, number>();
+  private lastSchemaDrift = new Map<string, SchemaDriftReport>();
+  private alertedSchemaDrift = new Map<string, string>();
+  private sourceOutages = new Map<string, SourceOutage>();
   private logger: Logger;
   private config: BotConfig;
-  private cronJob?: cron.ScheduledTask;
+  private scheduler: PollScheduler;
+  private startedAt = Date.now();
+  private offline: boolean;
 
-  constructor() {
-    this.logger = new Logger();
-    this.config = this.loadConfig();
+  constructor(options: BagsFmBotOptions = {}) {
+    this.logger = new Logger('BagsFmBot');
+    this.config = options.config || loadConfig({ requireTelegram: true });
+    this.offline = Boolean(options.offline);
     
-    this.bot = new TelegramBot(this.config.telegramBotToken, { polling: true });
-    this.scraper = new BagsFmScraper();
-    this.database = new DatabaseManager(this.config.databasePath);
+    // Updates only start flowing in start(), once command handlers are registered
+    this.bot = options.telegram || new TelegramBot(this.config.telegramBotToken, {
+      polling: this.config.telegramMode === 'polling' ? { autoStart: false } : false
+    });
+    this.database = new DatabaseManager(this.config.databasePath, this.config.databaseDriver, {
+      keep: this.config.databaseBackupCount,
+      intervalMinutes: this.config.databaseBackupIntervalMinutes
+    });
+    this.digestReporter = new DigestReporter(this.database);
+    this.applyReloadableSettings();
+    this.digestScheduler = new DigestScheduler((schedule, frequency) => this.sendDigest(schedule.chatId, schedule.timezone, frequency));
+    this.scheduler = new PollScheduler(trigger => this.runPoll(trigger), this.pollSchedulerOptions());
+    this.authorizer = new Authorizer(this.bot, this.config.adminUserIds);
+    this.auditLog = new AuditLog(this.config.auditLogPath);
+    this.templates = new MessageTemplates(this.config.templatesFile);
+    this.telegram = new TelegramNotifier(this.bot, this.templates, {
+      events: this.config.telegramEvents,
+      // Without milestones configured there is nothing to track
+      buttons: this.config.alertButtons.filter(action => action !== 'track' || this.milestones.hasMilestones()),
+      // Nothing to rate limit when the messages never leave the process
+      ...(this.offline ? { privateChatIntervalMs: 0, groupChatIntervalMs: 0 } : {})
+    });
+    this.notifiers = this.createNotifiers();
+    this.queue = new NotificationQueue(this.notifiers, this.database, {
+      maxAttempts: this.config.notificationMaxAttempts,
+      onDelivered: message => this.onMessageDelivered(message),
+      onUnreachable: message => this.onUnreachable(message),
+      onFailed: (message, willRetry) => this.onMessageFailed(message, willRetry)
+    });
+
+    if (!this.offline && (this.config.telegramMode === 'webhook' || this.config.statusApiEnabled)) {
+      this.httpServer = new HttpServer({
+        port: this.config.httpPort,
+        host: this.config.httpHost,
+        tlsCertPath: this.config.httpTlsCertPath,
+        tlsKeyPath: this.config.httpTlsKeyPath
+      });
+      if (this.config.telegramMode === 'webhook') {
+        new TelegramWebhook(this.bot, this.config.webhookSecret!).register(this.httpServer, this.config.webhookPath);
+      }
+      if (this.config.statusApiEnabled) {
+        new StatusApi({
+          database: this.database,
+          getHealth: () => this.getHealth(),
+          renderMetrics: () => this.renderMetrics()
+        }).register(this.httpServer);
+      }
+    }
   }
 
-  private loadConfig(): BotConfig {
-    return {
-      telegramBotToken: process.env.TELEGRAM_BOT_TOKEN!,
-      telegramChatId: process.env.TELEGRAM_CHAT_ID!,
-      checkIntervalMinutes: parseInt(process.env.CHECK_INTERVAL_MINUTES || '5'),
-      databasePath: process.env.DATABASE_PATH || './data/migrations.db',
-      bagsFmUrl: process.env.BAGS_FM_URL || 'https://bags.fm',
-      logLevel: process.env.LOG_LEVEL || 'info'
-    };
+  /**
+   * (Re)creates the parts built from reloadable settings. Everything else
+   * reads `this.config` when it runs.
+   */
+  /** `previous` is the configuration being replaced on reload; sources it built with the same settings are kept. */
+  private applyReloadableSettings(previous?: BotConfig): void {
+    Logger.configure(loggingOptions(this.config));
+    this.sources = previous ? reloadSources(this.sources, previous, this.config) : createSources(this.config);
+    this.milestones = new MilestoneTracker(this.config.milestoneMultipliers, this.config.milestoneMarketCaps);
+    this.reputation = new CreatorReputation(this.database, this.config.serialLauncherThreshold);
+    this.riskScorer = new RiskScorer(this.reputation);
+    this.exporter = new MigrationExporter(this.database, this.config.marketCapThreshold);
+  }
+
+  /**
+   * Re-reads the configuration (on SIGHUP) and applies the settings that are
+   * safe to change while running; the templates file is re-read as well.
+   * Changes to other settings are logged and wait for a restart. An invalid
+   * configuration is rejected as a whole and the current one kept.
+   */
+  async reloadConfig(): Promise<void> {
+    let next: BotConfig;
+    let templates: MessageTemplates;
+    try {
+      next = loadConfig({ requireTelegram: true });
+      templates = new MessageTemplates(next.templatesFile);
+    } catch (error) {
+      this.logger.error(`Configuration reload failed, keeping the current settings. ${(error as Error).message}`);
+      return;
+    }
+
+    const changed = changedSettings(this.config, next);
+    const applied = changed.filter(key => RELOADABLE_SETTINGS.includes(key));
+    const needRestart = changed.filter(key => !RELOADABLE_SETTINGS.includes(key));
+
+    const previous = this.config;
+    this.config = { ...this.config, ...Object.fromEntries(applied.map(key => [key, next[key]])) };
+    this.applyReloadableSettings(previous);
+    this.templates = templates;
+    this.telegram.setTemplates(templates);
+    if (applied.some(key => ['checkIntervalMinutes', 'checkActiveIntervalMinutes', 'checkActiveWindowMinutes', 'checkJitterSeconds'].includes(key))) {
+      this.scheduler.setOptions(this.pollSchedulerOptions());
+    }
+
+    this.logger.info(`Configuration reloaded${applied.length > 0 ? `; applied ${applied.map(settingName).join(', ')}` : ' with no setting changes'}`);
+    if (needRestart.length > 0) {
+      this.logger.warn(`Restart the bot to apply ${needRestart.map(settingName).join(', ')}`);
+    }
+  }
+
+  private createNotifiers(): Notifier[] {
+    const notifiers: Notifier[] = [this.telegram];
+
+    if (this.config.discordWebhookUrl) {
+      notifiers.push(new DiscordNotifier(this.config.discordWebhookUrl, this.config.discordEvents));
+    }
+    if (this.config.slackWebhookUrl) {
+      notifiers.push(new SlackNotifier(this.config.slackWebhookUrl, this.config.slackEvents));
+    }
+    if (this.config.genericWebhookUrl) {
+      notifiers.push(new WebhookNotifier(this.config.genericWebhookUrl, this.config.genericWebhookEvents, this.config.genericWebhookSecret));
+    }
+
+    this.logger.info(`Notification sinks: ${notifiers.map(notifier => `${notifier.name} (${notifier.events.join(', ') || 'no events'})`).join('; ')}`);
+    return notifiers;
   }
 
   async start(): Promise<void> {
     try {
+      this.startedAt = Date.now();
+
       // Initialize database
       await this.database.initialize();
       this.logger.info('Database initialized');
 
-      // Log the channel configuration
+      // Resume delivering anything left in the outbox by a previous run
+      this.queue.start();
+      const pending = await this.queue.depth();
+      if (pending > 0) {
+        this.logger.info(`Resuming delivery of ${pending} queued notifications`);
+      }
+
+      // Make sure the configured channel is always subscribed
+      await this.ensureDefaultSubscription();
       this.logger.info(`Bot configured to send notifications to channel: ${this.config.telegramChatId}`);
 
+      this.digestScheduler.sync(await this.database.getDigestSchedules());
+
+      if (!this.authorizer.hasAdmins()) {
+        this.logger.warn('ADMIN_USER_IDS is empty: admin-only commands (/clear, /release, /discard, /audit, /import) are disabled');
+      }
+
       // Set up bot commands
       this.setupBotCommands();
 
-      // Schedule periodic checks
-      this.schedulePeriodicCheck();
+      if (this.offline) {
+        this.logger.info('Bot started offline; checks run through poll()');
+        return;
+      }
+
+      // Serve the webhook and status API, then start receiving updates
+      await this.httpServer?.start();
+      await this.startReceivingUpdates();
 
-      // Run initial check
-      await this.checkForNewMigrations();
+      // Run the initial check; the scheduler times the next one from its end
+      this.scheduler.start();
+      this.logger.info(`Checking every ${this.config.checkIntervalMinutes} minutes` +
+        (this.config.checkActiveIntervalMinutes < this.config.checkIntervalMinutes
+          ? ` (every ${this.config.checkActiveIntervalMinutes} for ${this.config.checkActiveWindowMinutes} minutes after new tokens)`
+          : ''));
+      await this.checkForNewMigrations('startup');
 
       this.logger.info('Bot started successfully');
     } catch (error) {
@@ -61,16 +262,105 @@ export class BagsFmBot {
   async stop(): Promise<void> {
     this.logger.info('Stopping bot...');
     
-    if (this.cronJob) {
-      this.cronJob.stop();
-    }
+    this.scheduler.stop();
+    this.digestScheduler.stop();
     
-    this.bot.stopPolling();
+    this.queue.stop();
+    await this.stopReceivingUpdates();
+    await this.httpServer?.stop();
     await this.database.close();
     
     this.logger.info('Bot stopped');
   }
 
+  /**
+   * Runs one check and waits for the resulting notifications to be delivered,
+   * for offline runs where nothing else drives the bot.
+   */
+  async poll(timeoutMs: number = 30000): Promise<PollResult> {
+    const result = await this.checkForNewMigrations('offline');
+    if (!await this.queue.waitUntilIdle(timeoutMs)) {
+      this.logger.warn(`Outbox still held ${await this.queue.depth()} message(s) after ${timeoutMs / 1000}s`);
+    }
+    return result;
+  }
+
+  private async startReceivingUpdates(): Promise<void> {
+    if (this.config.telegramMode === 'polling') {
+      await this.bot.startPolling();
+      this.logger.info('Receiving Telegram updates via long polling');
+      return;
+    }
+
+    if (!this.config.webhookUrl) {
+      // Handy locally: POST updates to the endpoint yourself without touching Telegram's webhook
+      this.logger.warn('WEBHOOK_URL is not set: the webhook endpoint is running but was not registered with Telegram');
+      return;
+    }
+
+    const url = this.config.webhookUrl.replace(/\/+$/, '') + this.config.webhookPath;
+    await this.bot.setWebHook(url, { secret_token: this.config.webhookSecret });
+    this.logger.info(`Registered Telegram webhook at ${url}`);
+  }
+
+  private async stopReceivingUpdates(): Promise<void> {
+    if (this.config.telegramMode === 'polling') {
+      await this.bot.stopPolling();
+      return;
+    }
+
+    if (this.config.webhookUrl) {
+      try {
+        await this.bot.deleteWebHook();
+        this.logger.info('Unregistered Telegram webhook');
+      } catch (error) {
+        this.logger.warn('Failed to unregister Telegram webhook:', error);
+      }
+    }
+  }
+
+  /**
+   * Scraping is unhealthy once no source has succeeded for longer than the
+   * threshold. Sending is only unhealthy while messages are waiting and every
+   * attempt has failed for longer than the threshold, since a quiet market
+   * legitimately sends nothing for hours.
+   */
+  private async getHealth(): Promise<HealthReport> {
+    const now = Date.now();
+    const scrapeThresholdMs = this.config.healthMaxScrapeAgeMinutes * 60 * 1000;
+    const sendThresholdMs = this.config.healthMaxSendFailureMinutes * 60 * 1000;
+    const queueDepth = await this.queue.depth();
+
+    const scrapeReference = this.lastSuccessfulScrapeAt ? this.lastSuccessfulScrapeAt.getTime() : this.startedAt;
+    const scrapeOk = now - scrapeReference <= scrapeThresholdMs;
+    const sendOk = queueDepth === 0 || !this.sendFailingSince || now - this.sendFailingSince.getTime() <= sendThresholdMs;
+
+    return {
+      healthy: scrapeOk && sendOk,
+      uptimeSeconds: Math.round((now - this.startedAt) / 1000),
+      checks: {
+        scrape: {
+          ok: scrapeOk,
+          lastSuccessAt: this.lastSuccessfulScrapeAt,
+          thresholdSeconds: scrapeThresholdMs / 1000,
+          detail: this.lastSuccessfulScrapeAt ? undefined : 'No successful scrape since startup'
+        },
+        send: {
+          ok: sendOk,
+          lastSuccessAt: this.lastSuccessfulSendAt,
+          failingSince: this.sendFailingSince,
+          thresholdSeconds: sendThresholdMs / 1000,
+          detail: `${queueDepth} message(s) queued`
+        }
+      }
+    };
+  }
+
+  private async renderMetrics(): Promise<string> {
+    this.metrics.queueDepth.set(await this.queue.depth());
+    return this.metrics.registry.render();
+  }
+
   private setupBotCommands(): void {
     this.bot.onText(/\/start/, (msg) => {
       const chatId = msg.chat.id;
@@ -81,19 +371,239 @@ export class BagsFmBot {
         '/status - Check bot status\n' +
         '/check - Manually check for new migrations\n' +
         '/stats - Show token migration statistics\n' +
-        '/clear - Clear migration database (resets tracking)'
+        '/token <contract|symbol> - Show a stored token with live stats\n' +
+        '/recent [n] - Browse recent migrations\n' +
+        '/search <text> - Find tokens by name, symbol or creator\n' +
+        '/creator <address|token> - Show a creator\'s track record\n' +
+        '/digest - Show or change this chat\'s daily/weekly digests (chat admins)\n' +
+        '/export [csv|json|ndjson] [from=YYYY-MM-DD] [to=YYYY-MM-DD] - Download stored migrations (chat admins)\n' +
+        '/subscribe - Receive alerts in this chat (chat admins)\n' +
+        '/filters - Show or change this chat\'s alert filters (chat admins)\n' +
+        '/preview [template] [symbol|contract] - Render an alert for a stored token\n' +
+        '/unsubscribe - Stop alerts in this chat (chat admins)\n\n' +
+        'Bot admins only:\n' +
+        '/clear - Clear migration database (resets tracking)\n' +
+        '/release - Send alerts held by the startup burst guard\n' +
+        '/discard - Drop alerts held by the startup burst guard\n' +
+        '/audit - Show recent privileged commands\n' +
+        '/import - Reply to a CSV, JSON or NDJSON export to merge it'
       );
     });
 
-    this.bot.onText(/\/status/, (msg) => {
+    this.bot.onText(/^\/release(?:@\w+)?$/, async (msg) => {
+      const chatId = msg.chat.id;
+      if (!(await this.authorize(msg, '/release', 'admin'))) {
+        return;
+      }
+      try {
+        const count = await this.releaseHeldMigrations();
+        this.bot.sendMessage(chatId, count > 0 ? `📤 Released ${count} held token alerts.` : 'ℹ️ No alerts are being held.');
+      } catch (error) {
+        this.bot.sendMessage(chatId, '❌ Failed to release held alerts');
+      }
+    });
+
+    this.bot.onText(/^\/discard(?:@\w+)?$/, async (msg) => {
+      const chatId = msg.chat.id;
+      if (!(await this.authorize(msg, '/discard', 'admin'))) {
+        return;
+      }
+      try {
+        const count = await this.discardHeldMigrations();
+        this.bot.sendMessage(chatId, count > 0 ? `🗑️ Discarded ${count} held token alerts.` : 'ℹ️ No alerts are being held.');
+      } catch (error) {
+        this.bot.sendMessage(chatId, '❌ Failed to discard held alerts');
+      }
+    });
+
+    this.bot.onText(/^\/subscribe(?:@\w+)?$/, async (msg) => {
+      const chatId = String(msg.chat.id);
+      if (!(await this.authorize(msg, '/subscribe', 'chatAdmin'))) {
+        return;
+      }
+      try {
+        const existing = await this.database.getSubscription(chatId);
+        if (existing) {
+          this.bot.sendMessage(chatId, `ℹ️ This chat is already subscribed.\n\n${describeFilters(existing.filters)}`);
+          return;
+        }
+
+        const subscription: Subscription = {
+          chatId,
+          chatTitle: msg.chat.title || msg.chat.username || msg.chat.first_name,
+          filters: { ...DEFAULT_FILTERS },
+          createdAt: new Date()
+        };
+        await this.database.saveSubscription(subscription);
+        this.logger.info(`Chat ${chatId} subscribed`);
+        this.bot.sendMessage(chatId,
+          `✅ Subscribed! New token alerts will be sent here.\n\n${describeFilters(subscription.filters)}\n\n` +
+          'Change them with e.g. /filters mcap=250k volume=50k bonding=12 risk=50 mode=migration'
+        );
+      } catch (error) {
+        this.bot.sendMessage(chatId, '❌ Failed to subscribe');
+      }
+    });
+
+    this.bot.onText(/^\/filters(?:@\w+)?(?:\s+(.+))?$/, async (msg, match) => {
+      const chatId = String(msg.chat.id);
+      try {
+        const subscription = await this.database.getSubscription(chatId);
+        if (!subscription) {
+          this.bot.sendMessage(chatId, 'ℹ️ This chat is not subscribed. Use /subscribe first.');
+          return;
+        }
+
+        const args = match?.[1]?.trim();
+        if (!args) {
+          this.bot.sendMessage(chatId,
+            `⚙️ Filters for this chat:\n\n${describeFilters(subscription.filters)}\n\n` +
+            'Usage: /filters mcap=250k volume=50k bonding=12 risk=50 mode=all|migration|mcap\n' +
+            'Use "off" to clear a filter, or /filters reset'
+          );
+          return;
+        }
+
+        if (!(await this.authorize(msg, '/filters', 'chatAdmin', args))) {
+          return;
+        }
+
+        try {
+          subscription.filters = args.toLowerCase() === 'reset'
+            ? { ...DEFAULT_FILTERS }
+            : parseFilterArgs(args, subscription.filters);
+        } catch (parseError) {
+          this.bot.sendMessage(chatId, `❌ ${(parseError as Error).message}`);
+          return;
+        }
+
+        await this.database.saveSubscription(subscription);
+        this.bot.sendMessage(chatId, `✅ Filters updated:\n\n${describeFilters(subscription.filters)}`);
+      } catch (error) {
+        this.bot.sendMessage(chatId, '❌ Failed to update filters');
+      }
+    });
+
+    this.bot.onText(/^\/preview(?:@\w+)?(?:\s+(.+))?$/, async (msg, match) => {
+      const chatId = String(msg.chat.id);
+      const args = (match?.[1] || '').trim().split(/\s+/).filter(arg => arg.length > 0);
+
+      // The first argument is a template name if it matches one, otherwise the token
+      const templateName = args.length > 0 && this.templates.has(args[0])
+        ? args.shift()!
+        : this.templates.templateNameFor(chatId);
+      const query = args.join(' ');
+
+      try {
+        const token = query
+          ? await this.database.findMigrationByQuery(query)
+          : (await this.database.getRecentMigrations(1))[0];
+        if (!token) {
+          this.bot.sendMessage(chatId, query ? `❌ No stored token matches "${query}".` : 'ℹ️ No tokens stored yet.');
+          return;
+        }
+
+        const text = this.templates.render(await this.migrationEvent(token, token.id), chatId, templateName);
+        await this.bot.sendMessage(chatId, `👀 Preview of the "${templateName}" template:`);
+        await this.bot.sendMessage(chatId, text, { parse_mode: 'HTML', disable_web_page_preview: true });
+      } catch (error) {
+        this.logger.error('Failed to render preview:', error);
+        this.bot.sendMessage(chatId,
+          `❌ Could not render the "${templateName}" template: ${this.telegram.describeError(error).description}\n\n` +
+          `Available templates: ${this.templates.names().join(', ')}`
+        );
+      }
+    });
+
+    this.bot.onText(/^\/unsubscribe(?:@\w+)?$/, async (msg) => {
+      const chatId = String(msg.chat.id);
+      if (!(await this.authorize(msg, '/unsubscribe', 'chatAdmin'))) {
+        return;
+      }
+      try {
+        const removed = await this.database.removeSubscription(chatId);
+        this.bot.sendMessage(chatId, removed
+          ? '👋 Unsubscribed. This chat will no longer receive alerts.'
+          : 'ℹ️ This chat was not subscribed.'
+        );
+        if (removed) {
+          this.logger.info(`Chat ${chatId} unsubscribed`);
+        }
+      } catch (error) {
+        this.bot.sendMessage(chatId, '❌ Failed to unsubscribe');
+      }
+    });
+
+    this.bot.onText(/\/status/, async (msg) => {
       const chatId = msg.chat.id;
-      this.bot.sendMessage(chatId, '✅ Bot is running and monitoring for new token migrations!');
+      try {
+        const health = await this.getHealth();
+        let message = health.healthy
+          ? '✅ Bot is running and monitoring for new token migrations!'
+          : '⚠️ Bot is running but degraded:';
+
+        if (!health.checks.scrape.ok) {
+          message += `\n• No successful scrape since ${health.checks.scrape.lastSuccessAt?.toISOString() ?? 'startup'}`;
+        }
+        if (!health.checks.send.ok) {
+          message += `\n• Telegram delivery failing since ${health.checks.send.failingSince?.toISOString()} (${health.checks.send.detail})`;
+        }
+
+        message += `\n\n🛰️ Sources: ${this.sources.map(source => source.name).join(', ')}`;
+
+        const nextPollAt = this.scheduler.getNextPollAt();
+        if (this.scheduler.isPolling) {
+          message += '\n⏱️ A check is running now';
+        } else if (nextPollAt) {
+          message += `\n⏱️ Next check: ${nextPollAt.toISOString()}${this.scheduler.isActive() ? ' (active period)' : ''}`;
+        }
+
+        for (const source of this.sources) {
+          const crawl = source.getLastCrawlStats?.();
+          if (crawl) {
+            message += `\n\n📄 Last ${source.name} crawl: ${crawl.pagesCrawled}/${crawl.totalPages || '?'} pages, ` +
+              `${crawl.itemsFetched} tokens fetched, ${crawl.itemsQualified} qualifying\n` +
+              `Stopped: ${crawl.stopReason}${crawl.error ? ` (${crawl.error})` : ''} (${crawl.durationMs}ms)`;
+          }
+          const outage = this.sourceOutages.get(source.name);
+          if (outage) {
+            message += `\n🔴 ${source.name} has failed ${outage.failures} poll(s) in a row since ${outage.since.toISOString()}`;
+          }
+        }
+
+        this.bot.sendMessage(chatId, message);
+      } catch (error) {
+        this.logger.error('Failed to report status:', error);
+        this.bot.sendMessage(chatId, '❌ Failed to get bot status');
+      }
     });
 
-    this.bot.onText(/\/check/, async (msg) => {
+    this.bot.onText(/^\/check(?:@\w+)?$/, async (msg) => {
       const chatId = msg.chat.id;
-      this.bot.sendMessage(chatId, '🔍 Checking for new token migrations...');
-      await this.checkForNewMigrations();
+      if (!(await this.authorize(msg, '/check', 'chatAdmin'))) {
+        return;
+      }
+
+      // Manual checks share one cooldown across all chats; bot admins bypass it
+      const cooldownMs = this.config.checkCooldownSeconds * 1000;
+      const waitMs = this.lastManualCheckAt + cooldownMs - Date.now();
+      if (waitMs > 0 && !this.authorizer.isBotAdmin(msg.from?.id)) {
+        await this.audit(msg, '/check', 'rate-limited');
+        this.bot.sendMessage(chatId, `⏳ A check ran recently. Try again in ${Math.ceil(waitMs / 1000)}s.`);
+        return;
+      }
+      this.lastManualCheckAt = Date.now();
+
+      try {
+        this.bot.sendMessage(chatId, this.scheduler.isPolling
+          ? '🔍 A check is already running; waiting for its result...'
+          : '🔍 Checking for new token migrations...');
+        const result = await this.checkForNewMigrations('manual');
+        this.bot.sendMessage(chatId, describePollResult(result));
+      } catch (error) {
+        this.logger.error('Manual check failed:', error);
+        this.bot.sendMessage(chatId, '❌ Failed to check for new migrations');
+      }
     });
 
     this.bot.onText(/\/stats/, async (msg) => {
@@ -111,199 +621,1158 @@ export class BagsFmBot {
       }
     });
 
-    this.bot.onText(/\/clear/, async (msg) => {
+    this.bot.onText(/^\/token(?:@\w+)?(?:\s+(.+))?$/, async (msg, match) => {
+      const chatId = String(msg.chat.id);
+      const query = (match?.[1] || '').trim();
+      if (!query) {
+        this.bot.sendMessage(chatId, 'Usage: /token <contract address|symbol>');
+        return;
+      }
+
+      try {
+        const token = await this.database.findMigrationByQuery(query);
+        if (!token) {
+          const suggestions = await this.database.searchMigrations(query, 5);
+          this.bot.sendMessage(chatId, `❌ No stored token matches "${query}".` +
+            (suggestions.length > 0 ? `\n\nDid you mean: ${suggestions.map(s => s.symbol).join(', ')}? Try /search ${query}` : '')
+          );
+          return;
+        }
+
+        const { content } = await this.renderWithMarketData(token, chatId);
+        const text = content?.text || this.templates.render(await this.migrationEvent(token, token.id), chatId);
+        const firstSeen = token.firstSeenAt ? new Date(token.firstSeenAt) : new Date(token.migrationDate);
+        await this.bot.sendMessage(chatId,
+          `${text}\n<i>First seen ${firstSeen.toISOString().replace('T', ' ').slice(0, 16)} UTC` +
+          `${token.notifiedChats?.length ? `, alerted to ${token.notifiedChats.length} chat(s)` : ''}</i>`,
+          {
+            parse_mode: 'HTML',
+            disable_web_page_preview: true,
+            reply_markup: toReplyMarkup(this.telegram.buttonsFor(token, token.id))
+          }
+        );
+      } catch (error) {
+        this.logger.error('Failed to look up token:', error);
+        this.bot.sendMessage(chatId, '❌ Failed to look up token');
+      }
+    });
+
+    this.bot.onText(/^\/recent(?:@\w+)?(?:\s+(\d+))?$/, async (msg, match) => {
       const chatId = msg.chat.id;
+      const pageSize = Math.min(Math.max(parseInt(match?.[1] || String(RECENT_PAGE_SIZE)), 1), MAX_RECENT_PAGE_SIZE);
       try {
-        await this.database.clearDatabase();
-        this.bot.sendMessage(chatId, '🗑️ Database cleared successfully! All migration history has been reset.');
+        const page = await this.renderRecentPage(0, pageSize);
+        this.bot.sendMessage(chatId, page.text, {
+          parse_mode: 'HTML',
+          disable_web_page_preview: true,
+          reply_markup: page.replyMarkup
+        });
       } catch (error) {
-        this.bot.sendMessage(chatId, '❌ Failed to clear database');
+        this.logger.error('Failed to list recent migrations:', error);
+        this.bot.sendMessage(chatId, '❌ Failed to list recent migrations');
       }
     });
-  }
 
-  private schedulePeriodicCheck(): void {
-    const interval = `*/${this.config.checkIntervalMinutes} * * * *`;
-    this.cronJob = cron.schedule(interval, async () => {
-      this.logger.debug('Running scheduled migration check');
-      await this.checkForNewMigrations();
+    this.bot.onText(/^\/search(?:@\w+)?(?:\s+(.+))?$/, async (msg, match) => {
+      const chatId = msg.chat.id;
+      const query = (match?.[1] || '').trim();
+      if (!query) {
+        this.bot.sendMessage(chatId, 'Usage: /search <name, symbol or creator>');
+        return;
+      }
+
+      try {
+        const results = await this.database.searchMigrations(query, MAX_RECENT_PAGE_SIZE);
+        if (results.length === 0) {
+          this.bot.sendMessage(chatId, `🔎 No stored tokens match "${query}".`);
+          return;
+        }
+
+        this.bot.sendMessage(chatId,
+          `🔎 ${results.length} match(es) for "${escapeHtml(query)}":\n\n${this.formatTokenList(results, 1)}\n\n` +
+          'Use /token &lt;contract&gt; for details.',
+          { parse_mode: 'HTML', disable_web_page_preview: true }
+        );
+      } catch (error) {
+        this.logger.error('Failed to search migrations:', error);
+        this.bot.sendMessage(chatId, '❌ Failed to search tokens');
+      }
     });
-    
-    this.logger.info(`Scheduled checks every ${this.config.checkIntervalMinutes} minutes`);
-  }
 
-  private async checkForNewMigrations(): Promise<void> {
-    try {
-      this.logger.info('=== STARTING TOKEN MIGRATION CHECK ===');
-      
-      const launches = await this.scraper.getNewMigrations();
-      this.logger.info(`Retrieved ${launches.length} token launches from scraper`);
-      
-      const newMigrations: MigratedToken[] = [];
+    this.bot.onText(/^\/creator(?:@\w+)?(?:\s+(.+))?$/, async (msg, match) => {
+      const chatId = msg.chat.id;
+      const query = (match?.[1] || '').trim();
+      if (!query) {
+        this.bot.sendMessage(chatId, 'Usage: /creator <creator address|token contract|symbol>');
+        return;
+      }
 
-      for (const launch of launches) {
-        this.logger.debug(`Checking token: ${launch.symbol} (ID: ${launch.id}, Contract: ${launch.contractAddress})`);
-        
-        const exists = await this.database.migrationExistsByDetails(launch);
-        this.logger.debug(`Token ${launch.symbol} exists in database: ${exists}`);
-        
-        if (!exists) {
-          // Double-check: Verify again before saving to prevent any race conditions
-          const doubleCheckExists = await this.database.migrationExistsByDetails(launch);
-          if (!doubleCheckExists) {
-            await this.database.saveMigration(launch);
-            newMigrations.push(launch);
-            this.logger.info(`✅ NEW MIGRATION: ${launch.symbol} (${launch.contractAddress})`);
-          } else {
-            this.logger.info(`⚠️  RACE CONDITION PREVENTED: ${launch.symbol} (${launch.contractAddress}) - detected as duplicate on double-check`);
+      try {
+        // Accept a token too, since that is what people have at hand from an alert
+        let creator = query;
+        if ((await this.database.getMigrationsByCreator(query)).length === 0) {
+          const token = await this.database.findMigrationByQuery(query);
+          if (!token?.creator) {
+            this.bot.sendMessage(chatId, `❌ No stored tokens from creator "${query}".`);
+            return;
           }
-        } else {
-          this.logger.info(`⏭️  DUPLICATE SKIPPED: ${launch.symbol} (${launch.contractAddress})`);
+          creator = token.creator;
         }
+
+        const profile = await this.reputation.getProfile(creator);
+        this.bot.sendMessage(chatId, this.reputation.describe(profile));
+      } catch (error) {
+        this.logger.error('Failed to look up creator:', error);
+        this.bot.sendMessage(chatId, '❌ Failed to look up creator');
       }
+    });
 
-      if (newMigrations.length > 0) {
-        this.logger.info(`Found ${newMigrations.length} new token migrations`);
-        for (const migration of newMigrations) {
-          await this.sendMigrationNotification(migration);
-        }
-      } else {
-        this.logger.info('✅ No new token migrations found - all duplicates filtered');
+    this.bot.onText(/^\/digest(?:@\w+)?(?:\s+(.+))?$/, async (msg, match) => {
+      const chatId = String(msg.chat.id);
+      const args = (match?.[1] || '').trim();
+
+      if (args && !(await this.authorize(msg, '/digest', 'chatAdmin', args))) {
+        return;
       }
 
-    } catch (error) {
-      this.logger.error('❌ Error checking for token migrations:', error);
-      console.error('❌ Full error details:', error);
-    }
-  }
+      try {
+        const existing = (await this.database.getDigestSchedules()).find(schedule => schedule.chatId === chatId);
 
-  private async sendMigrationNotification(migration: MigratedToken): Promise<void> {
-    try {
-      const message = this.formatMigrationMessage(migration);
-      
-      // Send with image if available
-      if (migration.image) {
+        if (!args) {
+          this.bot.sendMessage(chatId,
+            (existing ? `📰 Digests for this chat:\n\n${describeDigestSchedule(existing)}` : '📰 No digests are scheduled for this chat.') +
+            '\n\nUsage: /digest daily=on|off weekly=on|off time=09:00 tz=Europe/Berlin day=mon\n' +
+            '/digest now [daily|weekly] sends one right away, /digest off stops them'
+          );
+          return;
+        }
+
+        const [first, second] = args.toLowerCase().split(/\s+/);
+        if (first === 'now') {
+          const frequency: DigestFrequency = second === 'weekly' ? 'weekly' : 'daily';
+          await this.sendDigest(chatId, existing?.timezone || 'UTC', frequency);
+          return;
+        }
+
+        if (first === 'off') {
+          const removed = await this.database.removeDigestSchedule(chatId);
+          this.digestScheduler.sync(await this.database.getDigestSchedules());
+          this.bot.sendMessage(chatId, removed ? '🔕 Digests stopped for this chat.' : 'ℹ️ No digests were scheduled for this chat.');
+          return;
+        }
+
+        // A chat's first /digest turns on the daily digest unless it says otherwise
+        const current: DigestSchedule = existing || {
+          chatId,
+          frequencies: ['daily'],
+          time: DEFAULT_DIGEST_TIME,
+          timezone: 'UTC',
+          weekday: DEFAULT_DIGEST_WEEKDAY,
+          updatedAt: new Date()
+        };
+        let schedule: DigestSchedule;
         try {
-          await this.bot.sendPhoto(this.config.telegramChatId, migration.image, {
-            caption: message,
-            parse_mode: 'HTML'
-          });
-        } catch (imageError) {
-          // If image fails, send as regular message
-          this.logger.warn(`Failed to send image for ${migration.symbol}, sending text only:`, imageError);
-          await this.bot.sendMessage(this.config.telegramChatId, message, { 
-            parse_mode: 'HTML',
-            disable_web_page_preview: false
-          });
+          schedule = parseDigestArgs(args, current);
+        } catch (error) {
+          this.bot.sendMessage(chatId, `❌ ${(error as Error).message}`);
+          return;
         }
-      } else {
-        // Send notification to the configured channel
-        await this.bot.sendMessage(this.config.telegramChatId, message, { 
-          parse_mode: 'HTML',
-          disable_web_page_preview: false
-        });
-      }
-      
-      this.logger.info(`Sent token migration notification to channel ${this.config.telegramChatId}: ${migration.name} (${migration.symbol})`);
-    } catch (error) {
-      this.logger.error('Failed to send token migration notification:', error);
-    }
-  }
 
-  private formatMigrationMessage(migration: MigratedToken): string {
-    let message = `🎯 <b>Token Successfully Migrated on Bags.fm!</b>\n\n`;
-    message += `<b>Token:</b> ${migration.name} (${migration.symbol})\n`;
-    
-    if (migration.contractAddress) {
-      message += `<b>Contract:</b> <code>${migration.contractAddress}</code>\n`;
-    }
-    
-    if (migration.description) {
-      message += `<b>Description:</b> ${migration.description.substring(0, 200)}${migration.description.length > 200 ? '...' : ''}\n`;
-    }
-    
-    message += `<b>Chain:</b> Solana\n`;
-    
-    if (migration.creator) {
-      message += `<b>Creator:</b> <code>${migration.creator}</code>\n`;
-    }
-    
-    // Format market cap with K, M, B abbreviations
-    if (migration.marketCap) {
-      const formattedMcap = this.formatCurrency(migration.marketCap);
-      message += `<b>💰 Market Cap:</b> $${formattedMcap}\n`;
-    }
-    
-    if (migration.price) {
-      message += `<b>💵 Price:</b> $${migration.price.toFixed(8)}\n`;
-    }
-    
-    if (migration.volume24h) {
-      const formattedVolume = this.formatCurrency(migration.volume24h);
-      message += `<b>📊 24h Volume:</b> $${formattedVolume}\n`;
-    }
-    
-    // Show total amount raised during bonding
-    if (migration.totalRaised) {
-      const formattedRaised = this.formatCurrency(migration.totalRaised);
-      message += `<b>💰 Total Raised:</b> $${formattedRaised}\n`;
-    }
-    
-    // Show bonding duration
-    if (migration.bondingDuration) {
-      const duration = this.formatDuration(migration.bondingDuration);
-      message += `<b>⏱️ Bonding Duration:</b> ${duration}\n`;
-    }
-    
-    if (migration.bondingProgress !== undefined) {
-      message += `<b>🔥 Bonding Progress:</b> ${(migration.bondingProgress * 100).toFixed(1)}%\n`;
-    }
-    
-    // Add social links if available
-    const socialLinks = [];
-    if (migration.website) socialLinks.push(`<a href="${migration.website}">Website</a>`);
-    if (migration.twitter) socialLinks.push(`<a href="${migration.twitter}">Twitter</a>`);
-    if (migration.telegram) socialLinks.push(`<a href="${migration.telegram}">Telegram</a>`);
-    
-    if (socialLinks.length > 0) {
-      message += `\n<b>Links:</b> ${socialLinks.join(' | ')}\n`;
-    }
-    
-    if (migration.url) {
-      message += `\n<a href="${migration.url}">🔗 View on Bags.fm</a>`;
-    }
-    
-    message += `\n\n#TokenMigration #BagsFm #Solana #${migration.symbol}`;
-    
-    return message;
-  }
+        if (schedule.frequencies.length === 0) {
+          await this.database.removeDigestSchedule(chatId);
+        } else {
+          await this.database.saveDigestSchedule(schedule);
+        }
+        this.digestScheduler.sync(await this.database.getDigestSchedules());
+        this.bot.sendMessage(chatId, `✅ Digest settings updated:\n\n${describeDigestSchedule(schedule)}`);
+      } catch (error) {
+        const action = args ? 'update' : 'load';
+        this.logger.error(`Failed to ${action} digest settings:`, error);
+        this.bot.sendMessage(chatId, `❌ Failed to ${action} digest settings`);
+      }
+    });
 
-  private formatCurrency(amount: number): string {
-    if (amount >= 1e9) {
-      return (amount / 1e9).toFixed(2) + 'B';
-    } else if (amount >= 1e6) {
-      return (amount / 1e6).toFixed(2) + 'M';
-    } else if (amount >= 1e3) {
-      return (amount / 1e3).toFixed(2) + 'K';
-    } else {
-      return amount.toFixed(2);
-    }
-  }
+    this.bot.onText(/^\/export(?:@\w+)?(?:\s+(.+))?$/, async (msg, match) => {
+      const chatId = msg.chat.id;
+      const args = (match?.[1] || '').trim();
+      if (!(await this.authorize(msg, '/export', 'chatAdmin', args))) {
+        return;
+      }
 
-  private formatDuration(hours: number): string {
-    if (hours < 1) {
-      const minutes = Math.round(hours * 60);
-      return `${minutes} minutes`;
-    } else if (hours < 24) {
-      return `${hours.toFixed(1)} hours`;
-    } else {
-      const days = Math.floor(hours / 24);
-      const remainingHours = Math.round(hours % 24);
-      if (remainingHours === 0) {
-        return `${days} days`;
-      } else {
-        return `${days}d ${remainingHours}h`;
+      let options;
+      try {
+        options = parseExportArgs(args);
+      } catch (error) {
+        this.bot.sendMessage(chatId,
+          `❌ ${(error as Error).message}\n\n` +
+          'Usage: /export [csv|json|ndjson] [from=YYYY-MM-DD] [to=YYYY-MM-DD] [days=N] [creator=ADDRESS] [mcap=100k] [volume=50k] [bonding=12] [mode=all|migration|mcap]'
+        );
+        return;
       }
+
+      try {
+        const result = await this.exporter.export(options);
+        if (result.count === 0) {
+          this.bot.sendMessage(chatId, 'ℹ️ No stored migrations match.');
+          return;
+        }
+
+        await this.bot.sendDocument(chatId, Buffer.from(result.content), {
+          caption: `📦 ${result.count} migration(s)`
+        }, {
+          filename: result.filename,
+          contentType: EXPORT_CONTENT_TYPES[options.format]
+        });
+      } catch (error) {
+        this.logger.error('Failed to export migrations:', error);
+        this.bot.sendMessage(chatId, '❌ Failed to export migrations');
+      }
+    });
+
+    // A document's caption doesn't reach onText, so /import works both as a
+    // reply to an uploaded file and as the caption of the upload itself
+    this.bot.onText(/^\/import(?:@\w+)?\s*$/, async msg => {
+      const document = msg.reply_to_message?.document;
+      if (!document) {
+        this.bot.sendMessage(msg.chat.id, 'Usage: reply /import to a CSV, JSON or NDJSON export, or send the file with /import as its caption');
+        return;
+      }
+      await this.importDocument(msg, document);
+    });
+
+    this.bot.on('document', async msg => {
+      if (msg.document && /^\/import(?:@\w+)?\s*$/.test(msg.caption || '')) {
+        await this.importDocument(msg, msg.document);
+      }
+    });
+
+    this.bot.onText(/^\/clear(?:@\w+)?(?:\s+(\w+))?$/, async (msg, match) => {
+      const chatId = msg.chat.id;
+      const confirm = match?.[1]?.toLowerCase() === 'confirm';
+      if (!(await this.authorize(msg, '/clear', 'admin', match?.[1]))) {
+        return;
+      }
+
+      // Destructive: require a second "/clear confirm" from the same user within a minute
+      const pendingKey = `${chatId}:${msg.from?.id}`;
+      if (!confirm) {
+        this.pendingClears.set(pendingKey, Date.now() + 60 * 1000);
+        this.bot.sendMessage(chatId,
+          '⚠️ This will wipe all migration history (a backup is taken first).\n\n' +
+          'Send /clear confirm within 60 seconds to proceed.'
+        );
+        return;
+      }
+
+      const expiresAt = this.pendingClears.get(pendingKey);
+      this.pendingClears.delete(pendingKey);
+      if (!expiresAt || expiresAt < Date.now()) {
+        await this.audit(msg, '/clear', 'cancelled', 'confirm');
+        this.bot.sendMessage(chatId, 'ℹ️ No pending clear request. Send /clear first.');
+        return;
+      }
+
+      try {
+        await this.database.clearDatabase();
+        await this.audit(msg, '/clear', 'confirmed', 'confirm');
+        this.bot.sendMessage(chatId, '🗑️ Database cleared successfully! All migration history has been reset.');
+      } catch (error) {
+        await this.audit(msg, '/clear', 'failed', 'confirm');
+        this.bot.sendMessage(chatId, '❌ Failed to clear database');
+      }
+    });
+
+    this.bot.onText(/^\/audit(?:@\w+)?(?:\s+(\d+))?$/, async (msg, match) => {
+      const chatId = msg.chat.id;
+      if (!(await this.authorize(msg, '/audit', 'admin'))) {
+        return;
+      }
+
+      const limit = Math.min(parseInt(match?.[1] || '10'), 50);
+      try {
+        const entries = await this.auditLog.recent(limit);
+        if (entries.length === 0) {
+          this.bot.sendMessage(chatId, 'ℹ️ The audit log is empty.');
+          return;
+        }
+
+        const lines = entries.map(entry =>
+          `${entry.timestamp.toISOString().replace('T', ' ').slice(0, 19)} ` +
+          `${entry.username ? '@' + entry.username : entry.userId || '?'} ` +
+          `${entry.command}${entry.args ? ' ' + entry.args : ''} in ${entry.chatId}: ${entry.outcome}`
+        );
+        this.bot.sendMessage(chatId, `🧾 Last ${entries.length} audited commands:\n\n${lines.join('\n')}`);
+      } catch (error) {
+        this.logger.error('Failed to read audit log:', error);
+        this.bot.sendMessage(chatId, '❌ Failed to read the audit log');
+      }
+    });
+
+    this.bot.on('callback_query', query => this.handleCallbackQuery(query));
+  }
+
+  /**
+   * Handles taps on the inline buttons under migration alerts. Every query is
+   * answered, even on failure, so the client stops showing a spinner.
+   */
+  private async handleCallbackQuery(query: TelegramBot.CallbackQuery): Promise<void> {
+    const data = query.data || '';
+    const separator = data.indexOf(':');
+    const action = separator === -1 ? data : data.slice(0, separator);
+    const migrationId = separator === -1 ? '' : data.slice(separator + 1);
+    let answer: Partial<TelegramBot.AnswerCallbackQueryOptions>;
+
+    try {
+      const token = migrationId && action !== 'recent' ? await this.database.getMigration(migrationId) : undefined;
+      if (action === 'recent') {
+        answer = await this.showRecentPage(query, migrationId);
+      } else if (!token) {
+        answer = { text: 'ℹ️ This token is no longer in the database.' };
+      } else if (action === 'refresh') {
+        answer = await this.refreshAlert(query, token);
+      } else if (action === 'mute') {
+        answer = await this.toggleCreatorMute(query, token);
+      } else if (action === 'track') {
+        answer = await this.toggleMilestoneTracking(query, token);
+      } else {
+        answer = { text: '❌ Unknown action' };
+      }
+    } catch (error) {
+      this.logger.error(`Failed to handle "${data}" button:`, error);
+      answer = { text: '❌ Something went wrong, please try again later.' };
+    }
+
+    try {
+      await this.bot.answerCallbackQuery(query.id, answer);
+    } catch (error) {
+      this.logger.warn('Failed to answer callback query:', error);
+    }
+  }
+
+  private async showRecentPage(query: TelegramBot.CallbackQuery, args: string): Promise<Partial<TelegramBot.AnswerCallbackQueryOptions>> {
+    const sent = query.message;
+    const [page, pageSize] = args.split(':').map(value => parseInt(value));
+    if (!sent || isNaN(page) || isNaN(pageSize)) {
+      return { text: '❌ This list can no longer be paged.' };
+    }
+
+    const rendered = await this.renderRecentPage(page, Math.min(Math.max(pageSize, 1), MAX_RECENT_PAGE_SIZE));
+    await this.bot.editMessageText(rendered.text, {
+      chat_id: sent.chat.id,
+      message_id: sent.message_id,
+      parse_mode: 'HTML',
+      disable_web_page_preview: true,
+      reply_markup: rendered.replyMarkup
+    });
+    return {};
+  }
+
+  private async renderRecentPage(page: number, pageSize: number): Promise<{ text: string; replyMarkup?: TelegramBot.InlineKeyboardMarkup }> {
+    const { totalMigrations } = await this.database.getStats();
+    const pageCount = Math.max(1, Math.ceil(totalMigrations / pageSize));
+    const current = Math.min(Math.max(page, 0), pageCount - 1);
+    const tokens = await this.database.getRecentMigrations(pageSize, current * pageSize);
+
+    if (tokens.length === 0) {
+      return { text: 'ℹ️ No tokens stored yet.' };
+    }
+
+    const buttons: TelegramBot.InlineKeyboardButton[] = [];
+    if (current > 0) {
+      buttons.push({ text: '⬅️ Newer', callback_data: `recent:${current - 1}:${pageSize}` });
+    }
+    if (current < pageCount - 1) {
+      buttons.push({ text: 'Older ➡️', callback_data: `recent:${current + 1}:${pageSize}` });
+    }
+
+    return {
+      text: `🕓 Recent migrations (page ${current + 1}/${pageCount}):\n\n${this.formatTokenList(tokens, current * pageSize + 1)}`,
+      replyMarkup: buttons.length > 0 ? { inline_keyboard: [buttons] } : undefined
+    };
+  }
+
+  // One numbered HTML entry per token: name, market cap, age and a copyable contract
+  private formatTokenList(tokens: MigratedToken[], firstNumber: number): string {
+    return tokens.map((token, index) => {
+      const ageHours = (Date.now() - new Date(token.migrationDate).getTime()) / (60 * 60 * 1000);
+      return `${firstNumber + index}. <b>${escapeHtml(token.name)}</b> (${escapeHtml(token.symbol)})` +
+        `${token.marketCap ? ` · $${formatCurrency(token.marketCap)}` : ''} · ${formatDuration(Math.max(ageHours, 0))} ago\n` +
+        `<code>${escapeHtml(token.contractAddress || token.id)}</code>`;
+    }).join('\n\n');
+  }
+
+  /**
+   * Re-renders an alert in place with current market data. Sources are asked
+   * first; if none of them lists the token any more, the last polled snapshot
+   * is shown instead.
+   */
+  private async refreshAlert(query: TelegramBot.CallbackQuery, token: MigratedToken): Promise<Partial<TelegramBot.AnswerCallbackQueryOptions>> {
+    const sent = query.message;
+    if (!sent) {
+      return { text: '❌ This alert can no longer be edited.' };
+    }
+
+    const key = `${sent.chat.id}:${sent.message_id}`;
+    const waitMs = (this.lastRefreshAt.get(key) || 0) + REFRESH_COOLDOWN_MS - Date.now();
+    if (waitMs > 0) {
+      return { text: `⏳ Refreshed recently. Try again in ${Math.ceil(waitMs / 1000)}s.` };
+    }
+    this.pruneRefreshCooldowns();
+    this.lastRefreshAt.set(key, Date.now());
+
+    const { content, live } = await this.renderWithMarketData(token, String(sent.chat.id));
+    if (!content) {
+      return { text: 'ℹ️ No market data available for this token yet.' };
+    }
+
+    try {
+      await this.telegram.edit(sent, content);
+    } catch (error) {
+      const info = this.telegram.describeError(error);
+      if (/not modified/i.test(info.description)) {
+        return { text: '✅ Already up to date' };
+      }
+      throw error;
+    }
+
+    return { text: live ? '🔄 Stats refreshed' : '🕓 Showing the last polled stats' };
+  }
+
+  /**
+   * Renders the migration alert for `token` with the freshest market data: a
+   * live lookup through the sources, recorded as a snapshot, or else the last
+   * polled snapshot. Content is undefined when neither exists.
+   */
+  private async renderWithMarketData(token: MigratedToken, chatId: string): Promise<{ content?: NotifierContent; live: boolean }> {
+    let snapshot = await this.fetchLiveSnapshot(token);
+    const live = snapshot !== undefined;
+    if (snapshot) {
+      await this.database.recordSnapshots([{ migrationId: token.id, snapshot }]);
+    } else {
+      const history = await this.database.getSnapshots(token.id);
+      snapshot = history[history.length - 1];
+    }
+    if (!snapshot) {
+      return { live };
+    }
+
+    const current: MigratedToken = {
+      ...token,
+      marketCap: snapshot.marketCap ?? token.marketCap,
+      price: snapshot.price ?? token.price,
+      volume24h: snapshot.volume24h ?? token.volume24h
+    };
+    const content = this.telegram.format(await this.migrationEvent(current, token.id), chatId);
+    const time = snapshot.timestamp.toISOString().slice(11, 16);
+    content.text += live
+      ? `\n\n<i>🔄 Updated ${time} UTC</i>`
+      : `\n\n<i>🕓 Not listed by any source right now; showing data from the ${time} UTC poll</i>`;
+
+    return { content, live };
+  }
+
+  private async fetchLiveSnapshot(token: MigratedToken): Promise<TokenSnapshot | undefined> {
+    if (!token.contractAddress) {
+      return undefined;
+    }
+
+    for (const source of this.sources) {
+      if (!source.fetchSnapshot) {
+        continue;
+      }
+      try {
+        const snapshot = await source.fetchSnapshot(token.contractAddress);
+        if (snapshot) {
+          return snapshot;
+        }
+      } catch (error) {
+        this.logger.warn(`Token source ${source.name} failed to refresh ${token.symbol}:`, error);
+      }
+    }
+
+    return undefined;
+  }
+
+  private pruneRefreshCooldowns(): void {
+    const cutoff = Date.now() - REFRESH_COOLDOWN_MS;
+    for (const [key, at] of this.lastRefreshAt) {
+      if (at < cutoff) {
+        this.lastRefreshAt.delete(key);
+      }
+    }
+  }
+
+  private async toggleCreatorMute(query: TelegramBot.CallbackQuery, token: MigratedToken): Promise<Partial<TelegramBot.AnswerCallbackQueryOptions>> {
+    const chatId = query.message ? String(query.message.chat.id) : undefined;
+    if (!chatId || !token.creator) {
+      return { text: 'ℹ️ Nothing to mute here.' };
+    }
+
+    const allowed = await this.authorizer.isAllowedCallback(query, 'chatAdmin');
+    await this.auditCallback(query, 'mute', allowed ? 'allowed' : 'denied', token.creator);
+    if (!allowed) {
+      return { text: '⛔ Only chat admins can mute creators.', show_alert: true };
+    }
+
+    const subscription = await this.database.getSubscription(chatId);
+    if (!subscription) {
+      return { text: 'ℹ️ This chat is not subscribed.' };
+    }
+
+    const muted = subscription.filters.mutedCreators || [];
+    const unmute = muted.includes(token.creator);
+    subscription.filters = {
+      ...subscription.filters,
+      mutedCreators: unmute ? muted.filter(creator => creator !== token.creator) : [...muted, token.creator]
+    };
+    await this.database.saveSubscription(subscription);
+
+    const creator = `${token.creator.slice(0, 4)}…${token.creator.slice(-4)}`;
+    return unmute
+      ? { text: `🔊 Unmuted creator ${creator} in this chat.` }
+      : { text: `🔇 Muted creator ${creator}: this chat gets no more alerts for their tokens. Tap again to undo.`, show_alert: true };
+  }
+
+  /**
+   * Toggles milestone DMs for the user who tapped. Bots can only message users
+   * who have started a private chat with them, so tracking is confirmed by DM
+   * before it is saved.
+   */
+  private async toggleMilestoneTracking(query: TelegramBot.CallbackQuery, token: MigratedToken): Promise<Partial<TelegramBot.AnswerCallbackQueryOptions>> {
+    if (!this.milestones.hasMilestones()) {
+      return { text: 'ℹ️ Milestone alerts are turned off.' };
+    }
+
+    const userId = String(query.from.id);
+    if (token.trackedBy?.includes(userId)) {
+      await this.database.setMilestoneTracker(token.id, userId, false);
+      return { text: `📉 Stopped tracking ${token.symbol}.` };
+    }
+
+    try {
+      await this.bot.sendMessage(userId, `📈 Tracking ${token.name} (${token.symbol}). I'll message you here when it hits a milestone.`);
+    } catch (error) {
+      const info = this.telegram.describeError(error);
+      if (info.statusCode === 403 || info.statusCode === 400) {
+        return { text: '✋ Open a private chat with me and press Start first, then tap Track again.', show_alert: true };
+      }
+      throw error;
+    }
+
+    await this.database.setMilestoneTracker(token.id, userId, true);
+    return { text: `📈 Tracking ${token.symbol}. Milestones will arrive by DM.` };
+  }
+
+  /**
+   * Merges an uploaded export into the database through the usual dedup rules.
+   * Bot admins only, since it writes to the shared history.
+   */
+  private async importDocument(msg: TelegramBot.Message, document: TelegramBot.Document): Promise<void> {
+    const chatId = msg.chat.id;
+    if (!(await this.authorize(msg, '/import', 'admin', document.file_name))) {
+      return;
+    }
+
+    const format = formatFromPath(document.file_name || '');
+    if (!format) {
+      this.bot.sendMessage(chatId, '❌ Send a .csv, .json or .ndjson file.');
+      return;
+    }
+    if ((document.file_size || 0) > MAX_IMPORT_BYTES) {
+      this.bot.sendMessage(chatId, '❌ The file is too large; Telegram only lets bots download files up to 20 MB. Use npm run db:import instead.');
+      return;
+    }
+
+    try {
+      const chunks: Buffer[] = [];
+      for await (const chunk of this.bot.getFileStream(document.file_id)) {
+        chunks.push(Buffer.from(chunk));
+      }
+
+      const result = await this.database.importExport(Buffer.concat(chunks).toString('utf-8'), format);
+      this.logger.info(`Imported ${result.imported} migrations from ${document.file_name} (${result.skipped} duplicates skipped)`);
+      this.bot.sendMessage(chatId, `✅ Imported ${result.imported} migration(s), skipped ${result.skipped} already tracked.`);
+    } catch (error) {
+      if (error instanceof MigrationFileError) {
+        this.bot.sendMessage(chatId, `❌ ${error.message}`);
+        return;
+      }
+      this.logger.error('Failed to import migrations:', error);
+      this.bot.sendMessage(chatId, '❌ Failed to import migrations');
+    }
+  }
+
+  /**
+   * Checks the sender may run `command`, records the attempt in the audit log
+   * and tells the sender when access is denied.
+   */
+  private async authorize(msg: TelegramBot.Message, command: string, level: AccessLevel, args?: string): Promise<boolean> {
+    const allowed = await this.authorizer.isAllowed(msg, level);
+    await this.audit(msg, command, allowed ? 'allowed' : 'denied', args);
+
+    if (!allowed) {
+      this.bot.sendMessage(msg.chat.id, level === 'admin'
+        ? '⛔ Only bot admins can use this command.'
+        : '⛔ Only chat admins can use this command.'
+      );
+    }
+
+    return allowed;
+  }
+
+  private async audit(msg: TelegramBot.Message, command: string, outcome: AuditEntry['outcome'], args?: string): Promise<void> {
+    await this.auditLog.record({
+      command,
+      chatId: String(msg.chat.id),
+      userId: msg.from ? String(msg.from.id) : undefined,
+      username: msg.from?.username,
+      args,
+      outcome
+    });
+  }
+
+  private async auditCallback(query: TelegramBot.CallbackQuery, action: string, outcome: AuditEntry['outcome'], args?: string): Promise<void> {
+    await this.auditLog.record({
+      command: `button:${action}`,
+      chatId: query.message ? String(query.message.chat.id) : String(query.from.id),
+      userId: String(query.from.id),
+      username: query.from.username,
+      args,
+      outcome
+    });
+  }
+
+  private pollSchedulerOptions(): PollSchedulerOptions {
+    return {
+      intervalMs: this.config.checkIntervalMinutes * 60 * 1000,
+      activeIntervalMs: this.config.checkActiveIntervalMinutes * 60 * 1000,
+      activeWindowMs: this.config.checkActiveWindowMinutes * 60 * 1000,
+      jitterMs: this.config.checkJitterSeconds * 1000
+    };
+  }
+
+  /**
+   * Requests a poll from the scheduler, which runs one at a time: asking while
+   * one is running returns that poll's result.
+   */
+  private checkForNewMigrations(trigger: PollTrigger): Promise<PollResult> {
+    return this.scheduler.request(trigger);
+  }
+
+  /**
+   * Runs one poll cycle. Everything it logs, including the sources' and the
+   * notifiers' lines, carries the same `pollId`.
+   */
+  private runPoll(trigger: PollTrigger): Promise<PollResult> {
+    const pollId = randomUUID().slice(0, 8);
+    return Logger.withContext({ pollId }, () => this.runMigrationCheck({
+      pollId,
+      trigger,
+      startedAt: new Date(),
+      durationMs: 0,
+      sources: this.sources.length,
+      launches: 0,
+      newCount: 0,
+      queuedCount: 0,
+      failedSources: [],
+      held: false
+    }));
+  }
+
+  private async runMigrationCheck(result: PollResult): Promise<PollResult> {
+    try {
+      this.logger.info(`=== STARTING TOKEN MIGRATION CHECK (${result.trigger}) ===`);
+      
+      const { launches, failedSources } = await this.fetchFromSources();
+      result.launches = launches.length;
+      result.failedSources = failedSources;
+      if (failedSources.length === this.sources.length) {
+        // Not "no new migrations": we simply don't know
+        this.logger.warn(`⚠️ Every token source failed (${failedSources.join(', ')}); nothing to check this time`);
+        return result;
+      }
+      this.logger.info(`Retrieved ${launches.length} token launches from ${this.sources.length} source(s)`);
+      
+      const subscriptions = await this.database.getSubscriptions();
+      const snapshots: { migrationId: string; snapshot: TokenSnapshot }[] = [];
+      let newCount = 0;
+      let queuedCount = 0;
+
+      const existing = new Map<MigratedToken, MigratedToken | undefined>();
+      for (const launch of launches) {
+        existing.set(launch, await this.database.findMigrationByDetails(launch));
+      }
+
+      // Safety valve: a flood of "new" tokens right after startup usually means
+      // lost or replaced history, so hold those alerts until an operator decides
+      const unseenCount = launches.filter(launch => !existing.get(launch)).length;
+      const inGracePeriod = Date.now() - this.startedAt < this.config.startupGraceMinutes * 60 * 1000;
+      const holdBurst = this.config.burstHoldThreshold > 0 && inGracePeriod && unseenCount > this.config.burstHoldThreshold;
+      if (holdBurst) {
+        this.logger.warn(`🛑 BURST HELD: ${unseenCount} new tokens right after startup (threshold ${this.config.burstHoldThreshold})`);
+      }
+
+      for (const launch of launches) {
+        const tokenLogger = this.logger.child({ symbol: launch.symbol, contract: launch.contractAddress });
+        tokenLogger.debug(`Checking token: ${launch.symbol} (ID: ${launch.id}, Contract: ${launch.contractAddress})`);
+        
+        let stored = existing.get(launch);
+        tokenLogger.debug(`Token ${launch.symbol} exists in database: ${Boolean(stored)}`);
+        
+        // Polls never overlap (see PollScheduler), so nothing can store this token between the lookup and here
+        if (!stored) {
+          await this.database.saveMigration({
+            ...launch,
+            firstSeenAt: new Date(),
+            notifiedChats: [],
+            notificationHeld: holdBurst || undefined
+          });
+          stored = await this.database.findMigrationByDetails(launch);
+          newCount++;
+          this.metrics.newMigrations.inc();
+          tokenLogger.info(`✅ NEW MIGRATION: ${launch.symbol} (${launch.contractAddress})`);
+          if (stored && !holdBurst) {
+            queuedCount += await this.broadcast(await this.migrationEvent(launch, stored.id), stored.id);
+          }
+        } else {
+          tokenLogger.debug(`⏭️  KNOWN TOKEN: ${launch.symbol} (${launch.contractAddress})`);
+          this.metrics.duplicatesSkipped.inc();
+          snapshots.push({
+            migrationId: stored.id,
+            snapshot: {
+              timestamp: new Date(),
+              marketCap: launch.marketCap,
+              price: launch.price,
+              volume24h: launch.volume24h
+            }
+          });
+          await this.checkMilestones(stored, launch);
+        }
+
+        if (stored && !stored.notificationHeld) {
+          queuedCount += await this.deliverToSubscribers(stored, launch, subscriptions);
+        }
+      }
+
+      if (holdBurst) {
+        await this.announceHeldBurst(newCount);
+      }
+
+      await this.database.recordSnapshots(snapshots);
+
+      if (newCount > 0 || queuedCount > 0) {
+        this.logger.info(`Found ${newCount} new token migrations, queued ${queuedCount} notifications for ${subscriptions.length} subscribed chat(s)`);
+      } else {
+        this.logger.info('✅ No new token migrations found - all duplicates filtered' +
+          (failedSources.length > 0 ? ` (failed sources: ${failedSources.join(', ')})` : ''));
+      }
+
+      result.newCount = newCount;
+      result.queuedCount = queuedCount;
+      result.held = holdBurst;
+    } catch (error) {
+      this.logger.error('❌ Error checking for token migrations:', error);
+      result.error = (error as Error).message;
+    }
+
+    result.durationMs = Date.now() - result.startedAt.getTime();
+    return result;
+  }
+
+  /**
+   * Sends `token` to every subscription that matches and hasn't received it yet.
+   * Known tokens are re-evaluated so a chat with stricter filters is alerted once
+   * the token grows into them, but never for tokens first seen before it subscribed.
+   */
+  private async deliverToSubscribers(stored: MigratedToken, token: MigratedToken, subscriptions: Subscription[]): Promise<number> {
+    if (!stored.firstSeenAt || !this.telegram.events.includes('migration')) {
+      return 0;
+    }
+
+    const firstSeenAt = new Date(stored.firstSeenAt).getTime();
+    let event: MigrationEvent | undefined;
+    let queued = 0;
+
+    for (const subscription of subscriptions) {
+      if (stored.notifiedChats?.includes(subscription.chatId) ||
+          stored.failedChats?.includes(subscription.chatId) ||
+          firstSeenAt < subscription.createdAt.getTime()) {
+        continue;
+      }
+
+      // Built once a chat actually needs it: known tokens are re-checked every poll
+      if (subscription.filters.maxRiskScore !== undefined) {
+        event = event || await this.migrationEvent(token, stored.id);
+      }
+      if (!matchesFilters(token, subscription.filters, this.config.marketCapThreshold, event?.risk)) {
+        continue;
+      }
+
+      // Still waiting in the outbox from an earlier poll
+      if (await this.database.hasPendingOutbox(stored.id, subscription.chatId)) {
+        continue;
+      }
+
+      event = event || await this.migrationEvent(token, stored.id);
+      await this.queueMigrationNotification(event, subscription.chatId);
+      queued++;
+    }
+
+    return queued;
+  }
+
+  /**
+   * Queues a digest for `chatId`. Digests are opted into per chat, so they go
+   * out even when TELEGRAM_EVENTS leaves out notices.
+   */
+  private async sendDigest(chatId: string, timezone: string, frequency: DigestFrequency): Promise<void> {
+    const report = await this.digestReporter.build(frequency);
+    await this.enqueueEvent(this.telegram, { type: 'notice', text: this.digestReporter.format(report, timezone) }, chatId);
+    this.logger.info(`Queued ${frequency} digest for chat ${chatId} (${report.migrationCount} migrations)`);
+  }
+
+  private async announceHeldBurst(count: number): Promise<void> {
+    const event: NotificationEvent = {
+      type: 'notice',
+      text: `🛑 Held ${count} token alerts: an unusually large burst of new tokens appeared right after startup.\n\n` +
+        'This usually means the database was reset or lost. Use /release to send them anyway, ' +
+        'or /discard to mark them as seen without alerting.'
+    };
+
+    try {
+      if (this.telegram.events.includes('notice')) {
+        await this.enqueueEvent(this.telegram, event, this.config.telegramChatId);
+      }
+      await this.broadcast(event);
+    } catch (error) {
+      this.logger.error('Failed to announce held burst:', error);
+    }
+  }
+
+  private async releaseHeldMigrations(): Promise<number> {
+    const held = await this.database.getHeldMigrations();
+    const subscriptions = await this.database.getSubscriptions();
+    let queued = 0;
+
+    for (const migration of held) {
+      const released = { ...migration, notificationHeld: undefined };
+      await this.database.saveMigration(released);
+      queued += await this.deliverToSubscribers(released, released, subscriptions);
+      queued += await this.broadcast(await this.migrationEvent(released, released.id), released.id);
+    }
+
+    this.logger.info(`Released ${held.length} held migrations (${queued} notifications queued)`);
+    return held.length;
+  }
+
+  private async discardHeldMigrations(): Promise<number> {
+    const held = await this.database.getHeldMigrations();
+    const subscriptions = await this.database.getSubscriptions();
+
+    // Mark them delivered everywhere so later polls treat them as already announced
+    for (const migration of held) {
+      await this.database.saveMigration({
+        ...migration,
+        notificationHeld: undefined,
+        notifiedChats: Array.from(new Set([...(migration.notifiedChats || []), ...subscriptions.map(s => s.chatId)]))
+      });
+    }
+
+    this.logger.info(`Discarded ${held.length} held migrations`);
+    return held.length;
+  }
+
+  /**
+   * Polls every enabled source in parallel and merges the results by contract
+   * address (see `mergeSourceResults`). Sources whose crawl failed are listed
+   * separately, so an outage isn't mistaken for a quiet market.
+   */
+  private async fetchFromSources(): Promise<{ launches: MigratedToken[]; failedSources: string[] }> {
+    // A failed lookup is the database's fault, not the source's: it skips the poll rather than counting as an outage
+    let storageError: unknown;
+    const isKnown = async (token: MigratedToken) => {
+      try {
+        return await this.database.migrationExistsByDetails(token);
+      } catch (error) {
+        storageError = storageError || error;
+        throw error;
+      }
+    };
+
+    const results = await Promise.all(this.sources.map(async source => {
+      const startedAt = Date.now();
+      let tokens: MigratedToken[] = [];
+      let succeeded = true;
+
+      try {
+        tokens = await source.getNewMigrations(isKnown);
+        // Sources log and swallow their own request errors, reporting them through crawl stats
+        succeeded = source.getLastCrawlStats?.()?.stopReason !== 'error';
+      } catch (error) {
+        this.logger.error(`Token source ${source.name} failed:`, error);
+        succeeded = false;
+      }
+      if (storageError) {
+        return { source, tokens, succeeded: false };
+      }
+
+      this.metrics.scrapeDuration.observe((Date.now() - startedAt) / 1000, { source: source.name });
+      this.metrics.tokensParsed.inc({ source: source.name }, tokens.length);
+      if (!succeeded) {
+        this.metrics.scrapeErrors.inc({ source: source.name });
+      }
+      await this.checkSchemaDrift(source);
+      await this.trackSourceOutage(source, succeeded);
+
+      return { source, tokens, succeeded };
+    }));
+
+    if (storageError) {
+      throw storageError;
+    }
+
+    if (results.some(result => result.succeeded)) {
+      this.lastSuccessfulScrapeAt = new Date();
+      this.metrics.lastScrapeSuccess.set(this.lastSuccessfulScrapeAt.getTime() / 1000);
+    }
+
+    return {
+      launches: mergeSourceResults(results),
+      failedSources: results.filter(result => !result.succeeded).map(result => result.source.name)
+    };
+  }
+
+  /**
+   * Tells the admin chat when a source's responses stop matching their
+   * declared schema, again whenever the set of issues changes, and once they
+   * match again.
+   */
+  private async checkSchemaDrift(source: TokenSource): Promise<void> {
+    const report = source.getLastSchemaDrift?.();
+    // A crawl that got no response leaves the previous report in place
+    if (!report || report === this.lastSchemaDrift.get(source.name)) {
+      return;
+    }
+    this.lastSchemaDrift.set(source.name, report);
+
+    for (const issue of report.issues) {
+      this.metrics.schemaIssues.inc({ source: source.name, kind: issue.kind }, issue.count);
+    }
+
+    const signature = report.issues.map(issue => `${issue.kind}:${issue.path}`).sort().join('\n');
+    if (signature === (this.alertedSchemaDrift.get(source.name) || '')) {
+      return;
+    }
+    this.alertedSchemaDrift.set(source.name, signature);
+
+    const text = signature
+      ? describeSchemaDrift(report)
+      : `✅ ${source.name} API responses match the declared schema again.`;
+    await this.notifyAdminChat(text, `schema drift alert for ${source.name}`);
+  }
+
+  /**
+   * Tells the admin chat once a source has failed `SOURCE_OUTAGE_ALERT_AFTER`
+   * polls in a row, and again when it recovers.
+   */
+  private async trackSourceOutage(source: TokenSource, succeeded: boolean): Promise<void> {
+    this.metrics.sourceUp.set(succeeded ? 1 : 0, { source: source.name });
+    const outage = this.sourceOutages.get(source.name);
+
+    if (succeeded) {
+      if (outage) {
+        this.sourceOutages.delete(source.name);
+        this.logger.info(`Token source ${source.name} recovered after ${outage.failures} failed poll(s)`);
+        if (outage.alerted) {
+          const hours = (Date.now() - outage.since.getTime()) / (1000 * 60 * 60);
+          await this.notifyAdminChat(
+            `🟢 Upstream recovered: ${source.name} is responding again after ${outage.failures} failed polls (${formatDuration(hours)}).`,
+            `recovery notice for ${source.name}`
+          );
+        }
+      }
+      return;
+    }
+
+    const current = outage || { failures: 0, since: new Date(), alerted: false };
+    current.failures++;
+    this.sourceOutages.set(source.name, current);
+
+    const threshold = this.config.sourceOutageAlertAfter;
+    if (threshold > 0 && !current.alerted && current.failures >= threshold) {
+      current.alerted = true;
+      const error = source.getLastCrawlStats?.()?.error;
+      await this.notifyAdminChat(
+        `🔴 Upstream down: ${source.name} has failed ${current.failures} polls in a row since ${current.since.toISOString()}.` +
+        (error ? `\n\nLast error: ${error}` : '') +
+        `\n\nNo alerts will come from ${source.name} until it recovers; this is an outage, not a quiet market.`,
+        `outage notice for ${source.name}`
+      );
+    }
+  }
+
+  private async notifyAdminChat(text: string, description: string): Promise<void> {
+    try {
+      await this.enqueueEvent(this.telegram, { type: 'notice', text }, this.config.adminChatId);
+      this.logger.info(`Queued ${description}`);
+    } catch (error) {
+      this.logger.error(`Failed to queue ${description}:`, error);
+    }
+  }
+
+  /**
+   * Puts a migration alert in the durable outbox. The chat only counts as
+   * notified once the queue reports successful delivery.
+   */
+  private async queueMigrationNotification(event: MigrationEvent, chatId: string): Promise<void> {
+    await this.enqueueEvent(this.telegram, event, chatId, event.migrationId);
+    this.logger.info(`Queued token migration notification for chat ${chatId}: ${event.token.name} (${event.token.symbol})`);
+  }
+
+  /**
+   * A migration event for `token` with its risk score, and the creator's
+   * reputation badge when the creator is known. A failed history lookup only
+   * costs the badge and the creator signals, never the alert.
+   */
+  private async migrationEvent(token: MigratedToken, migrationId: string): Promise<MigrationEvent> {
+    let profile: CreatorProfile | undefined;
+    if (token.creator) {
+      try {
+        profile = await this.reputation.getProfile(token.creator);
+      } catch (error) {
+        this.logger.warn(`Failed to build creator reputation for ${token.symbol}:`, error);
+      }
+    }
+
+    return {
+      type: 'migration',
+      token,
+      migrationId,
+      creatorBadge: profile ? this.reputation.badgeFor(token, profile) : undefined,
+      risk: this.riskScorer.assess(token, profile)
+    };
+  }
+
+  /**
+   * Queues `event` for every webhook sink that wants it. Unlike Telegram chats,
+   * sinks have no filters and get each migration once, when it is first stored
+   * or released.
+   */
+  private async broadcast(event: NotificationEvent, migrationId?: string): Promise<number> {
+    let queued = 0;
+
+    for (const notifier of this.notifiers) {
+      if (notifier === this.telegram || !notifier.events.includes(event.type)) {
+        continue;
+      }
+
+      try {
+        await this.enqueueEvent(notifier, event, notifier.name, migrationId);
+        queued++;
+      } catch (error) {
+        this.logger.error(`Failed to queue ${event.type} for ${notifier.name}:`, error);
+      }
+    }
+
+    return queued;
+  }
+
+  private async enqueueEvent(notifier: Notifier, event: NotificationEvent, target: string, migrationId?: string): Promise<void> {
+    await this.queue.enqueue({
+      ...notifier.format(event, target),
+      sink: notifier.name,
+      chatId: target,
+      kind: event.type,
+      migrationId
+    });
+  }
+
+  // The queue itself records the chat as notified when it removes the message
+  private onMessageDelivered(message: OutboxMessage): void {
+    this.lastSuccessfulSendAt = new Date();
+    this.sendFailingSince = undefined;
+    this.metrics.notificationsSent.inc({ kind: message.kind });
+    this.metrics.lastSendSuccess.set(this.lastSuccessfulSendAt.getTime() / 1000);
+  }
+
+  private onMessageFailed(message: OutboxMessage, willRetry: boolean): void {
+    this.sendFailingSince = this.sendFailingSince || new Date();
+    this.metrics.notificationsFailed.inc({ kind: message.kind, outcome: willRetry ? 'retry' : 'dropped' });
+  }
+
+  private async onUnreachable(message: OutboxMessage): Promise<void> {
+    if (message.sink && message.sink !== this.telegram.name) {
+      this.logger.warn(`The ${message.sink} webhook rejected a message as unauthorized or gone; check its URL`);
+      return;
+    }
+
+    if (await this.database.removeSubscription(message.chatId)) {
+      this.logger.warn(`Removed subscription for chat ${message.chatId}: bot can no longer post there`);
     }
+    if (await this.database.removeDigestSchedule(message.chatId)) {
+      this.logger.warn(`Removed digest schedule for chat ${message.chatId}: bot can no longer post there`);
+      this.digestScheduler.sync(await this.database.getDigestSchedules());
+    }
+  }
+
+  /**
+   * Sends follow-up alerts to every chat that received the original alert, and
+   * by DM to users tracking the token, once it crosses a configured milestone.
+   * When several are crossed in one poll only the highest is announced, but all
+   * of them are marked as fired.
+   */
+  private async checkMilestones(stored: MigratedToken, current: MigratedToken): Promise<void> {
+    const notified = stored.notifiedChats || [];
+    const trackers = (stored.trackedBy || []).filter(userId => !notified.includes(userId));
+    if (!this.milestones.hasMilestones() || notified.length + trackers.length === 0) {
+      return;
+    }
+
+    const crossed = this.milestones.check(stored, current);
+    if (crossed.length === 0) {
+      return;
+    }
+
+    const subscribed = new Set((await this.database.getSubscriptions()).map(s => s.chatId));
+    const event: NotificationEvent = {
+      type: 'milestone',
+      alerted: stored,
+      current,
+      crossed,
+      multiple: this.milestones.getMultiple(stored, current)
+    };
+
+    // Follow-ups go wherever the original alert was delivered, chats and webhook sinks alike
+    for (const target of notified) {
+      const sink = subscribed.has(target) ? this.telegram : this.notifiers.find(notifier => notifier.name === target);
+      if (sink && sink.events.includes('milestone')) {
+        await this.enqueueEvent(sink, event, target);
+      }
+    }
+
+    if (this.telegram.events.includes('milestone')) {
+      for (const userId of trackers) {
+        await this.enqueueEvent(this.telegram, event, userId);
+      }
+    }
+
+    // Once queued the outbox guarantees delivery attempts, so each milestone fires only once
+    await this.database.markMilestonesFired(stored.id, crossed.map(milestone => milestone.key));
+    this.logger.info(`🚀 MILESTONE: ${current.symbol} crossed ${crossed.map(m => m.key).join(', ')}`);
+  }
+
+  private async ensureDefaultSubscription(): Promise<void> {
+    const chatId = this.config.telegramChatId;
+    if (await this.database.getSubscription(chatId)) {
+      return;
+    }
+
+    await this.database.saveSubscription({
+      chatId,
+      chatTitle: 'Default channel',
+      filters: { ...DEFAULT_FILTERS },
+      createdAt: new Date()
+    });
+    this.logger.info(`Subscribed default channel ${chatId}`);
   }
 }
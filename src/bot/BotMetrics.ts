@@ -0,0 +1,57 @@
+import { Metrics } from '../utils/Metrics';
+
+/**
+ * The bot's Prometheus metrics. Counters are cumulative since process start.
+ */
+export class BotMetrics {
+  readonly registry = new Metrics();
+
+  readonly scrapeDuration = this.registry.histogram(
+    'bagsfm_scrape_duration_seconds',
+    'Time taken to fetch tokens from a source'
+  );
+  readonly scrapeErrors = this.registry.counter(
+    'bagsfm_scrape_errors_total',
+    'Token source fetches that failed'
+  );
+  readonly tokensParsed = this.registry.counter(
+    'bagsfm_tokens_parsed_total',
+    'Tokens returned by a source'
+  );
+  readonly sourceUp = this.registry.gauge(
+    'bagsfm_source_up',
+    'Whether a source succeeded in the last poll (1) or failed (0)'
+  );
+  readonly schemaIssues = this.registry.counter(
+    'bagsfm_schema_issues_total',
+    'Response fields that were missing, undeclared or of the wrong type, by source and kind'
+  );
+  readonly duplicatesSkipped = this.registry.counter(
+    'bagsfm_duplicates_skipped_total',
+    'Fetched tokens that were already in the database'
+  );
+  readonly newMigrations = this.registry.counter(
+    'bagsfm_new_migrations_total',
+    'Tokens stored for the first time'
+  );
+  readonly notificationsSent = this.registry.counter(
+    'bagsfm_notifications_sent_total',
+    'Messages delivered to Telegram'
+  );
+  readonly notificationsFailed = this.registry.counter(
+    'bagsfm_notifications_failed_total',
+    'Failed Telegram delivery attempts, by whether the message will be retried'
+  );
+  readonly queueDepth = this.registry.gauge(
+    'bagsfm_notification_queue_depth',
+    'Messages waiting in the outbox'
+  );
+  readonly lastScrapeSuccess = this.registry.gauge(
+    'bagsfm_last_successful_scrape_timestamp_seconds',
+    'Unix time of the last poll in which at least one source succeeded'
+  );
+  readonly lastSendSuccess = this.registry.gauge(
+    'bagsfm_last_successful_send_timestamp_seconds',
+    'Unix time of the last delivered message'
+  );
+}
@@ -0,0 +1,147 @@
+import { DatabaseManager } from '../database/DatabaseManager';
+import { MigratedToken } from '../types';
+import { median } from '../utils/stats';
+import { formatCurrency } from '../utils/format';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+// A median drop this large across a creator's earlier tokens marks them as risky
+export const RUG_CHANGE_THRESHOLD = -0.5;
+
+export interface CreatorTokenStats {
+  token: MigratedToken;
+  alertedAt: Date;
+  change24h?: number; // Market cap change over the first 24h after the alert, as a fraction
+  currentChange?: number; // Market cap change from the alert to the last poll
+}
+
+export interface CreatorProfile {
+  creator: string;
+  launches: number;
+  migrated: number;
+  launchesThisWeek: number;
+  tokens: CreatorTokenStats[]; // Newest first
+}
+
+/**
+ * Builds a creator's track record from the tokens the bot has stored for them
+ * and the market snapshots polled since each alert. Only tokens that reached
+ * the bot (migrated or crossed the mcap threshold) count as launches.
+ */
+export class CreatorReputation {
+  private database: DatabaseManager;
+  private serialLaunchThreshold: number;
+
+  constructor(database: DatabaseManager, serialLaunchThreshold: number) {
+    this.database = database;
+    this.serialLaunchThreshold = serialLaunchThreshold;
+  }
+
+  async getProfile(creator: string): Promise<CreatorProfile> {
+    const tokens = await this.database.getMigrationsByCreator(creator);
+    const stats: CreatorTokenStats[] = [];
+
+    for (const token of tokens) {
+      const alertedAt = new Date(token.firstSeenAt || token.migrationDate);
+      const snapshots = await this.database.getSnapshots(token.id);
+      const firstDay = snapshots.filter(snapshot =>
+        snapshot.timestamp.getTime() > alertedAt.getTime() && snapshot.timestamp.getTime() <= alertedAt.getTime() + DAY_MS
+      );
+
+      stats.push({
+        token,
+        alertedAt,
+        change24h: change(token.marketCap, firstDay[firstDay.length - 1]?.marketCap),
+        currentChange: change(token.marketCap, snapshots[snapshots.length - 1]?.marketCap)
+      });
+    }
+
+    return {
+      creator,
+      launches: tokens.length,
+      migrated: tokens.filter(token => token.bondingCompleted).length,
+      launchesThisWeek: stats.filter(stat => Date.now() - stat.alertedAt.getTime() <= WEEK_MS).length,
+      tokens: stats
+    };
+  }
+
+  /**
+   * A one-line reputation note for an alert about `token`, such as
+   * "⚠️ 5th launch this week · previous tokens −90% within 24h", from the
+   * profile of its creator.
+   */
+  badgeFor(token: MigratedToken, profile: CreatorProfile): string {
+    if (profile.launches <= 1) {
+      return '🆕 First token from this creator';
+    }
+
+    const parts = [profile.launchesThisWeek >= 2
+      ? `${ordinal(profile.launchesThisWeek)} launch this week`
+      : `${ordinal(profile.launches)} launch`];
+
+    const previous = this.previousChange(profile, token);
+    if (previous !== undefined) {
+      parts.push(`previous tokens ${formatChange(previous)} within 24h`);
+    }
+
+    const risky = this.isSerialLauncher(profile) || (previous !== undefined && previous <= RUG_CHANGE_THRESHOLD);
+    return `${risky ? '⚠️' : '👤'} ${parts.join(' · ')}`;
+  }
+
+  isSerialLauncher(profile: CreatorProfile): boolean {
+    return profile.launchesThisWeek >= this.serialLaunchThreshold;
+  }
+
+  /** Median first-day change of the creator's tokens other than `token`. */
+  previousChange(profile: CreatorProfile, token: MigratedToken): number | undefined {
+    return median(profile.tokens
+      .filter(stat => stat.token.id !== token.id)
+      .map(stat => stat.change24h)
+      .filter((value): value is number => value !== undefined));
+  }
+
+  /** Multi-line summary for `/creator`. */
+  describe(profile: CreatorProfile): string {
+    const lines = [
+      `👤 Creator ${profile.creator}`,
+      '',
+      `Tokens seen: ${profile.launches} (${profile.migrated} migrated)`,
+      `This week: ${profile.launchesThisWeek}`
+    ];
+
+    const changes = profile.tokens.map(stat => stat.change24h).filter((value): value is number => value !== undefined);
+    if (changes.length > 0) {
+      lines.push(`Median 24h after alert: ${formatChange(median(changes)!)}`);
+    }
+
+    if (profile.tokens.length > 0) {
+      lines.push('', 'Recent tokens:');
+      for (const stat of profile.tokens.slice(0, 10)) {
+        const details = [
+          stat.alertedAt.toISOString().slice(0, 10),
+          stat.token.marketCap ? `alert $${formatCurrency(stat.token.marketCap)}` : undefined,
+          stat.change24h !== undefined ? `24h ${formatChange(stat.change24h)}` : undefined,
+          stat.currentChange !== undefined ? `now ${formatChange(stat.currentChange)}` : undefined
+        ].filter(Boolean);
+        lines.push(`• ${stat.token.symbol}${stat.token.bondingCompleted ? '' : ' (not migrated)'}: ${details.join(', ')}`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+}
+
+function change(from?: number, to?: number): number | undefined {
+  return from && to ? to / from - 1 : undefined;
+}
+
+export function formatChange(fraction: number): string {
+  const percent = Math.round(fraction * 100);
+  return `${percent >= 0 ? '+' : '−'}${Math.abs(percent)}%`;
+}
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+  return `${n}${suffix}`;
+}
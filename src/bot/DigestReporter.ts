@@ -0,0 +1,113 @@
+import { DatabaseManager } from '../database/DatabaseManager';
+import { DigestFrequency, MigratedToken } from '../types';
+import { median } from '../utils/stats';
+import { formatCurrency, formatDuration } from '../utils/format';
+
+const PERIOD_MS: Record<DigestFrequency, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+};
+
+// Entries per ranking; a digest is meant to be read at a glance
+const TOP_COUNT = 5;
+
+export interface DigestReport {
+  frequency: DigestFrequency;
+  from: Date;
+  to: Date;
+  migrationCount: number;
+  topPerformers: { token: MigratedToken; multiple: number; marketCap: number }[];
+  fastestBonds: MigratedToken[];
+  biggestRaises: MigratedToken[];
+  medianBondingHours?: number;
+}
+
+/**
+ * Summarises the migrations of the last day or week: how many there were,
+ * which grew most since their alert, which bonded fastest and raised most.
+ */
+export class DigestReporter {
+  private database: DatabaseManager;
+
+  constructor(database: DatabaseManager) {
+    this.database = database;
+  }
+
+  async build(frequency: DigestFrequency, to: Date = new Date()): Promise<DigestReport> {
+    const from = new Date(to.getTime() - PERIOD_MS[frequency]);
+    const migrations = await this.database.getMigrationsBetween(from, to);
+
+    // Growth is measured from the market cap stored with the alert to the last polled one
+    const topPerformers: DigestReport['topPerformers'] = [];
+    for (const token of migrations) {
+      if (!token.marketCap) {
+        continue;
+      }
+      const snapshots = await this.database.getSnapshots(token.id);
+      const latest = snapshots[snapshots.length - 1]?.marketCap;
+      if (latest) {
+        topPerformers.push({ token, multiple: latest / token.marketCap, marketCap: latest });
+      }
+    }
+    topPerformers.sort((a, b) => b.multiple - a.multiple);
+
+    const bonded = migrations
+      .filter(token => token.bondingDuration !== undefined)
+      .sort((a, b) => a.bondingDuration! - b.bondingDuration!);
+
+    return {
+      frequency,
+      from,
+      to,
+      migrationCount: migrations.length,
+      topPerformers: topPerformers.slice(0, TOP_COUNT),
+      fastestBonds: bonded.slice(0, TOP_COUNT),
+      biggestRaises: migrations
+        .filter(token => token.totalRaised)
+        .sort((a, b) => b.totalRaised! - a.totalRaised!)
+        .slice(0, TOP_COUNT),
+      medianBondingHours: median(bonded.map(token => token.bondingDuration!))
+    };
+  }
+
+  /** Plain-text rendering; dates are shown in the chat's `timezone`. */
+  format(report: DigestReport, timezone: string): string {
+    const date = report.to.toLocaleDateString('en-CA', { timeZone: timezone });
+    const lines = [
+      `📰 ${report.frequency === 'daily' ? 'Daily' : 'Weekly'} digest for ${date} (${timezone})`,
+      '',
+      `🎯 Migrations: ${report.migrationCount}`
+    ];
+
+    if (report.medianBondingHours !== undefined) {
+      lines.push(`⏱️ Median time to migrate: ${formatDuration(report.medianBondingHours)}`);
+    }
+
+    if (report.topPerformers.length > 0) {
+      lines.push('', '🚀 Top performers since alert:');
+      report.topPerformers.forEach(({ token, multiple, marketCap }, index) => {
+        lines.push(`${index + 1}. ${token.symbol}: ${multiple.toFixed(1)}x ($${formatCurrency(token.marketCap!)} → $${formatCurrency(marketCap)})`);
+      });
+    }
+
+    if (report.fastestBonds.length > 0) {
+      lines.push('', '⚡ Fastest bonds:');
+      report.fastestBonds.forEach((token, index) => {
+        lines.push(`${index + 1}. ${token.symbol}: ${formatDuration(token.bondingDuration!)}`);
+      });
+    }
+
+    if (report.biggestRaises.length > 0) {
+      lines.push('', '💰 Biggest raises:');
+      report.biggestRaises.forEach((token, index) => {
+        lines.push(`${index + 1}. ${token.symbol}: $${formatCurrency(token.totalRaised!)}`);
+      });
+    }
+
+    if (report.migrationCount === 0) {
+      lines.push('', 'A quiet period: no tokens migrated.');
+    }
+
+    return lines.join('\n');
+  }
+}
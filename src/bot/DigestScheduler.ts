@@ -0,0 +1,145 @@
+import cron from 'node-cron';
+import { Logger } from '../utils/Logger';
+import { DigestFrequency, DigestSchedule } from '../types';
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+export const DEFAULT_DIGEST_TIME = '09:00';
+export const DEFAULT_DIGEST_WEEKDAY = 1;
+
+/**
+ * Runs one cron job per chat and digest frequency, in the chat's own timezone.
+ * `sync()` replaces every job, so it is called again whenever a schedule changes.
+ */
+export class DigestScheduler {
+  private logger: Logger;
+  private onDue: (schedule: DigestSchedule, frequency: DigestFrequency) => Promise<void>;
+  private jobs: cron.ScheduledTask[] = [];
+
+  constructor(onDue: (schedule: DigestSchedule, frequency: DigestFrequency) => Promise<void>) {
+    this.logger = new Logger('DigestScheduler');
+    this.onDue = onDue;
+  }
+
+  sync(schedules: DigestSchedule[]): void {
+    this.stop();
+
+    for (const schedule of schedules) {
+      const [hour, minute] = schedule.time.split(':').map(part => parseInt(part));
+
+      for (const frequency of schedule.frequencies) {
+        const expression = frequency === 'daily'
+          ? `${minute} ${hour} * * *`
+          : `${minute} ${hour} * * ${schedule.weekday}`;
+
+        try {
+          this.jobs.push(cron.schedule(expression, async () => {
+            try {
+              await this.onDue(schedule, frequency);
+            } catch (error) {
+              this.logger.error(`Failed to send ${frequency} digest to chat ${schedule.chatId}:`, error);
+            }
+          }, { timezone: schedule.timezone }));
+        } catch (error) {
+          this.logger.error(`Invalid ${frequency} digest schedule for chat ${schedule.chatId}:`, error);
+        }
+      }
+    }
+
+    if (this.jobs.length > 0) {
+      this.logger.info(`Scheduled ${this.jobs.length} digest job(s) for ${schedules.length} chat(s)`);
+    }
+  }
+
+  stop(): void {
+    for (const job of this.jobs) {
+      job.stop();
+    }
+    this.jobs = [];
+  }
+}
+
+/**
+ * Parses `/digest` arguments such as `daily=on weekly=on time=18:30 tz=Europe/Berlin day=fri`.
+ * Throws with a user-facing message on bad input.
+ */
+export function parseDigestArgs(args: string, current: DigestSchedule): DigestSchedule {
+  const schedule: DigestSchedule = { ...current, frequencies: [...current.frequencies], updatedAt: new Date() };
+
+  for (const part of args.trim().split(/\s+/)) {
+    const [rawKey, rawValue] = part.split('=');
+    const key = rawKey.toLowerCase();
+    const value = rawValue || '';
+
+    if (!value) {
+      throw new Error(`Missing value for "${rawKey}"`);
+    }
+
+    switch (key) {
+      case 'daily':
+      case 'weekly': {
+        const enabled = parseSwitch(value, rawKey);
+        const others = schedule.frequencies.filter(frequency => frequency !== key);
+        schedule.frequencies = enabled ? [...others, key] : others;
+        break;
+      }
+      case 'time': {
+        const match = value.match(/^(\d{1,2}):(\d{2})$/);
+        if (!match || parseInt(match[1]) > 23 || parseInt(match[2]) > 59) {
+          throw new Error(`Invalid time "${value}" (use HH:MM, 24-hour)`);
+        }
+        schedule.time = `${match[1].padStart(2, '0')}:${match[2]}`;
+        break;
+      }
+      case 'tz':
+        if (!isValidTimezone(value)) {
+          throw new Error(`Unknown timezone "${value}" (use an IANA name such as Europe/Berlin or UTC)`);
+        }
+        schedule.timezone = value;
+        break;
+      case 'day': {
+        const weekday = WEEKDAYS.indexOf(value.toLowerCase().slice(0, 3));
+        if (weekday === -1) {
+          throw new Error(`Unknown day "${value}" (use ${WEEKDAYS.join(', ')})`);
+        }
+        schedule.weekday = weekday;
+        break;
+      }
+      default:
+        throw new Error(`Unknown setting "${rawKey}" (use daily, weekly, time, tz, day)`);
+    }
+  }
+
+  return schedule;
+}
+
+export function describeDigestSchedule(schedule: DigestSchedule): string {
+  const daily = schedule.frequencies.includes('daily');
+  const weekly = schedule.frequencies.includes('weekly');
+
+  return [
+    `Daily: ${daily ? `on, at ${schedule.time}` : 'off'}`,
+    `Weekly: ${weekly ? `on, ${WEEKDAYS[schedule.weekday]} at ${schedule.time}` : 'off'}`,
+    `Timezone: ${schedule.timezone}`
+  ].join('\n');
+}
+
+function parseSwitch(value: string, key: string): boolean {
+  switch (value.toLowerCase()) {
+    case 'on':
+      return true;
+    case 'off':
+      return false;
+    default:
+      throw new Error(`Use on or off for "${key}"`);
+  }
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,68 @@
+import TelegramBot from 'node-telegram-bot-api';
+
+export interface CapturedRequest {
+  method: string;
+  params: Record<string, any>;
+  at: Date;
+}
+
+/**
+ * A Bot API client that never touches the network: every call is recorded in
+ * `requests` and answered locally, with `send*` calls returning a plausible
+ * message. Incoming updates can be fed in with `processUpdate()`. Lets a
+ * whole poll cycle run offline.
+ */
+export class InMemoryTelegramBot extends TelegramBot {
+  readonly requests: CapturedRequest[] = [];
+  private nextMessageId = 1;
+
+  constructor() {
+    super('offline', { polling: false });
+  }
+
+  /** The messages sent since the last call, oldest first. */
+  takeSentMessages(): CapturedRequest[] {
+    const sent = this.requests.filter(request => request.method.startsWith('send'));
+    this.requests.length = 0;
+    return sent;
+  }
+
+  // Every Bot API method of node-telegram-bot-api goes through this private hook
+  async _request(method: string, options: { form?: Record<string, any>; qs?: Record<string, any>; formData?: Record<string, any> } = {}): Promise<any> {
+    const params = { ...options.qs, ...options.form };
+    for (const field of Object.keys(options.formData || {})) {
+      params[field] = params[field] || `<upload ${options.formData![field].options?.filename || field}>`;
+    }
+    this.requests.push({ method, params, at: new Date() });
+
+    if (method === 'getMe') {
+      return { id: 0, is_bot: true, first_name: 'Offline bot', username: 'offline_bot' };
+    }
+    if (method === 'getChatMember') {
+      // Lets injected updates use chat admin commands
+      return { status: 'administrator', user: { id: Number(params.user_id), is_bot: false, first_name: 'Admin' } };
+    }
+    if (method === 'getUpdates') {
+      return [];
+    }
+    if (method.startsWith('send')) {
+      return this.sentMessage(params);
+    }
+    return true;
+  }
+
+  private sentMessage(params: Record<string, any>): TelegramBot.Message {
+    const chatId = String(params.chat_id);
+    return {
+      message_id: this.nextMessageId++,
+      date: Math.floor(Date.now() / 1000),
+      chat: {
+        id: isNaN(Number(chatId)) ? chatId as unknown as number : Number(chatId),
+        type: chatId.startsWith('-') ? 'group' : 'private'
+      },
+      text: params.text,
+      caption: params.caption,
+      photo: params.photo ? [{ file_id: String(params.photo), file_unique_id: String(this.nextMessageId), width: 0, height: 0 }] : undefined
+    };
+  }
+}
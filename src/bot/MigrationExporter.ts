@@ -0,0 +1,142 @@
+import { DatabaseManager } from '../database/DatabaseManager';
+import { EXPORT_FORMATS, serializeMigrations } from '../database/migrationFiles';
+import { ExportFormat, MigratedToken, SubscriptionFilters } from '../types';
+import { DEFAULT_FILTERS, matchesFilters, parseFilterArgs } from './SubscriptionFilters';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ExportOptions {
+  format: ExportFormat;
+  from?: Date;
+  to?: Date; // Exclusive
+  creator?: string;
+  filters: SubscriptionFilters;
+}
+
+export interface ExportResult {
+  content: string;
+  count: number;
+  filename: string;
+}
+
+/**
+ * Writes stored migrations to CSV, JSON or NDJSON, filtered by date range and
+ * the same criteria chats use for alerts. Newest first.
+ */
+export class MigrationExporter {
+  private database: DatabaseManager;
+  private marketCapThreshold: number;
+
+  constructor(database: DatabaseManager, marketCapThreshold: number) {
+    this.database = database;
+    this.marketCapThreshold = marketCapThreshold;
+  }
+
+  async export(options: ExportOptions): Promise<ExportResult> {
+    // Both lookups are indexed and come back newest first
+    const candidates = options.creator
+      ? await this.database.getMigrationsByCreator(options.creator)
+      : await this.database.getMigrationsBetween(options.from, options.to);
+    const migrations = candidates.filter(migration => this.matches(migration, options));
+
+    const range = [options.from, options.to && new Date(options.to.getTime() - 1)]
+      .map(date => date?.toISOString().slice(0, 10))
+      .filter(Boolean);
+
+    return {
+      content: serializeMigrations(migrations, options.format),
+      count: migrations.length,
+      filename: `migrations${range.length > 0 ? '-' + range.join('_') : ''}.${options.format}`
+    };
+  }
+
+  private matches(migration: MigratedToken, options: ExportOptions): boolean {
+    const time = new Date(migration.migrationDate).getTime();
+    if ((options.from && time < options.from.getTime()) || (options.to && time >= options.to.getTime())) {
+      return false;
+    }
+    if (options.creator && migration.creator?.toLowerCase() !== options.creator.toLowerCase()) {
+      return false;
+    }
+    return matchesFilters(migration, options.filters, this.marketCapThreshold);
+  }
+}
+
+/**
+ * Parses `/export` arguments such as `csv from=2024-06-01 to=2024-06-30 mode=migration mcap=100k`.
+ * `days=7` is short for the last week; `to` includes the whole day. The
+ * `mcap`, `volume`, `bonding` and `mode` criteria work as in `/filters`.
+ * Throws with a user-facing message on bad input.
+ */
+export function parseExportArgs(args: string): ExportOptions {
+  const options: ExportOptions = { format: 'csv', filters: { ...DEFAULT_FILTERS } };
+  const filterArgs: string[] = [];
+
+  for (const part of args.trim().split(/\s+/).filter(Boolean)) {
+    const [rawKey, rawValue] = part.split('=');
+    const key = rawKey.toLowerCase();
+    const value = rawValue || '';
+
+    if (EXPORT_FORMATS.includes(key as ExportFormat) && rawValue === undefined) {
+      options.format = key as ExportFormat;
+      continue;
+    }
+    if (rawValue === undefined) {
+      throw new Error(`Unknown format "${rawKey}" (use ${EXPORT_FORMATS.join(', ')})`);
+    }
+    if (!value) {
+      throw new Error(`Missing value for "${rawKey}"`);
+    }
+
+    switch (key) {
+      case 'format':
+        if (!EXPORT_FORMATS.includes(value.toLowerCase() as ExportFormat)) {
+          throw new Error(`Unknown format "${value}" (use ${EXPORT_FORMATS.join(', ')})`);
+        }
+        options.format = value.toLowerCase() as ExportFormat;
+        break;
+      case 'from':
+        options.from = parseDay(value, rawKey);
+        break;
+      case 'to':
+        options.to = new Date(parseDay(value, rawKey).getTime() + DAY_MS);
+        break;
+      case 'days': {
+        const days = parseInt(value);
+        if (!/^\d+$/.test(value) || days < 1) {
+          throw new Error(`Invalid number of days "${value}"`);
+        }
+        options.from = new Date(Date.now() - days * DAY_MS);
+        options.to = undefined;
+        break;
+      }
+      case 'creator':
+        options.creator = value;
+        break;
+      case 'mcap':
+      case 'volume':
+      case 'bonding':
+      case 'mode':
+        filterArgs.push(part);
+        break;
+      default:
+        throw new Error(`Unknown option "${rawKey}" (use csv, json, ndjson, from, to, days, creator, mcap, volume, bonding, mode)`);
+    }
+  }
+
+  if (filterArgs.length > 0) {
+    options.filters = parseFilterArgs(filterArgs.join(' '), options.filters);
+  }
+  if (options.from && options.to && options.from >= options.to) {
+    throw new Error('"from" must be before "to"');
+  }
+  return options;
+}
+
+function parseDay(value: string, key: string): Date {
+  const date = new Date(`${value}T00:00:00Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(date.getTime())) {
+    throw new Error(`Invalid date for "${key}": ${value} (use YYYY-MM-DD)`);
+  }
+  return date;
+}
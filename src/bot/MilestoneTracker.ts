@@ -0,0 +1,76 @@
+import { MigratedToken, Milestone } from '../types';
+
+/**
+ * Decides which follow-up milestones a tracked token has crossed. Multiples are
+ * measured against the price (or market cap) stored when the token was first
+ * alerted; absolute levels against the current market cap.
+ */
+export class MilestoneTracker {
+  private milestones: Milestone[];
+
+  constructor(multipliers: number[], marketCaps: number[]) {
+    this.milestones = [
+      ...multipliers.map(multiple => ({
+        key: `x${multiple}`,
+        label: `${multiple}x since alert`,
+        type: 'multiple' as const,
+        value: multiple
+      })),
+      ...marketCaps.map(level => ({
+        key: `mcap:${level}`,
+        label: `$${this.formatLevel(level)} market cap`,
+        type: 'marketCap' as const,
+        value: level
+      }))
+    ];
+  }
+
+  hasMilestones(): boolean {
+    return this.milestones.length > 0;
+  }
+
+  /**
+   * Returns the milestones `current` has newly crossed relative to the stored
+   * alert record, skipping ones already fired. Absolute levels the token was
+   * already above when alerted are never reported.
+   */
+  check(alerted: MigratedToken, current: MigratedToken): Milestone[] {
+    const fired = new Set(alerted.firedMilestones || []);
+    const multiple = this.getMultiple(alerted, current);
+    const crossed: Milestone[] = [];
+
+    for (const milestone of this.milestones) {
+      if (fired.has(milestone.key)) {
+        continue;
+      }
+
+      if (milestone.type === 'multiple') {
+        if (multiple !== undefined && multiple >= milestone.value) {
+          crossed.push(milestone);
+        }
+      } else if (current.marketCap && current.marketCap >= milestone.value &&
+                 (alerted.marketCap ?? 0) < milestone.value) {
+        crossed.push(milestone);
+      }
+    }
+
+    return crossed;
+  }
+
+  getMultiple(alerted: MigratedToken, current: MigratedToken): number | undefined {
+    if (alerted.price && current.price) {
+      return current.price / alerted.price;
+    }
+    if (alerted.marketCap && current.marketCap) {
+      return current.marketCap / alerted.marketCap;
+    }
+    return undefined;
+  }
+
+  private formatLevel(amount: number): string {
+    if (amount >= 1e9) return `${amount / 1e9}B`;
+    if (amount >= 1e6) return `${amount / 1e6}M`;
+    if (amount >= 1e3) return `${amount / 1e3}K`;
+    return String(amount);
+  }
+}
@@ -0,0 +1,227 @@
+import crypto from 'crypto';
+import { DatabaseManager } from '../database/DatabaseManager';
+import { Logger } from '../utils/Logger';
+import { DeliveryFailure, Notifier, OutboxMessage } from '../types';
+
+export interface NotificationQueueOptions {
+  globalPerSecond?: number;
+  maxAttempts?: number;
+  onDelivered?: (message: OutboxMessage) => void;
+  onUnreachable?: (message: OutboxMessage) => Promise<void>;
+  onFailed?: (message: OutboxMessage, willRetry: boolean) => void;
+}
+
+// Messages queued before sinks existed have no `sink` and are Telegram messages
+const DEFAULT_SINK = 'telegram';
+
+const BASE_BACKOFF_MS = 5 * 1000;
+const MAX_BACKOFF_MS = 30 * 60 * 1000;
+const IDLE_POLL_MS = 1000;
+const DRAIN_PAGE_SIZE = 50;
+
+/**
+ * Durable outbox for every notifier. Everything is persisted before the
+ * first send attempt, drained in order while respecting a global limit and
+ * each sink's per-target interval, and retried with exponential backoff (or
+ * the server's `retry_after`) until delivered or `maxAttempts` is reached.
+ */
+export class NotificationQueue {
+  private notifiers: Map<string, Notifier>;
+  private database: DatabaseManager;
+  private logger: Logger;
+  private options: Required<Omit<NotificationQueueOptions, 'onDelivered' | 'onUnreachable' | 'onFailed'>>;
+  private onDelivered?: (message: OutboxMessage) => void;
+  private onUnreachable?: (message: OutboxMessage) => Promise<void>;
+  private onFailed?: (message: OutboxMessage, willRetry: boolean) => void;
+  private chatNextAllowedAt = new Map<string, number>();
+  private globalNextAllowedAt = 0;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  private draining = false;
+
+  constructor(notifiers: Notifier[], database: DatabaseManager, options: NotificationQueueOptions = {}) {
+    this.notifiers = new Map(notifiers.map(notifier => [notifier.name, notifier]));
+    this.database = database;
+    this.logger = new Logger('NotificationQueue');
+    this.options = {
+      // Telegram allows about 30 messages/second overall
+      globalPerSecond: options.globalPerSecond ?? 25,
+      maxAttempts: options.maxAttempts ?? 10
+    };
+    this.onDelivered = options.onDelivered;
+    this.onUnreachable = options.onUnreachable;
+    this.onFailed = options.onFailed;
+  }
+
+  async enqueue(message: Omit<OutboxMessage, 'id' | 'attempts' | 'nextAttemptAt' | 'createdAt'>): Promise<void> {
+    const now = new Date();
+    await this.database.enqueueOutbox({
+      ...message,
+      id: crypto.randomUUID(),
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now
+    });
+    this.schedule(0);
+  }
+
+  async depth(): Promise<number> {
+    return this.database.countOutbox();
+  }
+
+  /**
+   * Resolves once the outbox is empty and the last delivery's callbacks have
+   * run, or after `timeoutMs`; returns whether it emptied.
+   */
+  async waitUntilIdle(timeoutMs: number): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+    while (this.draining || await this.depth() > 0) {
+      if (Date.now() >= deadline) {
+        return false;
+      }
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+    return true;
+  }
+
+  start(): void {
+    this.running = true;
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running || this.draining) {
+      return;
+    }
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => this.drain(), delayMs);
+  }
+
+  private async drain(): Promise<void> {
+    this.timer = undefined;
+    this.draining = true;
+    let nextDelay = IDLE_POLL_MS;
+
+    try {
+      const globalIntervalMs = 1000 / this.options.globalPerSecond;
+
+      // Page on past rows left for rate-limited chats, so a throttled chat's backlog can't hold up the others
+      let after: OutboxMessage | undefined;
+      let due: OutboxMessage[];
+      do {
+        due = await this.database.getDueOutbox(DRAIN_PAGE_SIZE, after);
+        after = due[due.length - 1];
+
+        for (const message of due) {
+          if (!this.running) {
+            return;
+          }
+
+          // Leave rate-limited chats for a later pass instead of blocking the others
+          const chatReadyAt = this.chatNextAllowedAt.get(this.targetKey(message)) || 0;
+          if (chatReadyAt > Date.now()) {
+            nextDelay = Math.min(nextDelay, chatReadyAt - Date.now());
+            continue;
+          }
+
+          const globalWait = this.globalNextAllowedAt - Date.now();
+          if (globalWait > 0) {
+            await new Promise(resolve => setTimeout(resolve, globalWait));
+          }
+          this.globalNextAllowedAt = Date.now() + globalIntervalMs;
+
+          await this.deliver(message);
+          nextDelay = 0;
+        }
+      } while (due.length === DRAIN_PAGE_SIZE && this.running);
+    } catch (error) {
+      this.logger.error('Notification queue drain failed:', error);
+    } finally {
+      this.draining = false;
+      this.schedule(Math.max(nextDelay, 0));
+    }
+  }
+
+  private async deliver(message: OutboxMessage): Promise<void> {
+    const notifier = this.notifiers.get(message.sink || DEFAULT_SINK);
+    if (!notifier) {
+      // The sink was removed from the configuration since the message was queued
+      this.logger.warn(`Dropping ${message.kind} message for disabled sink ${message.sink}`);
+      await this.database.deleteOutbox(message.id);
+      return;
+    }
+
+    this.chatNextAllowedAt.set(this.targetKey(message), Date.now() + notifier.intervalMs(message.chatId));
+
+    try {
+      await notifier.deliver(message);
+    } catch (error) {
+      await this.handleFailure(message, notifier.describeError(error));
+      return;
+    }
+
+    await this.database.finishOutbox(message, true);
+    this.logger.debug(`Delivered ${message.kind} message to ${this.describeTarget(message)}`);
+
+    try {
+      this.onDelivered?.(message);
+    } catch (error) {
+      this.logger.error('Delivery callback failed:', error);
+    }
+  }
+
+  private async handleFailure(message: OutboxMessage, error: DeliveryFailure): Promise<void> {
+    message.attempts++;
+    message.lastError = error.description;
+
+    // The bot was removed from the chat or blocked, or the channel is gone; nothing will get through
+    if (error.statusCode === 403 || error.statusCode === 410) {
+      this.logger.warn(`Dropping message for ${this.describeTarget(message)}: ${error.description}`);
+      this.onFailed?.(message, false);
+      await this.database.finishOutbox(message, false);
+      await this.onUnreachable?.(message);
+      return;
+    }
+
+    // Malformed requests and unknown webhooks won't succeed on retry either
+    if (error.statusCode === 400 || error.statusCode === 404 || message.attempts >= this.options.maxAttempts) {
+      this.logger.error(`Giving up on ${message.kind} message to ${this.describeTarget(message)} after ${message.attempts} attempt(s): ${error.description}`);
+      this.onFailed?.(message, false);
+      await this.database.finishOutbox(message, false);
+      return;
+    }
+
+    let delayMs: number;
+    if (error.retryAfterSeconds !== undefined) {
+      delayMs = error.retryAfterSeconds * 1000;
+      this.chatNextAllowedAt.set(this.targetKey(message), Date.now() + delayMs);
+      this.logger.warn(`Rate limited sending to ${this.describeTarget(message)}, retrying in ${error.retryAfterSeconds}s`);
+    } else {
+      const backoff = Math.min(BASE_BACKOFF_MS * 2 ** (message.attempts - 1), MAX_BACKOFF_MS);
+      delayMs = backoff / 2 + Math.random() * backoff / 2;
+      this.logger.warn(`Failed to send to ${this.describeTarget(message)} (attempt ${message.attempts}), retrying in ${Math.round(delayMs / 1000)}s: ${error.description}`);
+    }
+
+    this.onFailed?.(message, true);
+    message.nextAttemptAt = new Date(Date.now() + delayMs);
+    await this.database.updateOutbox(message);
+  }
+
+  private targetKey(message: OutboxMessage): string {
+    return `${message.sink || DEFAULT_SINK}:${message.chatId}`;
+  }
+
+  private describeTarget(message: OutboxMessage): string {
+    return message.sink && message.sink !== DEFAULT_SINK ? `${message.sink} webhook` : `chat ${message.chatId}`;
+  }
+}
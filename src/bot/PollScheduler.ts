@@ -0,0 +1,144 @@
+import { Logger } from '../utils/Logger';
+import { PollResult, PollTrigger } from '../types';
+
+// setTimeout fires right away for anything longer (about 24.8 days), so longer waits are chained
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+export interface PollSchedulerOptions {
+  intervalMs: number;
+  activeIntervalMs?: number; // Used for `activeWindowMs` after a poll that found new tokens
+  activeWindowMs?: number;
+  jitterMs?: number; // Up to this much is added to every wait
+}
+
+/**
+ * Runs polls one at a time. A poll requested while another is running (a
+ * scheduled tick during `/check`, say) joins the running one instead of
+ * starting a second. The next scheduled poll is timed from the end of the
+ * last one, at the active interval for a while after a poll finds new tokens.
+ */
+export class PollScheduler {
+  private logger: Logger;
+  private runPoll: (trigger: PollTrigger) => Promise<PollResult>;
+  private options: PollSchedulerOptions;
+  private started = false;
+  private timer?: NodeJS.Timeout;
+  private nextPollAt?: Date;
+  private inFlight?: Promise<PollResult>;
+  private activeUntil = 0;
+
+  constructor(runPoll: (trigger: PollTrigger) => Promise<PollResult>, options: PollSchedulerOptions) {
+    this.logger = new Logger('PollScheduler');
+    this.runPoll = runPoll;
+    this.options = options;
+  }
+
+  get isPolling(): boolean {
+    return this.inFlight !== undefined;
+  }
+
+  getNextPollAt(): Date | undefined {
+    return this.nextPollAt;
+  }
+
+  isActive(): boolean {
+    return Date.now() < this.activeUntil;
+  }
+
+  start(): void {
+    this.started = true;
+    if (!this.inFlight) {
+      this.scheduleNext();
+    }
+  }
+
+  stop(): void {
+    this.started = false;
+    this.clearTimer();
+  }
+
+  /** Takes effect from the next wait; a pending one is rescheduled from now. */
+  setOptions(options: PollSchedulerOptions): void {
+    this.options = options;
+    if (this.started && !this.inFlight) {
+      this.scheduleNext();
+    }
+  }
+
+  /** Starts a poll, or joins the one already running. */
+  request(trigger: PollTrigger): Promise<PollResult> {
+    if (this.inFlight) {
+      this.logger.debug(`A ${trigger} poll joined the one already running`);
+      return this.inFlight;
+    }
+
+    this.clearTimer();
+    this.inFlight = this.runPoll(trigger)
+      .then(result => {
+        if (result.newCount > 0 && this.options.activeWindowMs) {
+          this.activeUntil = Date.now() + this.options.activeWindowMs;
+        }
+        return result;
+      })
+      .finally(() => {
+        this.inFlight = undefined;
+        if (this.started) {
+          this.scheduleNext();
+        }
+      });
+    return this.inFlight;
+  }
+
+  private scheduleNext(): void {
+    this.clearTimer();
+
+    const interval = this.isActive()
+      ? this.options.activeIntervalMs ?? this.options.intervalMs
+      : this.options.intervalMs;
+    const delay = interval + Math.random() * (this.options.jitterMs || 0);
+    this.nextPollAt = new Date(Date.now() + delay);
+    this.startTimer(this.nextPollAt);
+    this.logger.debug(`Next poll at ${this.nextPollAt.toISOString()}${this.isActive() ? ' (active period)' : ''}`);
+  }
+
+  private startTimer(at: Date): void {
+    const wait = at.getTime() - Date.now();
+    this.timer = setTimeout(() => {
+      if (at.getTime() > Date.now()) {
+        this.startTimer(at);
+        return;
+      }
+      this.request('schedule').catch(error => this.logger.error('Scheduled poll failed:', error));
+    }, Math.min(Math.max(wait, 0), MAX_TIMER_MS));
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.nextPollAt = undefined;
+  }
+}
+
+/** One-line outcome of a poll, as `/check` reports it. */
+export function describePollResult(result: PollResult): string {
+  const seconds = (result.durationMs / 1000).toFixed(1);
+
+  if (result.error) {
+    return `❌ Check ${result.pollId} failed after ${seconds}s: ${result.error}`;
+  }
+  if (result.failedSources.length === result.sources) {
+    return `⚠️ Check ${result.pollId}: ${result.failedSources.join(', ')} failed, so there was nothing to check. This is an outage, not a quiet market.`;
+  }
+
+  let message = `✅ Check ${result.pollId} finished in ${seconds}s: ${result.launches} token(s) reported, ` +
+    `${result.newCount} new, ${result.queuedCount} notification(s) queued`;
+  if (result.held) {
+    message += '\n🛑 The new tokens were held as a burst; see /release and /discard';
+  }
+  if (result.failedSources.length > 0) {
+    message += `\n⚠️ Failed sources: ${result.failedSources.join(', ')}`;
+  }
+  return message;
+}
@@ -0,0 +1,108 @@
+import { MigratedToken, RiskAssessment, RiskLevel } from '../types';
+import { CreatorProfile, CreatorReputation, RUG_CHANGE_THRESHOLD, formatChange } from './CreatorReputation';
+import { formatDuration } from '../utils/format';
+
+// Scores at or above these are medium and high risk
+const MEDIUM_RISK_SCORE = 30;
+const HIGH_RISK_SCORE = 60;
+
+interface Signal {
+  weight: number;
+  reason: string;
+}
+
+/**
+ * Scores how suspicious a token looks from what the sources report and its
+ * creator's history. Each warning sign adds its weight to the score, capped
+ * at 100; the reasons explain the score in the alert. A heuristic, not a
+ * verdict: a low score only means none of the known signs were seen.
+ */
+export class RiskScorer {
+  private reputation?: CreatorReputation;
+
+  // Without `reputation` (offline dry runs) the creator signals are skipped
+  constructor(reputation?: CreatorReputation) {
+    this.reputation = reputation;
+  }
+
+  /** `profile` is the creator's history; without it creator signals are skipped. */
+  assess(token: MigratedToken, profile?: CreatorProfile): RiskAssessment {
+    const signals: Signal[] = [
+      ...this.bondingSignals(token),
+      ...this.volumeSignals(token),
+      ...this.socialSignals(token),
+      ...this.creatorSignals(token, profile)
+    ].sort((a, b) => b.weight - a.weight);
+
+    const score = Math.min(100, signals.reduce((sum, signal) => sum + signal.weight, 0));
+    return { score, level: riskLevel(score), reasons: signals.map(signal => signal.reason) };
+  }
+
+  private bondingSignals(token: MigratedToken): Signal[] {
+    // Tokens that qualified on market cap alone haven't proven they can bond
+    if (!token.bondingCompleted) {
+      return [{ weight: 15, reason: 'not migrated yet' }];
+    }
+
+    // Bonding within minutes usually means the creator or a few wallets bought it out
+    if (token.bondingDuration !== undefined && token.bondingDuration < 1) {
+      return [{ weight: 25, reason: `bonded in ${formatDuration(token.bondingDuration)}` }];
+    }
+    if (token.bondingDuration !== undefined && token.bondingDuration < 3) {
+      return [{ weight: 10, reason: `bonded in ${formatDuration(token.bondingDuration)}` }];
+    }
+    return [];
+  }
+
+  private volumeSignals(token: MigratedToken): Signal[] {
+    if (!token.marketCap || token.volume24h === undefined) {
+      return [];
+    }
+
+    const ratio = token.volume24h / token.marketCap;
+    if (ratio > 3) {
+      return [{ weight: 20, reason: `24h volume ${ratio.toFixed(1)}x market cap` }];
+    }
+    if (ratio < 0.05) {
+      return [{ weight: 10, reason: 'thin 24h volume' }];
+    }
+    return [];
+  }
+
+  private socialSignals(token: MigratedToken): Signal[] {
+    // Links the source never reported aren't evidence of a token without socials
+    if (!token.socialsReported) {
+      return [];
+    }
+
+    const socials = [token.website, token.twitter, token.telegram].filter(Boolean).length;
+    if (socials === 0) {
+      return [{ weight: 20, reason: 'no website or socials' }];
+    }
+    if (socials === 1) {
+      return [{ weight: 5, reason: 'only one social link' }];
+    }
+    return [];
+  }
+
+  private creatorSignals(token: MigratedToken, profile?: CreatorProfile): Signal[] {
+    if (!profile || !this.reputation) {
+      return [];
+    }
+
+    const signals: Signal[] = [];
+    if (this.reputation.isSerialLauncher(profile)) {
+      signals.push({ weight: 25, reason: `creator launched ${profile.launchesThisWeek} tokens this week` });
+    }
+
+    const previous = this.reputation.previousChange(profile, token);
+    if (previous !== undefined && previous <= RUG_CHANGE_THRESHOLD) {
+      signals.push({ weight: 30, reason: `creator's previous tokens ${formatChange(previous)} within 24h` });
+    }
+    return signals;
+  }
+}
+
+export function riskLevel(score: number): RiskLevel {
+  return score >= HIGH_RISK_SCORE ? 'high' : score >= MEDIUM_RISK_SCORE ? 'medium' : 'low';
+}
@@ -0,0 +1,133 @@
+import { MigratedToken, RiskAssessment, SubscriptionFilters, SubscriptionMode } from '../types';
+
+export const DEFAULT_FILTERS: SubscriptionFilters = {
+  mode: 'all'
+};
+
+const MODES: SubscriptionMode[] = ['all', 'migration', 'mcap'];
+
+/**
+ * Checks a token against a subscription's filters. `marketCapThreshold` is the
+ * global threshold the scraper uses for the mcap-crossing path. `risk` is
+ * required for the risk filter to pass; callers score the token only when a
+ * subscription sets one.
+ */
+export function matchesFilters(token: MigratedToken, filters: SubscriptionFilters, marketCapThreshold: number, risk?: RiskAssessment): boolean {
+  if (filters.mode === 'migration' && !token.bondingCompleted) {
+    return false;
+  }
+
+  if (filters.mode === 'mcap' && !(token.marketCap && token.marketCap >= marketCapThreshold)) {
+    return false;
+  }
+
+  if (filters.minMarketCap !== undefined && (token.marketCap ?? 0) < filters.minMarketCap) {
+    return false;
+  }
+
+  if (filters.minVolume24h !== undefined && (token.volume24h ?? 0) < filters.minVolume24h) {
+    return false;
+  }
+
+  // Tokens without a known bonding duration can't prove they bonded fast enough
+  if (filters.maxBondingHours !== undefined &&
+      (token.bondingDuration === undefined || token.bondingDuration > filters.maxBondingHours)) {
+    return false;
+  }
+
+  if (token.creator && filters.mutedCreators?.includes(token.creator)) {
+    return false;
+  }
+
+  if (filters.maxRiskScore !== undefined && (!risk || risk.score > filters.maxRiskScore)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Parses `/filters` arguments such as `mcap=250k volume=50k bonding=12 risk=50 mode=migration`.
+ * A value of `off` clears that filter. Throws with a user-facing message on bad input.
+ */
+export function parseFilterArgs(args: string, current: SubscriptionFilters): SubscriptionFilters {
+  const filters: SubscriptionFilters = { ...current };
+
+  for (const part of args.trim().split(/\s+/)) {
+    const [rawKey, rawValue] = part.split('=');
+    const key = rawKey.toLowerCase();
+    const value = (rawValue || '').toLowerCase();
+
+    if (!value) {
+      throw new Error(`Missing value for "${rawKey}"`);
+    }
+
+    switch (key) {
+      case 'mcap':
+        filters.minMarketCap = value === 'off' ? undefined : parseAmount(value, rawKey);
+        break;
+      case 'volume':
+        filters.minVolume24h = value === 'off' ? undefined : parseAmount(value, rawKey);
+        break;
+      case 'bonding':
+        filters.maxBondingHours = value === 'off' ? undefined : parseAmount(value, rawKey);
+        break;
+      case 'risk': {
+        if (value === 'off') {
+          filters.maxRiskScore = undefined;
+          break;
+        }
+        const score = parseAmount(value, rawKey);
+        if (score > 100) {
+          throw new Error(`Invalid risk score "${rawValue}" (use 0-100)`);
+        }
+        filters.maxRiskScore = score;
+        break;
+      }
+      case 'mode':
+        if (!MODES.includes(value as SubscriptionMode)) {
+          throw new Error(`Unknown mode "${rawValue}" (use ${MODES.join(', ')})`);
+        }
+        filters.mode = value as SubscriptionMode;
+        break;
+      case 'muted':
+        // Creators are muted one at a time from alert buttons; this only clears the list
+        if (value !== 'off') {
+          throw new Error('Creators can only be muted from an alert\'s button; use muted=off to unmute all');
+        }
+        filters.mutedCreators = undefined;
+        break;
+      default:
+        throw new Error(`Unknown filter "${rawKey}" (use mcap, volume, bonding, risk, mode, muted)`);
+    }
+  }
+
+  return filters;
+}
+
+export function describeFilters(filters: SubscriptionFilters): string {
+  const modeLabels: Record<SubscriptionMode, string> = {
+    all: 'migrations and mcap crossings',
+    migration: 'completed migrations only',
+    mcap: 'mcap crossings only'
+  };
+
+  return [
+    `Mode: ${modeLabels[filters.mode]}`,
+    `Min market cap: ${filters.minMarketCap !== undefined ? '$' + filters.minMarketCap.toLocaleString('en-US') : 'off'}`,
+    `Min 24h volume: ${filters.minVolume24h !== undefined ? '$' + filters.minVolume24h.toLocaleString('en-US') : 'off'}`,
+    `Max bonding duration: ${filters.maxBondingHours !== undefined ? filters.maxBondingHours + 'h' : 'off'}`,
+    `Max risk score: ${filters.maxRiskScore !== undefined ? filters.maxRiskScore : 'off'}`,
+    `Muted creators: ${filters.mutedCreators?.length || 'none'}`
+  ].join('\n');
+}
+
+function parseAmount(value: string, key: string): number {
+  const match = value.match(/^(\d+(?:\.\d+)?)([km]?)$/);
+  if (!match) {
+    throw new Error(`Invalid number for "${key}": ${value}`);
+  }
+
+  const multiplier = match[2] === 'k' ? 1e3 : match[2] === 'm' ? 1e6 : 1;
+  return parseFloat(match[1]) * multiplier;
+}
@@ -0,0 +1,456 @@
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { LoggingOptions } from '../utils/Logger';
+import { AlertAction, BotConfig, NotificationEventType } from '../types';
+
+/**
+ * Thrown when the configuration is invalid. Lists every problem found, not
+ * just the first, each naming the environment variable and file key.
+ */
+export class ConfigError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+    this.problems = problems;
+  }
+}
+
+export interface LoadConfigOptions {
+  // Only `run` talks to Telegram; offline commands work without the token and chat
+  requireTelegram?: boolean;
+}
+
+export type ConfigOrigin = 'env' | 'file' | 'default';
+
+export interface ResolvedConfig {
+  config: BotConfig;
+  origins: Record<keyof BotConfig, ConfigOrigin>;
+  file?: string;
+}
+
+// Parsers take a raw value from the environment (always a string) or the
+// config file (any JSON value) and throw with a reason when it doesn't fit
+type Parser<T> = (value: unknown) => T;
+
+interface Setting<T> {
+  env: string[];
+  file: string; // Dotted key in the config file
+  parse: Parser<T>;
+  default?: T | ((config: BotConfig) => T); // Functions see the other settings
+  reloadable?: boolean; // Applied on SIGHUP without a restart
+  secret?: boolean; // Masked when the configuration is printed
+}
+
+const EVENTS: NotificationEventType[] = ['migration', 'milestone', 'notice'];
+const ALERT_ACTIONS: AlertAction[] = ['refresh', 'copy', 'mute', 'track', 'open'];
+const LOG_LEVELS = ['debug', 'info', 'warn', 'error'];
+const TOKEN_SOURCES = ['bagsfm', 'axiom'];
+
+// Keyed over Required<> so every setting is listed and SETTINGS[key] is typed per key
+type Settings = { [K in keyof Required<BotConfig>]: Setting<BotConfig[K]> };
+
+const SETTINGS: Settings = {
+  telegramBotToken: { env: ['TELEGRAM_BOT_TOKEN'], file: 'telegram.botToken', parse: text(), secret: true },
+  telegramChatId: { env: ['TELEGRAM_CHAT_ID'], file: 'telegram.chatId', parse: text(/^(-?\d+|@\w+)$/, 'a numeric chat ID or @channelname') },
+  telegramMode: { env: ['TELEGRAM_MODE'], file: 'telegram.mode', parse: oneOf(['polling', 'webhook'] as const), default: 'polling' },
+  telegramEvents: { env: ['TELEGRAM_EVENTS'], file: 'telegram.events', parse: listOf(EVENTS), default: [...EVENTS] },
+  adminUserIds: { env: ['ADMIN_USER_IDS'], file: 'telegram.adminUserIds', parse: list(text(/^\d+$/, 'a numeric user ID')), default: [] },
+  adminChatId: { env: ['ADMIN_CHAT_ID'], file: 'telegram.adminChatId', parse: text(/^(-?\d+|@\w+)$/, 'a numeric chat ID or @channelname'), default: config => config.telegramChatId, reloadable: true },
+  webhookUrl: { env: ['WEBHOOK_URL'], file: 'telegram.webhook.url', parse: url() },
+  webhookPath: { env: ['WEBHOOK_PATH'], file: 'telegram.webhook.path', parse: text(/^\//, 'a path starting with /'), default: '/telegram/webhook' },
+  webhookSecret: { env: ['WEBHOOK_SECRET'], file: 'telegram.webhook.secret', parse: text(/^[A-Za-z0-9_-]{1,256}$/, '1-256 letters, digits, _ or -'), secret: true },
+
+  tokenSources: { env: ['TOKEN_SOURCES'], file: 'sources.enabled', parse: listOf(TOKEN_SOURCES), default: ['bagsfm'], reloadable: true },
+  bagsFmUrl: { env: ['BAGS_FM_URL'], file: 'sources.bagsfm.url', parse: url(), default: 'https://bags.fm', reloadable: true },
+  bagsFmApiUrl: { env: ['BAGS_FM_API_URL'], file: 'sources.bagsfm.apiUrl', parse: url(), default: 'https://api2.bags.fm/api/v1', reloadable: true },
+  maxLeaderboardPages: { env: ['MAX_LEADERBOARD_PAGES'], file: 'sources.bagsfm.maxPages', parse: integer(1, 100), default: 5, reloadable: true },
+  maxTokenAgeHours: { env: ['MAX_TOKEN_AGE_HOURS'], file: 'sources.bagsfm.maxTokenAgeHours', parse: integer(1), default: 48, reloadable: true },
+  bagsFmRecordDir: { env: ['BAGS_FM_RECORD_DIR'], file: 'sources.bagsfm.recordDir', parse: text(), reloadable: true },
+  bagsFmReplayDir: { env: ['BAGS_FM_REPLAY_DIR'], file: 'sources.bagsfm.replayDir', parse: text(), reloadable: true },
+  axiomApiUrl: { env: ['AXIOM_API_URL'], file: 'sources.axiom.apiUrl', parse: url(), reloadable: true },
+  axiomApiKey: { env: ['AXIOM_API_KEY'], file: 'sources.axiom.apiKey', parse: text(), reloadable: true, secret: true },
+  sourceRetries: { env: ['SOURCE_RETRIES'], file: 'sources.retries', parse: integer(0, 10), default: 3, reloadable: true },
+  sourceCircuitThreshold: { env: ['SOURCE_CIRCUIT_THRESHOLD'], file: 'sources.circuitBreaker.threshold', parse: integer(0), default: 3, reloadable: true },
+  sourceCircuitResetSeconds: { env: ['SOURCE_CIRCUIT_RESET_SECONDS'], file: 'sources.circuitBreaker.resetSeconds', parse: integer(1), default: 600, reloadable: true },
+  sourceOutageAlertAfter: { env: ['SOURCE_OUTAGE_ALERT_AFTER'], file: 'sources.outageAlertAfter', parse: integer(0), default: 3, reloadable: true },
+
+  marketCapThreshold: { env: ['MARKET_CAP_THRESHOLD'], file: 'thresholds.marketCap', parse: number(0), default: 100000, reloadable: true },
+  burstHoldThreshold: { env: ['BURST_HOLD_THRESHOLD'], file: 'thresholds.burstHold', parse: integer(0), default: 25, reloadable: true },
+  serialLauncherThreshold: { env: ['SERIAL_LAUNCHER_THRESHOLD'], file: 'thresholds.serialLauncher', parse: integer(1), default: 3, reloadable: true },
+  milestoneMultipliers: { env: ['MILESTONE_MULTIPLIERS'], file: 'thresholds.milestoneMultipliers', parse: numberList(1), default: [2, 5, 10], reloadable: true },
+  milestoneMarketCaps: { env: ['MILESTONE_MARKET_CAPS'], file: 'thresholds.milestoneMarketCaps', parse: numberList(0), default: [1000000, 10000000], reloadable: true },
+
+  checkIntervalMinutes: { env: ['CHECK_INTERVAL_MINUTES'], file: 'scheduling.checkIntervalMinutes', parse: integer(1), default: 5, reloadable: true },
+  checkActiveIntervalMinutes: {
+    env: ['CHECK_ACTIVE_INTERVAL_MINUTES'], file: 'scheduling.activeIntervalMinutes', parse: integer(1), reloadable: true,
+    default: config => config.checkIntervalMinutes
+  },
+  checkActiveWindowMinutes: { env: ['CHECK_ACTIVE_WINDOW_MINUTES'], file: 'scheduling.activeWindowMinutes', parse: integer(1), default: 30, reloadable: true },
+  checkJitterSeconds: { env: ['CHECK_JITTER_SECONDS'], file: 'scheduling.jitterSeconds', parse: integer(0), default: 0, reloadable: true },
+  startupGraceMinutes: { env: ['STARTUP_GRACE_MINUTES'], file: 'scheduling.startupGraceMinutes', parse: integer(0), default: 15, reloadable: true },
+  checkCooldownSeconds: { env: ['CHECK_COOLDOWN_SECONDS'], file: 'scheduling.checkCooldownSeconds', parse: integer(0), default: 60, reloadable: true },
+
+  templatesFile: { env: ['TEMPLATES_FILE'], file: 'templates.file', parse: existingFile(), reloadable: true },
+  alertButtons: { env: ['ALERT_BUTTONS'], file: 'templates.buttons', parse: listOf(ALERT_ACTIONS), default: [...ALERT_ACTIONS] },
+
+  databasePath: { env: ['DATABASE_PATH'], file: 'database.path', parse: text(), default: './data/migrations.db' },
+  databaseDriver: { env: ['DATABASE_DRIVER'], file: 'database.driver', parse: oneOf(['json', 'sqlite'] as const) },
+  databaseBackupCount: { env: ['DATABASE_BACKUP_COUNT'], file: 'database.backupCount', parse: integer(0), default: 5 },
+  databaseBackupIntervalMinutes: { env: ['DATABASE_BACKUP_INTERVAL_MINUTES'], file: 'database.backupIntervalMinutes', parse: integer(0), default: 60 },
+  auditLogPath: { env: ['AUDIT_LOG_PATH'], file: 'database.auditLogPath', parse: text(), default: config => path.join(path.dirname(config.databasePath), 'audit.log') },
+
+  notificationMaxAttempts: { env: ['NOTIFICATION_MAX_ATTEMPTS'], file: 'notifications.maxAttempts', parse: integer(1), default: 10 },
+  discordWebhookUrl: { env: ['DISCORD_WEBHOOK_URL'], file: 'notifications.discord.webhookUrl', parse: url(), secret: true },
+  discordEvents: { env: ['DISCORD_EVENTS'], file: 'notifications.discord.events', parse: listOf(EVENTS), default: ['migration', 'milestone'] },
+  slackWebhookUrl: { env: ['SLACK_WEBHOOK_URL'], file: 'notifications.slack.webhookUrl', parse: url(), secret: true },
+  slackEvents: { env: ['SLACK_EVENTS'], file: 'notifications.slack.events', parse: listOf(EVENTS), default: ['migration', 'milestone'] },
+  genericWebhookUrl: { env: ['GENERIC_WEBHOOK_URL'], file: 'notifications.webhook.url', parse: url() },
+  genericWebhookSecret: { env: ['GENERIC_WEBHOOK_SECRET'], file: 'notifications.webhook.secret', parse: text(), secret: true },
+  genericWebhookEvents: { env: ['GENERIC_WEBHOOK_EVENTS'], file: 'notifications.webhook.events', parse: listOf(EVENTS), default: [...EVENTS] },
+
+  httpHost: { env: ['HTTP_HOST'], file: 'http.host', parse: text(), default: '0.0.0.0' },
+  httpPort: { env: ['HTTP_PORT', 'PORT'], file: 'http.port', parse: integer(1, 65535), default: 3000 },
+  httpTlsCertPath: { env: ['HTTP_TLS_CERT'], file: 'http.tlsCert', parse: existingFile() },
+  httpTlsKeyPath: { env: ['HTTP_TLS_KEY'], file: 'http.tlsKey', parse: existingFile() },
+  statusApiEnabled: { env: ['STATUS_API_ENABLED'], file: 'http.statusApi', parse: boolean(), default: true },
+  healthMaxScrapeAgeMinutes: {
+    env: ['HEALTH_MAX_SCRAPE_AGE_MINUTES'], file: 'health.maxScrapeAgeMinutes', parse: integer(1), reloadable: true,
+    default: config => Math.max(15, config.checkIntervalMinutes * 3)
+  },
+  healthMaxSendFailureMinutes: { env: ['HEALTH_MAX_SEND_FAILURE_MINUTES'], file: 'health.maxSendFailureMinutes', parse: integer(1), default: 30, reloadable: true },
+
+  logLevel: { env: ['LOG_LEVEL'], file: 'logging.level', parse: oneOf(LOG_LEVELS), default: 'info', reloadable: true },
+  logFormat: { env: ['LOG_FORMAT'], file: 'logging.format', parse: oneOf(['text', 'json'] as const), default: 'text', reloadable: true },
+  logFile: { env: ['LOG_FILE'], file: 'logging.file', parse: text() },
+  logFileMaxSizeMb: { env: ['LOG_FILE_MAX_SIZE_MB'], file: 'logging.maxSizeMb', parse: number(0), default: 10 },
+  logFileRotate: { env: ['LOG_FILE_ROTATE'], file: 'logging.rotate', parse: oneOf(['none', 'hourly', 'daily'] as const), default: 'daily' },
+  logFileKeep: { env: ['LOG_FILE_KEEP'], file: 'logging.keep', parse: integer(1, 100), default: 5 }
+};
+
+/** Settings that a SIGHUP applies to a running bot; the rest need a restart. */
+export const RELOADABLE_SETTINGS = (Object.keys(SETTINGS) as (keyof BotConfig)[]).filter(key => SETTINGS[key].reloadable);
+
+/**
+ * Reads the bot configuration: built-in defaults, then the JSON or YAML file
+ * named by `CONFIG_FILE`, then environment variables (including `.env`,
+ * loaded by the entry point). Throws a `ConfigError` listing every invalid
+ * setting.
+ */
+export function loadConfig(options: LoadConfigOptions = {}): BotConfig {
+  return resolveConfig(options).config;
+}
+
+/** Like `loadConfig`, also reporting where each setting came from. */
+export function resolveConfig(options: LoadConfigOptions = {}): ResolvedConfig {
+  const problems: string[] = [];
+  const configFile = process.env.CONFIG_FILE || undefined;
+  const fileValues = configFile ? readConfigFile(configFile, problems) : new Map<string, unknown>();
+
+  const knownKeys = new Set(Object.values(SETTINGS).map(setting => setting.file));
+  for (const key of fileValues.keys()) {
+    if (!knownKeys.has(key)) {
+      problems.push(`${configFile}: unknown setting "${key}"`);
+    }
+  }
+
+  const config = {} as BotConfig;
+  const origins = {} as Record<keyof BotConfig, ConfigOrigin>;
+  const derived: (keyof BotConfig)[] = [];
+
+  const resolve = <K extends keyof BotConfig>(key: K): void => {
+    const setting = SETTINGS[key];
+    const fromEnv = envValue(setting);
+    const raw = fromEnv ?? fileValues.get(setting.file);
+    const label = fromEnv !== undefined ? fromEnv.name : `${setting.file} in ${configFile}`;
+
+    if (raw === undefined || raw === null) {
+      if (typeof setting.default === 'function') {
+        derived.push(key);
+      } else {
+        config[key] = copy(setting.default);
+      }
+      origins[key] = 'default';
+      return;
+    }
+
+    try {
+      config[key] = setting.parse(fromEnv !== undefined ? fromEnv.value : raw);
+      origins[key] = fromEnv !== undefined ? 'env' : 'file';
+    } catch (error) {
+      problems.push(`${label}: ${(error as Error).message}`);
+    }
+  };
+
+  // Defaults computed from other settings, which must all be in place by then
+  const derive = <K extends keyof BotConfig>(key: K): void => {
+    const compute = SETTINGS[key].default;
+    if (typeof compute === 'function') {
+      config[key] = compute(config);
+    }
+  };
+
+  for (const key of Object.keys(SETTINGS) as (keyof BotConfig)[]) {
+    resolve(key);
+  }
+  for (const key of derived) {
+    derive(key);
+  }
+
+  problems.push(...crossCheck(config, options));
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+
+  return { config, origins, file: configFile };
+}
+
+/**
+ * Logger settings for `config`. The values of secret settings are passed on
+ * to be redacted from every log line. Offline commands leave out the log
+ * file, which belongs to the running bot.
+ */
+export function loggingOptions(config: BotConfig, includeFile: boolean = true): LoggingOptions {
+  return {
+    level: config.logLevel,
+    format: config.logFormat,
+    file: includeFile && config.logFile ? {
+      path: config.logFile,
+      maxBytes: config.logFileMaxSizeMb * 1024 * 1024,
+      rotate: config.logFileRotate,
+      keep: config.logFileKeep
+    } : undefined,
+    secrets: (Object.keys(SETTINGS) as (keyof BotConfig)[])
+      .filter(key => SETTINGS[key].secret && typeof config[key] === 'string')
+      .map(key => config[key] as string)
+  };
+}
+
+/** The environment variable that sets `key`, for messages. */
+export function settingName(key: keyof BotConfig): string {
+  return SETTINGS[key].env[0];
+}
+
+/** Settings whose values differ between two loaded configurations. */
+export function changedSettings(current: BotConfig, next: BotConfig): (keyof BotConfig)[] {
+  return (Object.keys(SETTINGS) as (keyof BotConfig)[])
+    .filter(key => JSON.stringify(current[key]) !== JSON.stringify(next[key]));
+}
+
+/**
+ * One line per setting with its value, where it came from and the
+ * environment variable / file key that sets it. Secrets are masked.
+ */
+export function describeConfig(resolved: ResolvedConfig): string {
+  return (Object.keys(SETTINGS) as (keyof BotConfig)[]).map(key => {
+    const setting = SETTINGS[key] as Setting<unknown>;
+    const value = resolved.config[key];
+    const shown = value === undefined || (Array.isArray(value) && value.length === 0) ? '-'
+      : setting.secret ? '********'
+      : Array.isArray(value) ? value.join(',') : String(value);
+    const flags = [resolved.origins[key], setting.reloadable ? 'reloadable' : undefined].filter(Boolean).join(', ');
+    return `${setting.env[0]} (${setting.file}) = ${shown}  [${flags}]`;
+  }).join('\n');
+}
+
+function crossCheck(config: BotConfig, options: LoadConfigOptions): string[] {
+  const problems: string[] = [];
+
+  if (options.requireTelegram) {
+    if (!config.telegramBotToken) {
+      problems.push('TELEGRAM_BOT_TOKEN (telegram.botToken) is required');
+    }
+    if (!config.telegramChatId) {
+      problems.push('TELEGRAM_CHAT_ID (telegram.chatId) is required');
+    }
+  }
+  if (config.telegramMode === 'webhook' && !config.webhookSecret) {
+    problems.push('WEBHOOK_SECRET (telegram.webhook.secret) is required when TELEGRAM_MODE=webhook');
+  }
+  if (Boolean(config.httpTlsCertPath) !== Boolean(config.httpTlsKeyPath)) {
+    problems.push('HTTP_TLS_CERT and HTTP_TLS_KEY (http.tlsCert, http.tlsKey) must be set together');
+  }
+  if (config.tokenSources?.length === 0) {
+    problems.push('TOKEN_SOURCES (sources.enabled) must name at least one source');
+  }
+  if (config.checkActiveIntervalMinutes > config.checkIntervalMinutes) {
+    problems.push('CHECK_ACTIVE_INTERVAL_MINUTES (scheduling.activeIntervalMinutes) can\'t be longer than CHECK_INTERVAL_MINUTES');
+  }
+  if (config.bagsFmRecordDir && config.bagsFmReplayDir) {
+    problems.push('BAGS_FM_RECORD_DIR and BAGS_FM_REPLAY_DIR can\'t both be set');
+  }
+
+  return problems;
+}
+
+// Defaults are shared between loads; a reload must not see a list another load changed
+function copy<T>(value: T): T {
+  return Array.isArray(value) ? [...value] as T : value;
+}
+
+// Empty variables count as unset (`.env.example` leaves many blank), except
+// for lists, where an empty value means "none"
+function envValue(setting: Setting<unknown>): { name: string; value: string } | undefined {
+  for (const name of setting.env) {
+    const value = process.env[name];
+    if (value !== undefined && (value.trim() !== '' || Array.isArray(setting.default))) {
+      return { name, value };
+    }
+  }
+  return undefined;
+}
+
+function readConfigFile(file: string, problems: string[]): Map<string, unknown> {
+  let content: string;
+  try {
+    content = fs.readFileSync(file, 'utf-8');
+  } catch (error) {
+    problems.push(`CONFIG_FILE: can't read ${file} (${(error as NodeJS.ErrnoException).code || (error as Error).message})`);
+    return new Map();
+  }
+
+  let data: unknown;
+  try {
+    data = /\.ya?ml$/i.test(file) ? parseYaml(content, { merge: true }) : JSON.parse(content);
+  } catch (error) {
+    // YAML errors go on to quote the offending lines; the first line already says where
+    problems.push(`${file}: ${(error as Error).message.split('\n')[0]}`);
+    return new Map();
+  }
+
+  if (data === null || data === undefined) {
+    return new Map();
+  }
+  if (!isPlainObject(data)) {
+    problems.push(`${file}: expected sections such as "telegram:" and "thresholds:" at the top level`);
+    return new Map();
+  }
+  return flatten(data as Record<string, unknown>);
+}
+
+// { thresholds: { marketCap: 1 } } -> "thresholds.marketCap" => 1; lists are values
+function flatten(data: Record<string, unknown>, prefix: string = '', into = new Map<string, unknown>()): Map<string, unknown> {
+  for (const [key, value] of Object.entries(data)) {
+    const dotted = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value)) {
+      flatten(value as Record<string, unknown>, dotted, into);
+    } else {
+      into.set(dotted, value);
+    }
+  }
+  return into;
+}
+
+function isPlainObject(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function text(pattern?: RegExp, description?: string): Parser<string> {
+  return value => {
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      throw new Error(`expected text, got ${JSON.stringify(value)}`);
+    }
+    const result = String(value).trim();
+    if (pattern && !pattern.test(result)) {
+      throw new Error(`expected ${description}, got "${result}"`);
+    }
+    return result;
+  };
+}
+
+function url(): Parser<string> {
+  return value => {
+    const result = text()(value);
+    if (!/^https?:\/\/[^\s]+$/i.test(result)) {
+      throw new Error(`expected an http(s) URL, got "${result}"`);
+    }
+    return result.replace(/\/+$/, '');
+  };
+}
+
+function existingFile(): Parser<string> {
+  return value => {
+    const result = text()(value);
+    if (!fs.existsSync(result)) {
+      throw new Error(`file ${result} does not exist`);
+    }
+    return result;
+  };
+}
+
+function number(min: number): Parser<number> {
+  return value => {
+    const result = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+    if (!isFinite(result) || result < min) {
+      throw new Error(`expected a number of at least ${min}, got ${JSON.stringify(value)}`);
+    }
+    return result;
+  };
+}
+
+function integer(min: number, max?: number): Parser<number> {
+  return value => {
+    const result = typeof value === 'number' ? value : typeof value === 'string' && /^\s*[-+]?\d+\s*$/.test(value) ? Number(value) : NaN;
+    if (!Number.isInteger(result) || result < min || (max !== undefined && result > max)) {
+      const range = max !== undefined ? `between ${min} and ${max}` : `of at least ${min}`;
+      throw new Error(`expected a whole number ${range}, got ${JSON.stringify(value)}`);
+    }
+    return result;
+  };
+}
+
+function boolean(): Parser<boolean> {
+  return value => {
+    if (typeof value === 'boolean') {
+      return value;
+    }
+    const normalized = String(value).trim().toLowerCase();
+    if (['true', '1', 'yes', 'on'].includes(normalized)) {
+      return true;
+    }
+    if (['false', '0', 'no', 'off'].includes(normalized)) {
+      return false;
+    }
+    throw new Error(`expected true or false, got ${JSON.stringify(value)}`);
+  };
+}
+
+function oneOf<T extends string>(values: readonly T[]): Parser<T> {
+  return value => {
+    const result = text()(value).toLowerCase() as T;
+    if (!values.includes(result)) {
+      throw new Error(`expected one of ${values.join(', ')}, got "${value}"`);
+    }
+    return result;
+  };
+}
+
+// Lists come as comma-separated text from the environment and as arrays or text from the file
+function list<T>(item: Parser<T>): Parser<T[]> {
+  return value => {
+    const items = Array.isArray(value) ? value
+      : typeof value === 'string' || typeof value === 'number' ? String(value).split(',').map(part => part.trim()).filter(Boolean)
+      : undefined;
+    if (!items) {
+      throw new Error(`expected a list, got ${JSON.stringify(value)}`);
+    }
+    return items.map((entry, index) => {
+      try {
+        return item(entry);
+      } catch (error) {
+        throw new Error(`item ${index + 1}: ${(error as Error).message}`);
+      }
+    });
+  };
+}
+
+function listOf<T extends string>(values: readonly T[]): Parser<T[]> {
+  return list(oneOf(values));
+}
+
+function numberList(min: number): Parser<number[]> {
+  const parser = list(number(min));
+  return value => parser(value).sort((a, b) => a - b);
+}
@@ -0,0 +1,338 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { BagsFmBot } from '../bot/BagsFmBot';
+import { describeConfig, loadConfig, loggingOptions, resolveConfig } from '../bot/config';
+import { InMemoryTelegramBot } from '../bot/InMemoryTelegramBot';
+import { MigrationExporter, parseExportArgs } from '../bot/MigrationExporter';
+import { RiskScorer } from '../bot/RiskScorer';
+import { DatabaseManager } from '../database/DatabaseManager';
+import { createSources, mergeSourceResults } from '../scraper/sources';
+import { LeaderboardReplay } from '../scraper/LeaderboardFixtures';
+import { describeSchemaDrift } from '../scraper/SchemaDriftMonitor';
+import { MessageTemplates } from '../templates/MessageTemplates';
+import { Logger } from '../utils/Logger';
+import { BotConfig, MigratedToken } from '../types';
+
+/**
+ * Parsed command line: `flags` holds `--name` and `--name=value` options,
+ * `args` everything else after the command.
+ */
+export interface CliArgs {
+  args: string[];
+  flags: Map<string, string | true>;
+}
+
+/**
+ * Thrown for bad usage; the entry point prints the message and the usage text
+ * instead of a stack trace.
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+export const USAGE = `Usage: node dist/index.js <command> [options]
+
+Commands:
+  run                   Start the bot (the default); SIGHUP reloads the configuration
+  config                Validate the configuration and print every setting and where it came from
+  check --dry-run       Poll the token sources once and print the alerts that would be sent,
+                        without touching the database or Telegram
+  replay <dir> [--polls=N] [--db=FILE]
+                        Run full poll cycles against bags.fm responses recorded with
+                        BAGS_FM_RECORD_DIR, one per recorded crawl, and print the Telegram
+                        messages they send. Uses a throwaway database unless --db is given
+  stats                 Print migration statistics
+  export [csv|json|ndjson] [from=YYYY-MM-DD] [to=YYYY-MM-DD] [days=N] [creator=ADDRESS]
+         [mcap=100k] [volume=50k] [bonding=12] [mode=all|migration|mcap] [--out=FILE]
+                        Write stored migrations to FILE (default: a dated name in the
+                        current directory; - for stdout)
+  import <file>         Merge a .csv, .json or .ndjson export, or a migrations.json database
+  db:clear --yes        Wipe migration history; subscriptions and digests are kept
+  db:compact            Drop orphaned bookkeeping and reclaim free space
+
+Settings come from CONFIG_FILE (JSON or YAML), overridden by environment variables.
+Everything but run works without Telegram credentials, and alongside a running bot when
+it uses the SQLite store.`;
+
+export type CliCommand = (cli: CliArgs) => Promise<void>;
+
+export const COMMANDS: Record<string, CliCommand> = {
+  run: runBot,
+  config: printConfig,
+  check: checkSources,
+  replay: replayFixtures,
+  stats: printStats,
+  export: exportMigrations,
+  import: importMigrations,
+  'db:clear': clearDatabase,
+  'db:compact': compactDatabase
+};
+
+async function runBot(): Promise<void> {
+  const logger = new Logger('cli');
+  logger.info('Starting Bags.fm Migration Bot...');
+
+  // Initialize and start the bot; an invalid configuration stops it here
+  const bot = new BagsFmBot({ config: loadConfig({ requireTelegram: true }) });
+  await bot.start();
+
+  logger.info('Bot started successfully!');
+
+  process.on('SIGHUP', () => {
+    logger.info('Received SIGHUP, reloading configuration...');
+    bot.reloadConfig().catch(error => logger.error('Failed to reload configuration:', error));
+  });
+
+  // Graceful shutdown handling
+  process.on('SIGINT', async () => {
+    logger.info('Received SIGINT, shutting down gracefully...');
+    await bot.stop();
+    process.exit(0);
+  });
+
+  process.on('SIGTERM', async () => {
+    logger.info('Received SIGTERM, shutting down gracefully...');
+    await bot.stop();
+    process.exit(0);
+  });
+}
+
+/**
+ * One poll of every source, rendered with the default templates. Nothing is
+ * read from the database, so every token counts as new and creator history
+ * doesn't feed the badges or risk scores. Responses aren't recorded as
+ * fixtures either, even with `BAGS_FM_RECORD_DIR` set.
+ */
+async function checkSources(cli: CliArgs): Promise<void> {
+  if (!cli.flags.has('dry-run')) {
+    throw new CliUsageError('check only runs with --dry-run; a running bot checks on its own schedule (or use /check)');
+  }
+
+  const config = { ...loadOfflineConfig(), bagsFmRecordDir: undefined };
+  const sources = createSources(config);
+  const templates = new MessageTemplates(config.templatesFile);
+  const riskScorer = new RiskScorer();
+
+  const results = await Promise.all(sources.map(async source => {
+    try {
+      return { source, tokens: await source.getNewMigrations() };
+    } catch (error) {
+      console.error(`Token source ${source.name} failed: ${(error as Error).message}`);
+      return { source, tokens: [] as MigratedToken[] };
+    }
+  }));
+  const tokens = mergeSourceResults(results);
+
+  for (const token of tokens) {
+    const text = templates.render({ type: 'migration', token, risk: riskScorer.assess(token) }, config.telegramChatId);
+    console.log(`${'─'.repeat(60)}\n${text}\n`);
+  }
+
+  // Sources log and swallow their own request errors, reporting them through crawl stats
+  const summary = results.map(({ source, tokens }) =>
+    `${source.name}: ${tokens.length}${source.getLastCrawlStats?.()?.stopReason === 'error' ? ` (failed: ${source.getLastCrawlStats()!.error ?? 'unknown error'})` : ''}`
+  ).join(', ');
+  console.log(`${tokens.length} token(s) would be alerted (${summary}). Dry run: nothing was stored or sent.`);
+
+  for (const source of sources) {
+    const drift = source.getLastSchemaDrift?.();
+    if (drift && drift.issues.length > 0) {
+      console.log(`\n${describeSchemaDrift(drift)}`);
+    }
+  }
+}
+
+// Stands in for TELEGRAM_CHAT_ID when replaying without one configured
+const REPLAY_CHAT_ID = '-1000000000000';
+
+/**
+ * Runs the bot's own poll cycle (dedup, storage, templates and the outbox)
+ * against recorded leaderboard responses, with Telegram replaced by an
+ * in-memory transport. Discord, Slack and webhook sinks are left out so a
+ * replay never posts anywhere.
+ */
+async function replayFixtures(cli: CliArgs): Promise<void> {
+  const [dir] = cli.args;
+  if (!dir) {
+    throw new CliUsageError('replay needs a fixture directory');
+  }
+  const polls = cli.flags.get('polls');
+  if (polls !== undefined && (typeof polls !== 'string' || !/^\d+$/.test(polls) || parseInt(polls) < 1)) {
+    throw new CliUsageError('--polls needs a positive number');
+  }
+  const db = cli.flags.get('db');
+  if (db !== undefined && typeof db !== 'string') {
+    throw new CliUsageError('--db needs a file');
+  }
+
+  const count = typeof polls === 'string' ? parseInt(polls) : await new LeaderboardReplay(dir).crawlCount();
+  const tempDir = typeof db === 'string' ? undefined : await fs.mkdtemp(path.join(os.tmpdir(), 'bagsfm-replay-'));
+  const databasePath = typeof db === 'string' ? db : path.join(tempDir!, 'migrations.db');
+  const loaded = loadOfflineConfig();
+  const config: BotConfig = {
+    ...loaded,
+    telegramBotToken: 'offline',
+    telegramChatId: loaded.telegramChatId || REPLAY_CHAT_ID,
+    adminChatId: loaded.adminChatId || REPLAY_CHAT_ID,
+    telegramMode: 'polling',
+    tokenSources: ['bagsfm'],
+    bagsFmRecordDir: undefined,
+    bagsFmReplayDir: dir,
+    databasePath,
+    databaseBackupCount: tempDir ? 0 : loaded.databaseBackupCount,
+    auditLogPath: path.join(path.dirname(databasePath), 'audit.log'),
+    // An empty database always looks like lost history, which would hold every alert
+    burstHoldThreshold: tempDir ? 0 : loaded.burstHoldThreshold,
+    discordWebhookUrl: undefined,
+    slackWebhookUrl: undefined,
+    genericWebhookUrl: undefined,
+    logFile: undefined
+  };
+
+  const telegram = new InMemoryTelegramBot();
+  const bot = new BagsFmBot({ config, telegram, offline: true });
+  let sent = 0;
+
+  try {
+    await bot.start();
+    for (let poll = 1; poll <= count; poll++) {
+      await bot.poll();
+      const messages = telegram.takeSentMessages();
+      sent += messages.length;
+      console.log(`=== Poll ${poll}/${count}: ${messages.length} message(s)\n`);
+
+      for (const { method, params } of messages) {
+        const buttons = (params.reply_markup?.inline_keyboard || []).flat().map((button: { text: string }) => `[${button.text}]`);
+        console.log(`${'─'.repeat(60)}\n${method} to ${params.chat_id}${params.photo ? ` with photo ${params.photo}` : ''}\n`);
+        console.log(`${params.text ?? params.caption ?? ''}${buttons.length > 0 ? '\n\n' + buttons.join(' ') : ''}\n`);
+      }
+    }
+  } finally {
+    await bot.stop();
+    if (tempDir) {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  console.log(`${sent} message(s) sent over ${count} poll(s) of ${dir}. Nothing left this machine.`);
+}
+
+async function printConfig(): Promise<void> {
+  const resolved = resolveConfig();
+  console.log(`Config file: ${resolved.file || '- (CONFIG_FILE not set)'}\n`);
+  console.log(describeConfig(resolved));
+}
+
+async function printStats(): Promise<void> {
+  await withDatabase(async database => {
+    const stats = await database.getStats();
+    console.log(`Total migrations: ${stats.totalMigrations}`);
+    console.log(`Today: ${stats.migrationsToday}`);
+    console.log(`This week: ${stats.migrationsThisWeek}`);
+    console.log(`Pending outbox messages: ${await database.countOutbox()}`);
+    console.log(`Subscribed chats: ${(await database.getSubscriptions()).length}`);
+  });
+}
+
+async function exportMigrations(cli: CliArgs): Promise<void> {
+  let options;
+  try {
+    options = parseExportArgs(cli.args.join(' '));
+  } catch (error) {
+    throw new CliUsageError((error as Error).message);
+  }
+
+  await withDatabase(async (database, config) => {
+    const result = await new MigrationExporter(database, config.marketCapThreshold).export(options);
+    const out = cli.flags.get('out');
+
+    if (out === '-') {
+      process.stdout.write(result.content);
+      return;
+    }
+
+    const target = typeof out === 'string' ? out : result.filename;
+    await fs.writeFile(target, result.content);
+    console.error(`Exported ${result.count} migration(s) to ${target}`);
+  });
+}
+
+async function importMigrations(cli: CliArgs): Promise<void> {
+  const [file] = cli.args;
+  if (!file) {
+    throw new CliUsageError('import needs a file');
+  }
+
+  await withDatabase(async database => {
+    warnIfJsonStore(database);
+    const result = await database.importFromFile(file);
+    console.log(`Imported ${result.imported} migration(s) from ${file} (${result.skipped} duplicates skipped)`);
+  }, true);
+}
+
+async function clearDatabase(cli: CliArgs): Promise<void> {
+  if (!cli.flags.has('yes')) {
+    throw new CliUsageError('db:clear wipes all migration history; add --yes to confirm');
+  }
+
+  await withDatabase(async database => {
+    warnIfJsonStore(database);
+    await database.clearDatabase();
+    console.log('Database cleared. Subscriptions, digests and queued messages were kept.');
+  }, true);
+}
+
+async function compactDatabase(): Promise<void> {
+  await withDatabase(async database => {
+    warnIfJsonStore(database);
+    const { bytesBefore, bytesAfter } = await database.compact();
+    console.log(`Compacted database: ${formatBytes(bytesBefore)} -> ${formatBytes(bytesAfter)}`);
+  }, true);
+}
+
+/**
+ * Loads the configuration for a command other than `run`, applying its log
+ * settings except the log file, which belongs to the running bot.
+ */
+function loadOfflineConfig(): BotConfig {
+  const config = loadConfig();
+  Logger.configure(loggingOptions(config, false));
+  return config;
+}
+
+/**
+ * Opens the configured database for `task`. Commands that don't change it
+ * open it read-only: the bot may be running, and writing back the JSON store
+ * would undo whatever it saved in the meantime. Only commands that change it
+ * (`writes`) take a backup; otherwise every `stats` call would rotate out one
+ * of the bot's backups.
+ */
+async function withDatabase(task: (database: DatabaseManager, config: BotConfig) => Promise<void>, writes: boolean = false): Promise<void> {
+  const config = loadOfflineConfig();
+  const database = new DatabaseManager(config.databasePath, config.databaseDriver, {
+    keep: writes ? config.databaseBackupCount : 0,
+    intervalMinutes: config.databaseBackupIntervalMinutes
+  }, !writes);
+
+  await database.initialize();
+  try {
+    await task(database, config);
+  } finally {
+    await database.close();
+  }
+}
+
+// A running bot keeps the whole JSON store in memory and would overwrite these changes
+function warnIfJsonStore(database: DatabaseManager): void {
+  if (database.driver === 'json') {
+    console.error('Warning: with the JSON store, stop the bot before changing the database or it will overwrite the changes.');
+  }
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+}
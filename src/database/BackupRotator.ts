@@ -0,0 +1,62 @@
+import path from 'path';
+import fs from 'fs/promises';
+
+/**
+ * Names, lists and prunes timestamped backups that sit next to a database
+ * file, e.g. `migrations.db.backup-20240101T120000123Z`.
+ */
+export class BackupRotator {
+  private filePath: string;
+  private keep: number;
+  private intervalMs: number;
+  private lastBackupAt = 0;
+
+  constructor(filePath: string, keep: number, intervalMinutes: number) {
+    this.filePath = filePath;
+    this.keep = keep;
+    this.intervalMs = intervalMinutes * 60 * 1000;
+  }
+
+  get enabled(): boolean {
+    return this.keep > 0;
+  }
+
+  isDue(): boolean {
+    return this.enabled && Date.now() - this.lastBackupAt >= this.intervalMs;
+  }
+
+  /** Backup paths, newest first. */
+  async listBackups(): Promise<string[]> {
+    const dir = path.dirname(this.filePath);
+    const prefix = `${path.basename(this.filePath)}.backup-`;
+
+    let entries: string[];
+    try {
+      entries = await fs.readdir(dir);
+    } catch {
+      return [];
+    }
+
+    return entries
+      .filter(entry => entry.startsWith(prefix))
+      .sort()
+      .reverse()
+      .map(entry => path.join(dir, entry));
+  }
+
+  /** Runs `create` against a fresh backup path, then prunes old backups. */
+  async rotate(create: (destination: string) => Promise<void>): Promise<string> {
+    const stamp = new Date().toISOString().replace(/[-:.]/g, '');
+    const destination = `${this.filePath}.backup-${stamp}`;
+
+    await create(destination);
+    this.lastBackupAt = Date.now();
+
+    const backups = await this.listBackups();
+    for (const stale of backups.slice(this.keep)) {
+      await fs.rm(stale, { force: true });
+    }
+
+    return destination;
+  }
+}
@@ -1,46 +1,63 @@
 import path from 'path';
 import fs from 'fs/promises';
 import { Logger } from '../utils/Logger';
-import { MigratedToken } from '../types';
+import { fuzzyScore } from '../utils/fuzzy';
+import { MigratedToken, Subscription, TokenSnapshot, OutboxMessage, DigestSchedule, ExportFormat } from '../types';
+import { MigrationStore, SnapshotEntry, DeliveryRecord, DatabaseCorruptError } from './MigrationStore';
+import { JsonStore, JsonDatabaseData } from './JsonStore';
+import { SqliteStore } from './SqliteStore';
+import { BackupRotator } from './BackupRotator';
+import { MigrationFileError, formatFromPath, parseMigrations } from './migrationFiles';
 
-interface DatabaseData {
-  migrations: MigratedToken[];
-  lastUpdated: string;
+export type DatabaseDriver = 'json' | 'sqlite';
+
+export interface BackupOptions {
+  keep: number; // 0 disables backups
+  intervalMinutes: number;
 }
 
 export class DatabaseManager {
   private dbPath: string;
+  private readOnly: boolean;
   private logger: Logger;
-  private data: DatabaseData;
+  private store: MigrationStore;
+  private backups: BackupRotator;
+
+  /** `readOnly` opens an existing database without writing to it: no restores, legacy imports or backups. */
+  constructor(dbPath: string, driver?: DatabaseDriver, backup: BackupOptions = { keep: 5, intervalMinutes: 60 }, readOnly: boolean = false) {
+    this.dbPath = dbPath;
+    this.readOnly = readOnly;
+    this.logger = new Logger('DatabaseManager');
+    this.store = DatabaseManager.createStore(dbPath, driver, readOnly);
+    this.backups = new BackupRotator(dbPath, backup.keep, backup.intervalMinutes);
+  }
 
-  constructor(dbPath: string) {
-    this.dbPath = dbPath.replace('.db', '.json'); // Use JSON instead of SQLite
-    this.logger = new Logger();
-    this.data = {
-      migrations: [],
-      lastUpdated: new Date().toISOString()
-    };
+  /**
+   * Picks the backend from the explicit driver, falling back to the file
+   * extension: `.json` files use the JSON store, anything else SQLite.
+   */
+  static createStore(dbPath: string, driver?: DatabaseDriver, readOnly: boolean = false): MigrationStore {
+    const resolved = driver || (path.extname(dbPath).toLowerCase() === '.json' ? 'json' : 'sqlite');
+    return resolved === 'json' ? new JsonStore(dbPath, readOnly) : new SqliteStore(dbPath, readOnly);
   }
 
   async initialize(): Promise<void> {
     try {
-      // Ensure the directory exists
-      const dir = path.dirname(this.dbPath);
       try {
-        await fs.access(dir);
-      } catch {
-        await fs.mkdir(dir, { recursive: true });
+        await this.store.initialize();
+      } catch (error) {
+        // Restoring moves files around, which is the running bot's job
+        if (!(error instanceof DatabaseCorruptError) || this.readOnly) {
+          throw error;
+        }
+        this.logger.error(`Database is corrupt: ${error.message}`);
+        await this.restoreFromBackup();
       }
+      this.logger.info(`Using ${this.store.driver} storage at ${this.dbPath}${this.readOnly ? ' (read-only)' : ''}`);
 
-      // Load existing data if file exists
-      try {
-        const fileContent = await fs.readFile(this.dbPath, 'utf-8');
-        this.data = JSON.parse(fileContent);
-        this.logger.info(`Loaded ${this.data.migrations.length} existing migrations from database`);
-      } catch (error) {
-        // File doesn't exist or is corrupted, start with empty data
-        this.logger.info('Starting with empty database');
-        await this.saveData();
+      if (!this.readOnly) {
+        await this.importLegacyJson();
+        await this.maybeBackup();
       }
 
       this.logger.info('Database initialized successfully');
@@ -50,33 +67,201 @@ export class DatabaseManager {
     }
   }
 
-  private async saveData(): Promise<void> {
+  /**
+   * Moves the corrupt file aside and tries backups newest first. If none of
+   * them loads, the original file is put back and startup is refused rather
+   * than continuing with an empty database.
+   */
+  private async restoreFromBackup(): Promise<void> {
+    const backups = await this.backups.listBackups();
+    const stamp = new Date().toISOString().replace(/[-:.]/g, '');
+    const corruptPath = `${this.dbPath}.corrupt-${stamp}`;
+
+    await fs.rename(this.dbPath, corruptPath);
+    await this.removeSqliteSidecars();
+    this.logger.warn(`Moved corrupt database to ${corruptPath}`);
+
+    for (const backup of backups) {
+      try {
+        await fs.copyFile(backup, this.dbPath);
+        await this.store.initialize();
+        this.logger.warn(`Restored database from backup ${backup}`);
+        return;
+      } catch (error) {
+        if (!(error instanceof DatabaseCorruptError)) {
+          throw error;
+        }
+        this.logger.warn(`Backup ${backup} is unusable: ${error.message}`);
+        await fs.rm(this.dbPath, { force: true });
+        await this.removeSqliteSidecars();
+      }
+    }
+
+    await fs.rename(corruptPath, this.dbPath);
+    throw new Error(
+      `Database ${this.dbPath} is corrupt and no valid backup was found (${backups.length} checked). ` +
+      'Refusing to start to avoid re-announcing every token; repair or remove the file manually.'
+    );
+  }
+
+  private async removeSqliteSidecars(): Promise<void> {
+    if (this.store.driver === 'sqlite') {
+      await fs.rm(`${this.dbPath}-wal`, { force: true });
+      await fs.rm(`${this.dbPath}-shm`, { force: true });
+    }
+  }
+
+  /** Takes a rotating backup if the configured interval has passed. Never throws. */
+  private async maybeBackup(): Promise<void> {
+    if (!this.backups.isDue()) {
+      return;
+    }
+
     try {
-      this.data.lastUpdated = new Date().toISOString();
-      await fs.writeFile(this.dbPath, JSON.stringify(this.data, null, 2), 'utf-8');
+      const destination = await this.backups.rotate(target => this.store.backup(target));
+      this.logger.debug(`Database backed up to ${destination}`);
     } catch (error) {
-      this.logger.error('Failed to save database:', error);
-      throw error;
+      this.logger.warn('Failed to back up database:', error);
+    }
+  }
+
+  /**
+   * Older versions silently stored `migrations.db` as `migrations.json`. When a
+   * fresh SQLite database sits next to such a file, import it once so existing
+   * deployments keep their history after switching backends. The file is then
+   * renamed to `.json.imported`, so clearing the database doesn't bring it back.
+   */
+  private async importLegacyJson(): Promise<void> {
+    if (this.store.driver !== 'sqlite' || await this.store.countMigrations() > 0) {
+      return;
+    }
+
+    const legacyPath = this.dbPath.replace(/\.[^./\\]+$/, '') + '.json';
+    if (legacyPath === this.dbPath) {
+      return;
+    }
+
+    try {
+      await fs.access(legacyPath);
+    } catch {
+      return;
+    }
+
+    this.logger.info(`Found legacy JSON database at ${legacyPath}, importing into SQLite...`);
+    let result: { imported: number; skipped: number };
+    try {
+      result = await this.importFromJson(legacyPath);
+    } catch (error) {
+      throw new Error(`Failed to import legacy JSON database ${legacyPath}: ${(error as Error).message}`);
+    }
+    this.logger.info(`Imported ${result.imported} migrations (${result.skipped} duplicates skipped) from ${legacyPath}`);
+
+    try {
+      await fs.rename(legacyPath, `${legacyPath}.imported`);
+    } catch (error) {
+      this.logger.warn(`Failed to rename ${legacyPath} after importing it; it will be imported again if the database is cleared:`, error);
+    }
+  }
+
+  /**
+   * Reads a `migrations.json` file written by the JSON store and merges its
+   * migrations, subscriptions and digest schedules into the current backend.
+   */
+  async importFromJson(jsonPath: string): Promise<{ imported: number; skipped: number }> {
+    const content = await fs.readFile(jsonPath, 'utf-8');
+    const data: Partial<JsonDatabaseData> = JSON.parse(content);
+
+    const result = await this.importMigrations(data.migrations || []);
+
+    for (const subscription of data.subscriptions || []) {
+      if (!(await this.getSubscription(subscription.chatId))) {
+        await this.saveSubscription({ ...subscription, createdAt: new Date(subscription.createdAt) });
+      }
+    }
+
+    const existingDigests = new Set((await this.store.getDigestSchedules()).map(schedule => schedule.chatId));
+    for (const schedule of data.digests || []) {
+      if (!existingDigests.has(schedule.chatId)) {
+        await this.store.saveDigestSchedule({ ...schedule, updatedAt: new Date(schedule.updatedAt) });
+      }
+    }
+
+    const snapshots: SnapshotEntry[] = [];
+    for (const [migrationId, history] of Object.entries(data.snapshots || {})) {
+      if (await this.store.getMigrationById(migrationId)) {
+        for (const snapshot of history) {
+          snapshots.push({ migrationId, snapshot: { ...snapshot, timestamp: new Date(snapshot.timestamp) } });
+        }
+      }
+    }
+    await this.store.recordSnapshots(snapshots);
+
+    return result;
+  }
+
+  /**
+   * Imports a CSV, JSON or NDJSON file, picking the format from its extension.
+   * A JSON object rather than an array is taken as a `migrations.json`
+   * database file and imported whole with `importFromJson`.
+   */
+  async importFromFile(filePath: string): Promise<{ imported: number; skipped: number }> {
+    const format = formatFromPath(filePath);
+    if (!format) {
+      throw new MigrationFileError(`Cannot tell the format of ${filePath}; use a .csv, .json or .ndjson file`);
+    }
+
+    const content = await fs.readFile(filePath, 'utf-8');
+    if (format === 'json' && !content.trimStart().startsWith('[')) {
+      return this.importFromJson(filePath);
+    }
+    return this.importExport(content, format);
+  }
+
+  /**
+   * Merges the contents of an export file. Imported tokens count as already
+   * alerted in every chat subscribed now, so seeding history never alerts
+   * when a source lists one of those tokens again.
+   */
+  async importExport(content: string, format: ExportFormat): Promise<{ imported: number; skipped: number }> {
+    const chatIds = (await this.getSubscriptions()).map(subscription => subscription.chatId);
+    const migrations = parseMigrations(content, format).map(migration => ({ ...migration, notifiedChats: chatIds }));
+    return this.importMigrations(migrations);
+  }
+
+  /**
+   * Adds records that are not already tracked, using the same dedup rules as
+   * the poll loop. Duplicates inside the batch itself are skipped too.
+   */
+  async importMigrations(migrations: MigratedToken[]): Promise<{ imported: number; skipped: number }> {
+    const toSave: MigratedToken[] = [];
+    const batchKeys = new Set<string>();
+    let skipped = 0;
+
+    for (const migration of migrations) {
+      const keys = [
+        migration.contractAddress ? `c:${migration.contractAddress.toLowerCase()}` : undefined,
+        `s:${migration.symbol.toLowerCase()}\u0000${migration.name.toLowerCase()}`,
+        `i:${migration.id}`
+      ].filter((key): key is string => key !== undefined);
+
+      if (keys.some(key => batchKeys.has(key)) || await this.migrationExistsByDetails(migration)) {
+        skipped++;
+        continue;
+      }
+
+      keys.forEach(key => batchKeys.add(key));
+      toSave.push({ ...migration, migrationDate: new Date(migration.migrationDate) });
     }
+
+    await this.store.saveMigrations(toSave);
+    await this.maybeBackup();
+    return { imported: toSave.length, skipped };
   }
 
   async saveMigration(migration: MigratedToken): Promise<void> {
     try {
-      // Remove existing migration with same ID if it exists
-      this.data.migrations = this.data.migrations.filter(m => m.id !== migration.id);
-      
-      // Add the new migration
-      this.data.migrations.push({
-        ...migration,
-        migrationDate: new Date(migration.migrationDate) // Ensure it's a proper Date object
-      });
-
-      // Sort by migration date (newest first)
-      this.data.migrations.sort((a, b) => 
-        new Date(b.migrationDate).getTime() - new Date(a.migrationDate).getTime()
-      );
-
-      await this.saveData();
+      await this.store.saveMigration(migration);
+      await this.maybeBackup();
       this.logger.debug(`Saved migration: ${migration.name} (${migration.symbol})`);
     } catch (error) {
       this.logger.error('Failed to save migration:', error);
@@ -86,77 +271,185 @@ export class DatabaseManager {
 
   async migrationExists(id: string): Promise<boolean> {
     try {
-      return this.data.migrations.some(migration => migration.id === id);
+      return (await this.store.getMigrationById(id)) !== undefined;
     } catch (error) {
       this.logger.error('Failed to check migration existence:', error);
       return false;
     }
   }
 
+  async getMigration(id: string): Promise<MigratedToken | undefined> {
+    try {
+      return await this.store.getMigrationById(id);
+    } catch (error) {
+      this.logger.error('Failed to get migration:', error);
+      return undefined;
+    }
+  }
+
   async migrationExistsByDetails(token: MigratedToken): Promise<boolean> {
+    return (await this.findMigrationByDetails(token)) !== undefined;
+  }
+
+  async findMigrationByDetails(token: MigratedToken): Promise<MigratedToken | undefined> {
     try {
       // Primary check: Contract address (most reliable)
       if (token.contractAddress) {
-        const existsByContract = this.data.migrations.some(migration => 
-          migration.contractAddress && 
-          migration.contractAddress.toLowerCase() === token.contractAddress.toLowerCase()
-        );
+        const byContract = await this.store.findByContractAddress(token.contractAddress);
         
-        if (existsByContract) {
+        if (byContract) {
           this.logger.debug(`Token already exists by contract address: ${token.symbol} (${token.contractAddress})`);
-          return true;
+          return byContract;
         }
       }
 
       // Secondary check: Same symbol AND name (for tokens without contract address)
-      const existsBySymbolName = this.data.migrations.some(migration => 
-        migration.symbol.toLowerCase() === token.symbol.toLowerCase() &&
-        migration.name.toLowerCase() === token.name.toLowerCase()
-      );
+      const bySymbolName = await this.store.findBySymbolAndName(token.symbol, token.name);
 
-      if (existsBySymbolName) {
+      if (bySymbolName) {
         this.logger.debug(`Token already exists by name/symbol: ${token.name} (${token.symbol})`);
-        return true;
+        return bySymbolName;
       }
 
       // Tertiary check: Same ID
-      const existsById = this.data.migrations.some(migration => 
-        migration.id === token.id
-      );
+      const byId = await this.store.getMigrationById(token.id);
 
-      if (existsById) {
+      if (byId) {
         this.logger.debug(`Token already exists by ID: ${token.symbol} (${token.id})`);
-        return true;
+        return byId;
       }
 
-      return false;
+      return undefined;
     } catch (error) {
+      // "Not found" would make every known token look new; let the caller skip the poll instead
       this.logger.error('Failed to check migration existence by details:', error);
-      return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Appends one market snapshot per tracked token in a single write, so a poll
+   * over many tokens costs one save.
+   */
+  async recordSnapshots(entries: SnapshotEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    try {
+      await this.store.recordSnapshots(entries);
+      await this.maybeBackup();
+      this.logger.debug(`Recorded ${entries.length} token snapshots`);
+    } catch (error) {
+      this.logger.error('Failed to record snapshots:', error);
+      throw error;
+    }
+  }
+
+  async getSnapshots(migrationId: string): Promise<TokenSnapshot[]> {
+    try {
+      return await this.store.getSnapshots(migrationId);
+    } catch (error) {
+      this.logger.error('Failed to get snapshots:', error);
+      return [];
+    }
+  }
+
+  async markMilestonesFired(migrationId: string, keys: string[]): Promise<void> {
+    try {
+      if (!(await this.store.markMilestonesFired(migrationId, keys))) {
+        this.logger.warn(`Cannot mark milestones for unknown migration ${migrationId}`);
+      }
+    } catch (error) {
+      this.logger.error('Failed to mark milestones as fired:', error);
+      throw error;
+    }
+  }
+
+  async setMilestoneTracker(migrationId: string, userId: string, tracked: boolean): Promise<void> {
+    try {
+      if (!(await this.store.setMilestoneTracker(migrationId, userId, tracked))) {
+        this.logger.warn(`Cannot update milestone trackers for unknown migration ${migrationId}`);
+      }
+    } catch (error) {
+      this.logger.error('Failed to update milestone trackers:', error);
+      throw error;
+    }
+  }
+
+  async getSubscriptions(): Promise<Subscription[]> {
+    return this.store.getSubscriptions();
+  }
+
+  async getSubscription(chatId: string): Promise<Subscription | undefined> {
+    const subscriptions = await this.store.getSubscriptions();
+    return subscriptions.find(s => s.chatId === chatId);
+  }
+
+  async saveSubscription(subscription: Subscription): Promise<void> {
+    try {
+      await this.store.saveSubscription(subscription);
+      this.logger.debug(`Saved subscription for chat ${subscription.chatId}`);
+    } catch (error) {
+      this.logger.error('Failed to save subscription:', error);
+      throw error;
+    }
+  }
+
+  async removeSubscription(chatId: string): Promise<boolean> {
+    try {
+      const removed = await this.store.removeSubscription(chatId);
+      if (removed) {
+        this.logger.debug(`Removed subscription for chat ${chatId}`);
+      }
+      return removed;
+    } catch (error) {
+      this.logger.error('Failed to remove subscription:', error);
+      throw error;
+    }
+  }
+
+  async getDigestSchedules(): Promise<DigestSchedule[]> {
+    try {
+      return await this.store.getDigestSchedules();
+    } catch (error) {
+      this.logger.error('Failed to get digest schedules:', error);
+      return [];
+    }
+  }
+
+  async saveDigestSchedule(schedule: DigestSchedule): Promise<void> {
+    try {
+      await this.store.saveDigestSchedule(schedule);
+    } catch (error) {
+      this.logger.error('Failed to save digest schedule:', error);
+      throw error;
+    }
+  }
+
+  async removeDigestSchedule(chatId: string): Promise<boolean> {
+    try {
+      return await this.store.removeDigestSchedule(chatId);
+    } catch (error) {
+      this.logger.error('Failed to remove digest schedule:', error);
+      throw error;
     }
   }
 
   async getStats(): Promise<{ totalMigrations: number; migrationsToday: number; migrationsThisWeek: number }> {
     try {
-      const total = this.data.migrations.length;
+      const total = await this.store.countMigrations();
       
       const today = new Date();
       today.setHours(0, 0, 0, 0);
       
-      const migrationsToday = this.data.migrations.filter(migration => {
-        const migrationDate = new Date(migration.migrationDate);
-        migrationDate.setHours(0, 0, 0, 0);
-        return migrationDate.getTime() >= today.getTime();
-      }).length;
+      const migrationsToday = await this.store.countMigrations(today);
 
       const weekAgo = new Date();
       weekAgo.setDate(weekAgo.getDate() - 7);
       weekAgo.setHours(0, 0, 0, 0);
       
-      const migrationsThisWeek = this.data.migrations.filter(migration => {
-        const migrationDate = new Date(migration.migrationDate);
-        return migrationDate.getTime() >= weekAgo.getTime();
-      }).length;
+      const migrationsThisWeek = await this.store.countMigrations(weekAgo);
 
       return {
         totalMigrations: total,
@@ -169,34 +462,201 @@ export class DatabaseManager {
     }
   }
 
-  async getRecentMigrations(limit: number = 10): Promise<MigratedToken[]> {
+  async getRecentMigrations(limit: number = 10, offset: number = 0): Promise<MigratedToken[]> {
     try {
-      return this.data.migrations.slice(0, limit).map(migration => ({
-        ...migration,
-        migrationDate: new Date(migration.migrationDate)
-      }));
+      return await this.store.getRecentMigrations(limit, offset);
     } catch (error) {
       this.logger.error('Failed to get recent migrations:', error);
       return [];
     }
   }
 
+  /**
+   * Finds a stored token by contract address or, failing that, the most
+   * recent one with a matching symbol (case-insensitive, `$` optional).
+   */
+  async findMigrationByQuery(query: string): Promise<MigratedToken | undefined> {
+    try {
+      const byContract = await this.store.findByContractAddress(query);
+      if (byContract) {
+        return byContract;
+      }
+
+      const [newest] = await this.store.findBySymbol(query.replace(/^\$/, ''));
+      return newest;
+    } catch (error) {
+      this.logger.error('Failed to look up migration:', error);
+      throw error;
+    }
+  }
+
+  /** Migrations from `from` (inclusive) to `to` (exclusive), newest first; read through the date index. */
+  async getMigrationsBetween(from?: Date, to?: Date): Promise<MigratedToken[]> {
+    try {
+      return await this.store.getMigrationsBetween(from, to);
+    } catch (error) {
+      this.logger.error('Failed to get migrations by date:', error);
+      return [];
+    }
+  }
+
+  async getMigrationsByCreator(creator: string): Promise<MigratedToken[]> {
+    try {
+      return await this.store.findByCreator(creator);
+    } catch (error) {
+      this.logger.error('Failed to get migrations by creator:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Fuzzy search over name and symbol, plus creator addresses by prefix.
+   * Best matches come first, newer tokens first among equal scores. Only the
+   * search keys are scanned; full records are loaded for the results alone.
+   */
+  async searchMigrations(query: string, limit: number = 10): Promise<MigratedToken[]> {
+    const text = query.replace(/^\$/, '');
+    try {
+      const ids = (await this.store.getSearchKeys())
+        .map(key => ({
+          key,
+          score: Math.max(
+            fuzzyScore(text, key.name),
+            fuzzyScore(text, key.symbol),
+            text.length >= 4 && key.creator?.toLowerCase().startsWith(text.toLowerCase()) ? 0.9 : 0
+          )
+        }))
+        .filter(result => result.score > 0)
+        .sort((a, b) => b.score - a.score || b.key.migrationDate.getTime() - a.key.migrationDate.getTime())
+        .slice(0, limit)
+        .map(result => result.key.id);
+
+      const migrations = await Promise.all(ids.map(id => this.store.getMigrationById(id)));
+      return migrations.filter((migration): migration is MigratedToken => migration !== undefined);
+    } catch (error) {
+      this.logger.error('Failed to search migrations:', error);
+      throw error;
+    }
+  }
+
+  async getAllMigrations(): Promise<MigratedToken[]> {
+    try {
+      return await this.store.getAllMigrations();
+    } catch (error) {
+      this.logger.error('Failed to get migrations:', error);
+      return [];
+    }
+  }
+
+  async enqueueOutbox(message: OutboxMessage): Promise<void> {
+    try {
+      await this.store.enqueueOutbox(message);
+    } catch (error) {
+      this.logger.error('Failed to enqueue outbound message:', error);
+      throw error;
+    }
+  }
+
+  async getDueOutbox(limit: number = 20, after?: OutboxMessage): Promise<OutboxMessage[]> {
+    try {
+      return await this.store.getDueOutbox(new Date(), limit, after);
+    } catch (error) {
+      this.logger.error('Failed to read outbox:', error);
+      return [];
+    }
+  }
+
+  async updateOutbox(message: OutboxMessage): Promise<void> {
+    await this.store.updateOutbox(message);
+  }
+
+  async deleteOutbox(id: string): Promise<void> {
+    await this.store.deleteOutbox(id);
+  }
+
+  /**
+   * Takes a delivered or abandoned message out of the outbox. For migration
+   * alerts the chat is recorded on the token in the same write, as notified or
+   * as failed, so the alert is neither sent twice nor queued again next poll.
+   */
+  async finishOutbox(message: OutboxMessage, delivered: boolean): Promise<void> {
+    const record: DeliveryRecord | undefined = message.kind === 'migration' && message.migrationId
+      ? { migrationId: message.migrationId, chatId: message.chatId, outcome: delivered ? 'delivered' : 'failed' }
+      : undefined;
+    await this.store.finishOutbox(message.id, record);
+  }
+
+  async countOutbox(): Promise<number> {
+    try {
+      return await this.store.countOutbox();
+    } catch (error) {
+      this.logger.error('Failed to count outbox:', error);
+      return 0;
+    }
+  }
+
+  async hasPendingOutbox(migrationId: string, chatId: string): Promise<boolean> {
+    return this.store.hasPendingOutbox(migrationId, chatId);
+  }
+
+  async getHeldMigrations(): Promise<MigratedToken[]> {
+    const migrations = await this.getAllMigrations();
+    return migrations.filter(migration => migration.notificationHeld);
+  }
+
   async close(): Promise<void> {
     try {
-      await this.saveData();
+      await this.store.close();
       this.logger.info('Database connection closed');
     } catch (error) {
       this.logger.error('Error closing database:', error);
     }
   }
 
+  /**
+   * Compacts the store and reports the file size before and after. Only
+   * orphaned bookkeeping is dropped, never tracked migrations.
+   */
+  async compact(): Promise<{ bytesBefore: number; bytesAfter: number }> {
+    try {
+      const bytesBefore = await this.fileSize();
+      await this.store.compact();
+      const bytesAfter = await this.fileSize();
+      this.logger.info(`Database compacted: ${bytesBefore} -> ${bytesAfter} bytes`);
+      return { bytesBefore, bytesAfter };
+    } catch (error) {
+      this.logger.error('Error compacting database:', error);
+      throw error;
+    }
+  }
+
+  get driver(): string {
+    return this.store.driver;
+  }
+
+  // Includes SQLite's write-ahead log, which holds recent writes until a checkpoint
+  private async fileSize(): Promise<number> {
+    let total = 0;
+    for (const file of [this.dbPath, `${this.dbPath}-wal`]) {
+      try {
+        total += (await fs.stat(file)).size;
+      } catch {
+        // Not there yet
+      }
+    }
+    return total;
+  }
+
   async clearDatabase(): Promise<void> {
     try {
-      this.data = {
-        migrations: [],
-        lastUpdated: new Date().toISOString()
-      };
-      await this.saveData();
+      // Always keep a copy of the history being wiped
+      if (this.backups.enabled) {
+        const destination = await this.backups.rotate(target => this.store.backup(target));
+        this.logger.info(`Backed up database to ${destination} before clearing`);
+      }
+
+      // Subscriptions are configuration, not tracking history, so they survive a clear
+      await this.store.clear();
       this.logger.info('Database cleared successfully');
     } catch (error) {
       this.logger.error('Error clearing database:', error);
@@ -0,0 +1,486 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { Logger } from '../utils/Logger';
+import { MigratedToken, Subscription, TokenSnapshot, OutboxMessage, DigestSchedule } from '../types';
+import { atomicWriteFile } from '../utils/atomicWrite';
+import { MigrationStore, SnapshotEntry, SearchKey, DeliveryRecord, MAX_SNAPSHOTS_PER_TOKEN, DatabaseCorruptError, hydrateMigration } from './MigrationStore';
+
+export interface JsonDatabaseData {
+  migrations: MigratedToken[];
+  subscriptions: Subscription[];
+  snapshots: Record<string, TokenSnapshot[]>;
+  outbox: OutboxMessage[];
+  digests: DigestSchedule[];
+  lastUpdated: string;
+}
+
+// Bookkeeping writes (retry schedules, milestones, snapshots) arriving within this window share one save
+const SAVE_DELAY_MS = 1000;
+
+/**
+ * Keeps the whole database in memory and rewrites a single compact JSON file.
+ * New records and outbox changes are saved before the call returns, so a crash
+ * can't lose a queued alert or its delivery record; frequent bookkeeping changes
+ * are batched into one save per `SAVE_DELAY_MS`, and `close()` writes whatever
+ * is still pending. Lookups go through in-memory indexes rebuilt on load.
+ */
+export class JsonStore implements MigrationStore {
+  readonly driver = 'json';
+  private filePath: string;
+  private readOnly: boolean;
+  private logger: Logger;
+  private data: JsonDatabaseData;
+  private pendingSave: Promise<void> = Promise.resolve();
+  private dirty = false;
+  private saveTimer?: NodeJS.Timeout;
+  private byId = new Map<string, MigratedToken>();
+  private byContract = new Map<string, MigratedToken>();
+  private bySymbolName = new Map<string, MigratedToken>();
+  private bySymbol = new Map<string, Set<MigratedToken>>();
+  private byCreator = new Map<string, Set<MigratedToken>>();
+
+  // A read-only store never touches the file, so a CLI run can't overwrite what a running bot saved meanwhile
+  constructor(filePath: string, readOnly: boolean = false) {
+    this.filePath = filePath;
+    this.readOnly = readOnly;
+    this.logger = new Logger('JsonStore');
+    this.data = JsonStore.emptyData();
+  }
+
+  static emptyData(): JsonDatabaseData {
+    return {
+      migrations: [],
+      subscriptions: [],
+      snapshots: {},
+      outbox: [],
+      digests: [],
+      lastUpdated: new Date().toISOString()
+    };
+  }
+
+  async initialize(): Promise<void> {
+    // Ensure the directory exists
+    if (!this.readOnly) {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    }
+
+    // Load existing data if file exists
+    let fileContent: string;
+    try {
+      fileContent = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      if (this.readOnly) {
+        throw new Error(`No database at ${this.filePath}`);
+      }
+      this.logger.info('Starting with empty database');
+      this.data = JsonStore.emptyData();
+      await this.saveData();
+      this.rebuildIndexes();
+      return;
+    }
+
+    // An unreadable file is never treated as empty: that would re-announce the whole leaderboard
+    try {
+      const parsed = JSON.parse(fileContent);
+      if (!parsed || !Array.isArray(parsed.migrations)) {
+        throw new Error('missing "migrations" array');
+      }
+      this.data = parsed;
+    } catch (error) {
+      throw new DatabaseCorruptError(`Cannot parse ${this.filePath}: ${(error as Error).message}`, error);
+    }
+
+    // Databases written before subscriptions existed have no such section
+    this.data.subscriptions = this.data.subscriptions || [];
+    this.data.snapshots = this.data.snapshots || {};
+    this.data.outbox = this.data.outbox || [];
+    this.data.digests = this.data.digests || [];
+    this.logger.info(`Loaded ${this.data.migrations.length} existing migrations from ${this.filePath}`);
+
+    // Date range lookups binary-search the records, so they must be in date order
+    this.sortMigrations();
+    this.rebuildIndexes();
+  }
+
+  async close(): Promise<void> {
+    await this.flush();
+  }
+
+  async backup(destination: string): Promise<void> {
+    await atomicWriteFile(destination, JSON.stringify(this.data));
+  }
+
+  async saveMigration(migration: MigratedToken): Promise<void> {
+    this.upsert(migration);
+    this.sortMigrations();
+    await this.saveData();
+  }
+
+  async saveMigrations(migrations: MigratedToken[]): Promise<void> {
+    for (const migration of migrations) {
+      this.upsert(migration);
+    }
+    this.sortMigrations();
+    await this.saveData();
+  }
+
+  async getMigrationById(id: string): Promise<MigratedToken | undefined> {
+    const migration = this.byId.get(id);
+    return migration ? hydrateMigration(migration) : undefined;
+  }
+
+  async findByContractAddress(contractAddress: string): Promise<MigratedToken | undefined> {
+    const migration = this.byContract.get(contractAddress.toLowerCase());
+    return migration ? hydrateMigration(migration) : undefined;
+  }
+
+  async findByCreator(creator: string): Promise<MigratedToken[]> {
+    return Array.from(this.byCreator.get(creator.toLowerCase()) || [])
+      .sort((a, b) => new Date(b.migrationDate).getTime() - new Date(a.migrationDate).getTime())
+      .map(hydrateMigration);
+  }
+
+  async findBySymbolAndName(symbol: string, name: string): Promise<MigratedToken | undefined> {
+    const migration = this.bySymbolName.get(this.symbolNameKey(symbol, name));
+    return migration ? hydrateMigration(migration) : undefined;
+  }
+
+  async findBySymbol(symbol: string): Promise<MigratedToken[]> {
+    return Array.from(this.bySymbol.get(symbol.toLowerCase()) || [])
+      .sort((a, b) => new Date(b.migrationDate).getTime() - new Date(a.migrationDate).getTime())
+      .map(hydrateMigration);
+  }
+
+  async getAllMigrations(): Promise<MigratedToken[]> {
+    return this.data.migrations.map(hydrateMigration);
+  }
+
+  async getRecentMigrations(limit: number, offset: number = 0): Promise<MigratedToken[]> {
+    return this.data.migrations.slice(offset, offset + limit).map(hydrateMigration);
+  }
+
+  async getSearchKeys(): Promise<SearchKey[]> {
+    return this.data.migrations.map(migration => ({
+      id: migration.id,
+      name: migration.name,
+      symbol: migration.symbol,
+      creator: migration.creator,
+      migrationDate: new Date(migration.migrationDate)
+    }));
+  }
+
+  async getMigrationsBetween(from?: Date, to?: Date): Promise<MigratedToken[]> {
+    const start = to ? this.countNewerThan(to.getTime() - 1) : 0;
+    const end = from ? this.countNewerThan(from.getTime() - 1) : this.data.migrations.length;
+    return this.data.migrations.slice(start, end).map(hydrateMigration);
+  }
+
+  async countMigrations(since?: Date): Promise<number> {
+    return since ? this.countNewerThan(since.getTime() - 1) : this.data.migrations.length;
+  }
+
+  async markMilestonesFired(migrationId: string, keys: string[]): Promise<boolean> {
+    const migration = this.byId.get(migrationId);
+    if (!migration) {
+      return false;
+    }
+
+    migration.firedMilestones = Array.from(new Set([...(migration.firedMilestones || []), ...keys]));
+    this.scheduleSave();
+    return true;
+  }
+
+  async setMilestoneTracker(migrationId: string, userId: string, tracked: boolean): Promise<boolean> {
+    const migration = this.byId.get(migrationId);
+    if (!migration) {
+      return false;
+    }
+
+    const trackers = (migration.trackedBy || []).filter(id => id !== userId);
+    migration.trackedBy = tracked ? [...trackers, userId] : trackers;
+    this.scheduleSave();
+    return true;
+  }
+
+  async recordSnapshots(entries: SnapshotEntry[]): Promise<void> {
+    for (const { migrationId, snapshot } of entries) {
+      const history = this.data.snapshots[migrationId] || [];
+      history.push(snapshot);
+      if (history.length > MAX_SNAPSHOTS_PER_TOKEN) {
+        history.splice(0, history.length - MAX_SNAPSHOTS_PER_TOKEN);
+      }
+      this.data.snapshots[migrationId] = history;
+    }
+    this.scheduleSave();
+  }
+
+  async getSnapshots(migrationId: string): Promise<TokenSnapshot[]> {
+    return (this.data.snapshots[migrationId] || []).map(snapshot => ({
+      ...snapshot,
+      timestamp: new Date(snapshot.timestamp)
+    }));
+  }
+
+  async getSubscriptions(): Promise<Subscription[]> {
+    return this.data.subscriptions.map(subscription => ({
+      ...subscription,
+      filters: { ...subscription.filters },
+      createdAt: new Date(subscription.createdAt)
+    }));
+  }
+
+  async saveSubscription(subscription: Subscription): Promise<void> {
+    this.data.subscriptions = this.data.subscriptions.filter(s => s.chatId !== subscription.chatId);
+    this.data.subscriptions.push(subscription);
+    await this.saveData();
+  }
+
+  async removeSubscription(chatId: string): Promise<boolean> {
+    const before = this.data.subscriptions.length;
+    this.data.subscriptions = this.data.subscriptions.filter(s => s.chatId !== chatId);
+    if (this.data.subscriptions.length === before) {
+      return false;
+    }
+    await this.saveData();
+    return true;
+  }
+
+  async getDigestSchedules(): Promise<DigestSchedule[]> {
+    return this.data.digests.map(schedule => ({
+      ...schedule,
+      frequencies: [...schedule.frequencies],
+      updatedAt: new Date(schedule.updatedAt)
+    }));
+  }
+
+  async saveDigestSchedule(schedule: DigestSchedule): Promise<void> {
+    this.data.digests = this.data.digests.filter(d => d.chatId !== schedule.chatId);
+    this.data.digests.push(schedule);
+    await this.saveData();
+  }
+
+  async removeDigestSchedule(chatId: string): Promise<boolean> {
+    const before = this.data.digests.length;
+    this.data.digests = this.data.digests.filter(d => d.chatId !== chatId);
+    if (this.data.digests.length === before) {
+      return false;
+    }
+    await this.saveData();
+    return true;
+  }
+
+  async enqueueOutbox(message: OutboxMessage): Promise<void> {
+    this.data.outbox.push(message);
+    await this.saveData();
+  }
+
+  async getDueOutbox(now: Date, limit: number, after?: OutboxMessage): Promise<OutboxMessage[]> {
+    const order = (a: OutboxMessage, b: OutboxMessage) =>
+      a.createdAt.getTime() - b.createdAt.getTime() || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+    return this.data.outbox
+      .map(message => this.hydrateOutbox(message))
+      .filter(message => message.nextAttemptAt.getTime() <= now.getTime() && (!after || order(message, after) > 0))
+      .sort(order)
+      .slice(0, limit);
+  }
+
+  async updateOutbox(message: OutboxMessage): Promise<void> {
+    this.data.outbox = this.data.outbox.map(m => m.id === message.id ? message : m);
+    this.scheduleSave();
+  }
+
+  async deleteOutbox(id: string): Promise<void> {
+    this.data.outbox = this.data.outbox.filter(m => m.id !== id);
+    await this.saveData();
+  }
+
+  async finishOutbox(id: string, record?: DeliveryRecord): Promise<void> {
+    // Both changes land in memory together and therefore in the same save
+    this.data.outbox = this.data.outbox.filter(m => m.id !== id);
+
+    const migration = record && this.byId.get(record.migrationId);
+    if (migration) {
+      const field = record!.outcome === 'delivered' ? 'notifiedChats' : 'failedChats';
+      const chats = migration[field] || [];
+      migration[field] = chats.includes(record!.chatId) ? chats : [...chats, record!.chatId];
+    }
+    await this.saveData();
+  }
+
+  async countOutbox(): Promise<number> {
+    return this.data.outbox.length;
+  }
+
+  async hasPendingOutbox(migrationId: string, chatId: string): Promise<boolean> {
+    return this.data.outbox.some(m => m.migrationId === migrationId && m.chatId === chatId);
+  }
+
+  async clear(): Promise<void> {
+    // Queued messages were already promised to chats, so the outbox survives too
+    this.data = {
+      ...JsonStore.emptyData(),
+      subscriptions: this.data.subscriptions,
+      outbox: this.data.outbox,
+      digests: this.data.digests
+    };
+    this.rebuildIndexes();
+    await this.saveData();
+  }
+
+  async compact(): Promise<void> {
+    // Per-chat bookkeeping lives on the records themselves; only snapshots can be orphaned
+    for (const migrationId of Object.keys(this.data.snapshots)) {
+      if (!this.byId.has(migrationId)) {
+        delete this.data.snapshots[migrationId];
+      }
+    }
+    await this.saveData();
+  }
+
+  private hydrateOutbox(message: OutboxMessage): OutboxMessage {
+    return {
+      ...message,
+      nextAttemptAt: new Date(message.nextAttemptAt),
+      createdAt: new Date(message.createdAt)
+    };
+  }
+
+  private upsert(migration: MigratedToken): void {
+    // Replace any existing record with the same ID
+    const existing = this.byId.get(migration.id);
+    if (existing) {
+      this.data.migrations = this.data.migrations.filter(m => m !== existing);
+      this.unindex(existing);
+    }
+
+    const record = {
+      ...migration,
+      migrationDate: new Date(migration.migrationDate) // Ensure it's a proper Date object
+    };
+    this.data.migrations.push(record);
+    this.index(record);
+  }
+
+  private sortMigrations(): void {
+    // Sort by migration date (newest first)
+    this.data.migrations.sort((a, b) => 
+      new Date(b.migrationDate).getTime() - new Date(a.migrationDate).getTime()
+    );
+  }
+
+  /** Binary search over the date-sorted records: how many migrated after `time`. */
+  private countNewerThan(time: number): number {
+    let low = 0;
+    let high = this.data.migrations.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (new Date(this.data.migrations[middle].migrationDate).getTime() > time) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+
+  private rebuildIndexes(): void {
+    this.byId.clear();
+    this.byContract.clear();
+    this.bySymbolName.clear();
+    this.bySymbol.clear();
+    this.byCreator.clear();
+    // Iterate oldest first so the newest record wins for duplicate keys
+    for (let i = this.data.migrations.length - 1; i >= 0; i--) {
+      this.index(this.data.migrations[i]);
+    }
+  }
+
+  private index(migration: MigratedToken): void {
+    this.byId.set(migration.id, migration);
+    if (migration.contractAddress) {
+      this.byContract.set(migration.contractAddress.toLowerCase(), migration);
+    }
+    this.bySymbolName.set(this.symbolNameKey(migration.symbol, migration.name), migration);
+    const symbol = migration.symbol.toLowerCase();
+    this.bySymbol.set(symbol, (this.bySymbol.get(symbol) || new Set()).add(migration));
+    if (migration.creator) {
+      const key = migration.creator.toLowerCase();
+      this.byCreator.set(key, (this.byCreator.get(key) || new Set()).add(migration));
+    }
+  }
+
+  private unindex(migration: MigratedToken): void {
+    this.byId.delete(migration.id);
+    if (migration.contractAddress && this.byContract.get(migration.contractAddress.toLowerCase()) === migration) {
+      this.byContract.delete(migration.contractAddress.toLowerCase());
+    }
+    const key = this.symbolNameKey(migration.symbol, migration.name);
+    if (this.bySymbolName.get(key) === migration) {
+      this.bySymbolName.delete(key);
+    }
+    this.bySymbol.get(migration.symbol.toLowerCase())?.delete(migration);
+    if (migration.creator) {
+      this.byCreator.get(migration.creator.toLowerCase())?.delete(migration);
+    }
+  }
+
+  private symbolNameKey(symbol: string, name: string): string {
+    return `${symbol.toLowerCase()}\u0000${name.toLowerCase()}`;
+  }
+
+  /** Marks the data changed and saves it within `SAVE_DELAY_MS`. */
+  private scheduleSave(): void {
+    this.assertWritable();
+    this.dirty = true;
+    if (this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.flush().catch(error => this.logger.error('Failed to save database:', error));
+    }, SAVE_DELAY_MS);
+  }
+
+  /** Saves now, including any batched changes. */
+  private saveData(): Promise<void> {
+    this.assertWritable();
+    this.dirty = true;
+    return this.flush();
+  }
+
+  private assertWritable(): void {
+    if (this.readOnly) {
+      throw new Error(`${this.filePath} is open read-only`);
+    }
+  }
+
+  /** Writes batched changes, if there are any. */
+  private flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+
+    // The poll loop and the outbox write concurrently; one save at a time keeps
+    // them from sharing the temp file and an older snapshot from landing last
+    const save = this.pendingSave.then(async () => {
+      if (!this.dirty) {
+        return;
+      }
+      this.dirty = false;
+      this.data.lastUpdated = new Date().toISOString();
+      try {
+        await atomicWriteFile(this.filePath, JSON.stringify(this.data));
+      } catch (error) {
+        this.dirty = true;
+        throw error;
+      }
+    });
+    this.pendingSave = save.catch(() => undefined);
+    return save;
+  }
+}
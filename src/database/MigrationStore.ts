@@ -0,0 +1,122 @@
+import { MigratedToken, Subscription, TokenSnapshot, OutboxMessage, DigestSchedule } from '../types';
+
+// Enough for several days of 5-minute polls per token
+export const MAX_SNAPSHOTS_PER_TOKEN = 1000;
+
+/**
+ * Thrown by `initialize()` when the database file exists but cannot be read
+ * back. DatabaseManager reacts by restoring a backup instead of starting empty.
+ */
+export class DatabaseCorruptError extends Error {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = 'DatabaseCorruptError';
+  }
+}
+
+/** How a migration alert to one chat ended, recorded when its message leaves the outbox. */
+export interface DeliveryRecord {
+  migrationId: string;
+  chatId: string;
+  outcome: 'delivered' | 'failed';
+}
+
+/** The fields fuzzy search scores, without the rest of the record. */
+export interface SearchKey {
+  id: string;
+  name: string;
+  symbol: string;
+  creator?: string;
+  migrationDate: Date;
+}
+
+export interface SnapshotEntry {
+  migrationId: string;
+  snapshot: TokenSnapshot;
+}
+
+/**
+ * Storage backend behind DatabaseManager. Implementations only provide the
+ * primitive lookups; dedup rules and error fallbacks live in DatabaseManager so
+ * every backend behaves the same. Methods throw on storage failures.
+ */
+export interface MigrationStore {
+  readonly driver: string;
+
+  /** Opens the database. Throws DatabaseCorruptError if existing data is damaged; other failures (locks, permissions) are rethrown as is. */
+  initialize(): Promise<void>;
+  close(): Promise<void>;
+  /** Writes a consistent, standalone copy of the database to `destination`. */
+  backup(destination: string): Promise<void>;
+
+  saveMigration(migration: MigratedToken): Promise<void>;
+  /** Saves many records in one write; used by imports. */
+  saveMigrations(migrations: MigratedToken[]): Promise<void>;
+  getMigrationById(id: string): Promise<MigratedToken | undefined>;
+  findByContractAddress(contractAddress: string): Promise<MigratedToken | undefined>;
+  findBySymbolAndName(symbol: string, name: string): Promise<MigratedToken | undefined>;
+  /** Every record with this symbol (case-insensitive), newest migration date first. */
+  findBySymbol(symbol: string): Promise<MigratedToken[]>;
+  /** Every record launched by `creator`, newest migration date first. */
+  findByCreator(creator: string): Promise<MigratedToken[]>;
+  /** All records, newest migration date first. */
+  getAllMigrations(): Promise<MigratedToken[]>;
+  getRecentMigrations(limit: number, offset?: number): Promise<MigratedToken[]>;
+  /** Search keys of every record, read without loading or parsing the full records. */
+  getSearchKeys(): Promise<SearchKey[]>;
+  /** Records that migrated from `from` (inclusive) to `to` (exclusive), newest first. Unset bounds are open. */
+  getMigrationsBetween(from?: Date, to?: Date): Promise<MigratedToken[]>;
+  countMigrations(since?: Date): Promise<number>;
+
+  markMilestonesFired(migrationId: string, keys: string[]): Promise<boolean>;
+  /** Adds or removes `userId` from the token's milestone trackers. */
+  setMilestoneTracker(migrationId: string, userId: string, tracked: boolean): Promise<boolean>;
+
+  recordSnapshots(entries: SnapshotEntry[]): Promise<void>;
+  getSnapshots(migrationId: string): Promise<TokenSnapshot[]>;
+
+  getSubscriptions(): Promise<Subscription[]>;
+  saveSubscription(subscription: Subscription): Promise<void>;
+  removeSubscription(chatId: string): Promise<boolean>;
+
+  getDigestSchedules(): Promise<DigestSchedule[]>;
+  saveDigestSchedule(schedule: DigestSchedule): Promise<void>;
+  removeDigestSchedule(chatId: string): Promise<boolean>;
+
+  enqueueOutbox(message: OutboxMessage): Promise<void>;
+  /**
+   * Messages whose `nextAttemptAt` has passed, oldest first (ties by id).
+   * `after` is the last message of the previous page, to read on past it.
+   */
+  getDueOutbox(now: Date, limit: number, after?: OutboxMessage): Promise<OutboxMessage[]>;
+  updateOutbox(message: OutboxMessage): Promise<void>;
+  deleteOutbox(id: string): Promise<void>;
+  /**
+   * Deletes a finished message and, in the same write, adds the chat to the
+   * token's `notifiedChats` or `failedChats`. Unknown migrations are skipped.
+   */
+  finishOutbox(id: string, record?: DeliveryRecord): Promise<void>;
+  countOutbox(): Promise<number>;
+  hasPendingOutbox(migrationId: string, chatId: string): Promise<boolean>;
+
+  /** Drops tracking history (migrations and snapshots) but keeps subscriptions and digest schedules. */
+  clear(): Promise<void>;
+
+  /** Drops bookkeeping left behind for migrations that no longer exist and reclaims free space. */
+  compact(): Promise<void>;
+}
+
+/** Turns the string dates a record picks up from JSON back into Date objects. */
+export function hydrateMigration(migration: MigratedToken): MigratedToken {
+  return {
+    ...migration,
+    migrationDate: new Date(migration.migrationDate),
+    createdAt: migration.createdAt ? new Date(migration.createdAt) : undefined,
+    firstSeenAt: migration.firstSeenAt ? new Date(migration.firstSeenAt) : undefined,
+    firstSeenBy: migration.firstSeenBy ? [...migration.firstSeenBy] : undefined,
+    notifiedChats: migration.notifiedChats ? [...migration.notifiedChats] : undefined,
+    failedChats: migration.failedChats ? [...migration.failedChats] : undefined,
+    firedMilestones: migration.firedMilestones ? [...migration.firedMilestones] : undefined,
+    trackedBy: migration.trackedBy ? [...migration.trackedBy] : undefined
+  };
+}
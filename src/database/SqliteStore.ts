@@ -0,0 +1,533 @@
+import path from 'path';
+import fs from 'fs/promises';
+import Database from 'better-sqlite3';
+import { Logger } from '../utils/Logger';
+import { MigratedToken, Subscription, TokenSnapshot, OutboxMessage, DigestSchedule } from '../types';
+import { MigrationStore, SnapshotEntry, SearchKey, DeliveryRecord, MAX_SNAPSHOTS_PER_TOKEN, DatabaseCorruptError, hydrateMigration } from './MigrationStore';
+
+interface MigrationRow {
+  data: string;
+  notified_chats: string | null;
+  failed_chats: string | null;
+  fired_milestones: string | null;
+  tracked_by: string | null;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS migrations (
+    id TEXT PRIMARY KEY,
+    contract_address TEXT,
+    contract_address_lc TEXT,
+    symbol_lc TEXT NOT NULL,
+    name_lc TEXT NOT NULL,
+    migration_date INTEGER NOT NULL,
+    creator_lc TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_migrations_contract ON migrations (contract_address_lc);
+  CREATE INDEX IF NOT EXISTS idx_migrations_symbol_name ON migrations (symbol_lc, name_lc);
+  CREATE INDEX IF NOT EXISTS idx_migrations_date ON migrations (migration_date DESC);
+
+  CREATE TABLE IF NOT EXISTS notifications (
+    migration_id TEXT NOT NULL,
+    chat_id TEXT NOT NULL,
+    PRIMARY KEY (migration_id, chat_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS failed_notifications (
+    migration_id TEXT NOT NULL,
+    chat_id TEXT NOT NULL,
+    PRIMARY KEY (migration_id, chat_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS fired_milestones (
+    migration_id TEXT NOT NULL,
+    milestone TEXT NOT NULL,
+    PRIMARY KEY (migration_id, milestone)
+  );
+
+  CREATE TABLE IF NOT EXISTS milestone_trackers (
+    migration_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    PRIMARY KEY (migration_id, user_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS snapshots (
+    migration_id TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    market_cap REAL,
+    price REAL,
+    volume_24h REAL
+  );
+  CREATE INDEX IF NOT EXISTS idx_snapshots_migration ON snapshots (migration_id, timestamp);
+
+  CREATE TABLE IF NOT EXISTS outbox (
+    id TEXT PRIMARY KEY,
+    chat_id TEXT NOT NULL,
+    migration_id TEXT,
+    next_attempt_at INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_outbox_due ON outbox (next_attempt_at);
+  CREATE INDEX IF NOT EXISTS idx_outbox_migration ON outbox (migration_id, chat_id);
+
+  CREATE TABLE IF NOT EXISTS subscriptions (
+    chat_id TEXT PRIMARY KEY,
+    chat_title TEXT,
+    filters TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS digest_schedules (
+    chat_id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+`;
+
+// Per-chat bookkeeping lives in its own tables and is folded back into the record on read
+const SELECT_MIGRATION = `
+  SELECT m.data,
+    (SELECT json_group_array(chat_id) FROM notifications n WHERE n.migration_id = m.id) AS notified_chats,
+    (SELECT json_group_array(chat_id) FROM failed_notifications fn WHERE fn.migration_id = m.id) AS failed_chats,
+    (SELECT json_group_array(milestone) FROM fired_milestones f WHERE f.migration_id = m.id) AS fired_milestones,
+    (SELECT json_group_array(user_id) FROM milestone_trackers t WHERE t.migration_id = m.id) AS tracked_by
+  FROM migrations m
+`;
+
+// Errors SQLite raises for a damaged file or one that is not a database at all, extended codes included
+const CORRUPTION_CODES = ['SQLITE_CORRUPT', 'SQLITE_NOTADB'];
+
+/**
+ * SQLite backend. Each record is kept as a JSON blob next to indexed columns
+ * for the dedup lookups (contract address, symbol/name) and migration date.
+ */
+export class SqliteStore implements MigrationStore {
+  readonly driver = 'sqlite';
+  private filePath: string;
+  private readOnly: boolean;
+  private logger: Logger;
+  private db?: Database.Database;
+
+  // A read-only store opens an existing file as is: no schema changes, and writes fail
+  constructor(filePath: string, readOnly: boolean = false) {
+    this.filePath = filePath;
+    this.readOnly = readOnly;
+    this.logger = new Logger('SqliteStore');
+  }
+
+  async initialize(): Promise<void> {
+    if (this.readOnly) {
+      try {
+        await fs.access(this.filePath);
+      } catch {
+        throw new Error(`No database at ${this.filePath}`);
+      }
+    } else {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    }
+
+    try {
+      this.db = new Database(this.filePath, { readonly: this.readOnly });
+      const [check] = this.db.pragma('quick_check') as { quick_check: string }[];
+      if (check?.quick_check !== 'ok') {
+        throw new DatabaseCorruptError(`Cannot open ${this.filePath}: quick_check reported: ${check?.quick_check}`);
+      }
+      // The CLI may open the database while the bot is running; wait for its locks
+      this.db.pragma('busy_timeout = 5000');
+      if (!this.readOnly) {
+        this.db.pragma('journal_mode = WAL');
+        this.db.exec(SCHEMA);
+        this.upgradeSchema();
+      }
+    } catch (error) {
+      this.db?.close();
+      this.db = undefined;
+      // Only damaged files count as corrupt; a locked or unreadable file must not be swapped for a backup
+      if (isCorruption(error)) {
+        throw new DatabaseCorruptError(`Cannot open ${this.filePath}: ${(error as Error).message}`, error);
+      }
+      throw error;
+    }
+
+    this.logger.info(`Loaded ${await this.countMigrations()} existing migrations from ${this.filePath}`);
+  }
+
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = undefined;
+  }
+
+  async backup(destination: string): Promise<void> {
+    await this.connection.backup(destination);
+  }
+
+  async saveMigration(migration: MigratedToken): Promise<void> {
+    this.connection.transaction(() => this.upsert(migration))();
+  }
+
+  async saveMigrations(migrations: MigratedToken[]): Promise<void> {
+    this.connection.transaction(() => {
+      for (const migration of migrations) {
+        this.upsert(migration);
+      }
+    })();
+  }
+
+  async getMigrationById(id: string): Promise<MigratedToken | undefined> {
+    const row = this.connection.prepare(`${SELECT_MIGRATION} WHERE m.id = ?`).get(id) as MigrationRow | undefined;
+    return row ? this.fromRow(row) : undefined;
+  }
+
+  async findByContractAddress(contractAddress: string): Promise<MigratedToken | undefined> {
+    const row = this.connection
+      .prepare(`${SELECT_MIGRATION} WHERE m.contract_address_lc = ? ORDER BY m.migration_date DESC LIMIT 1`)
+      .get(contractAddress.toLowerCase()) as MigrationRow | undefined;
+    return row ? this.fromRow(row) : undefined;
+  }
+
+  async findByCreator(creator: string): Promise<MigratedToken[]> {
+    const rows = this.connection
+      .prepare(`${SELECT_MIGRATION} WHERE m.creator_lc = ? ORDER BY m.migration_date DESC`)
+      .all(creator.toLowerCase()) as MigrationRow[];
+    return rows.map(row => this.fromRow(row));
+  }
+
+  async findBySymbolAndName(symbol: string, name: string): Promise<MigratedToken | undefined> {
+    const row = this.connection
+      .prepare(`${SELECT_MIGRATION} WHERE m.symbol_lc = ? AND m.name_lc = ? ORDER BY m.migration_date DESC LIMIT 1`)
+      .get(symbol.toLowerCase(), name.toLowerCase()) as MigrationRow | undefined;
+    return row ? this.fromRow(row) : undefined;
+  }
+
+  async findBySymbol(symbol: string): Promise<MigratedToken[]> {
+    // Served by the leading column of idx_migrations_symbol_name
+    const rows = this.connection
+      .prepare(`${SELECT_MIGRATION} WHERE m.symbol_lc = ? ORDER BY m.migration_date DESC`)
+      .all(symbol.toLowerCase()) as MigrationRow[];
+    return rows.map(row => this.fromRow(row));
+  }
+
+  async getAllMigrations(): Promise<MigratedToken[]> {
+    const rows = this.connection.prepare(`${SELECT_MIGRATION} ORDER BY m.migration_date DESC`).all() as MigrationRow[];
+    return rows.map(row => this.fromRow(row));
+  }
+
+  async getRecentMigrations(limit: number, offset: number = 0): Promise<MigratedToken[]> {
+    const rows = this.connection
+      .prepare(`${SELECT_MIGRATION} ORDER BY m.migration_date DESC LIMIT ? OFFSET ?`)
+      .all(limit, offset) as MigrationRow[];
+    return rows.map(row => this.fromRow(row));
+  }
+
+  async getSearchKeys(): Promise<SearchKey[]> {
+    // Matching is case-insensitive, so the lowercased lookup columns do and the JSON blobs stay untouched
+    const rows = this.connection
+      .prepare('SELECT id, name_lc, symbol_lc, creator_lc, migration_date FROM migrations')
+      .all() as { id: string; name_lc: string; symbol_lc: string; creator_lc: string | null; migration_date: number }[];
+    return rows.map(row => ({
+      id: row.id,
+      name: row.name_lc,
+      symbol: row.symbol_lc,
+      creator: row.creator_lc ?? undefined,
+      migrationDate: new Date(row.migration_date)
+    }));
+  }
+
+  async getMigrationsBetween(from?: Date, to?: Date): Promise<MigratedToken[]> {
+    const rows = this.connection
+      .prepare(`${SELECT_MIGRATION} WHERE m.migration_date >= ? AND m.migration_date < ? ORDER BY m.migration_date DESC`)
+      .all(from ? from.getTime() : Number.MIN_SAFE_INTEGER, to ? to.getTime() : Number.MAX_SAFE_INTEGER) as MigrationRow[];
+    return rows.map(row => this.fromRow(row));
+  }
+
+  async countMigrations(since?: Date): Promise<number> {
+    const row = since
+      ? this.connection.prepare('SELECT COUNT(*) AS count FROM migrations WHERE migration_date >= ?').get(since.getTime())
+      : this.connection.prepare('SELECT COUNT(*) AS count FROM migrations').get();
+    return (row as { count: number }).count;
+  }
+
+  async markMilestonesFired(migrationId: string, keys: string[]): Promise<boolean> {
+    if (!this.exists(migrationId)) {
+      return false;
+    }
+    const insert = this.connection.prepare('INSERT OR IGNORE INTO fired_milestones (migration_id, milestone) VALUES (?, ?)');
+    this.connection.transaction(() => {
+      for (const key of keys) {
+        insert.run(migrationId, key);
+      }
+    })();
+    return true;
+  }
+
+  async setMilestoneTracker(migrationId: string, userId: string, tracked: boolean): Promise<boolean> {
+    if (!this.exists(migrationId)) {
+      return false;
+    }
+    this.connection
+      .prepare(tracked
+        ? 'INSERT OR IGNORE INTO milestone_trackers (migration_id, user_id) VALUES (?, ?)'
+        : 'DELETE FROM milestone_trackers WHERE migration_id = ? AND user_id = ?')
+      .run(migrationId, userId);
+    return true;
+  }
+
+  async recordSnapshots(entries: SnapshotEntry[]): Promise<void> {
+    const insert = this.connection.prepare(
+      'INSERT INTO snapshots (migration_id, timestamp, market_cap, price, volume_24h) VALUES (?, ?, ?, ?, ?)'
+    );
+    const trim = this.connection.prepare(`
+      DELETE FROM snapshots WHERE migration_id = ? AND rowid NOT IN (
+        SELECT rowid FROM snapshots WHERE migration_id = ? ORDER BY timestamp DESC LIMIT ?
+      )
+    `);
+
+    this.connection.transaction(() => {
+      for (const { migrationId, snapshot } of entries) {
+        insert.run(
+          migrationId,
+          new Date(snapshot.timestamp).getTime(),
+          snapshot.marketCap ?? null,
+          snapshot.price ?? null,
+          snapshot.volume24h ?? null
+        );
+        trim.run(migrationId, migrationId, MAX_SNAPSHOTS_PER_TOKEN);
+      }
+    })();
+  }
+
+  async getSnapshots(migrationId: string): Promise<TokenSnapshot[]> {
+    const rows = this.connection
+      .prepare('SELECT timestamp, market_cap, price, volume_24h FROM snapshots WHERE migration_id = ? ORDER BY timestamp ASC')
+      .all(migrationId) as { timestamp: number; market_cap: number | null; price: number | null; volume_24h: number | null }[];
+
+    return rows.map(row => ({
+      timestamp: new Date(row.timestamp),
+      marketCap: row.market_cap ?? undefined,
+      price: row.price ?? undefined,
+      volume24h: row.volume_24h ?? undefined
+    }));
+  }
+
+  async getSubscriptions(): Promise<Subscription[]> {
+    const rows = this.connection
+      .prepare('SELECT chat_id, chat_title, filters, created_at FROM subscriptions ORDER BY created_at ASC')
+      .all() as { chat_id: string; chat_title: string | null; filters: string; created_at: number }[];
+
+    return rows.map(row => ({
+      chatId: row.chat_id,
+      chatTitle: row.chat_title ?? undefined,
+      filters: JSON.parse(row.filters),
+      createdAt: new Date(row.created_at)
+    }));
+  }
+
+  async saveSubscription(subscription: Subscription): Promise<void> {
+    this.connection.prepare(`
+      INSERT INTO subscriptions (chat_id, chat_title, filters, created_at) VALUES (?, ?, ?, ?)
+      ON CONFLICT (chat_id) DO UPDATE SET chat_title = excluded.chat_title, filters = excluded.filters, created_at = excluded.created_at
+    `).run(
+      subscription.chatId,
+      subscription.chatTitle ?? null,
+      JSON.stringify(subscription.filters),
+      new Date(subscription.createdAt).getTime()
+    );
+  }
+
+  async removeSubscription(chatId: string): Promise<boolean> {
+    const result = this.connection.prepare('DELETE FROM subscriptions WHERE chat_id = ?').run(chatId);
+    return result.changes > 0;
+  }
+
+  async getDigestSchedules(): Promise<DigestSchedule[]> {
+    const rows = this.connection.prepare('SELECT data FROM digest_schedules').all() as { data: string }[];
+    return rows.map(row => {
+      const schedule = JSON.parse(row.data);
+      return { ...schedule, updatedAt: new Date(schedule.updatedAt) };
+    });
+  }
+
+  async saveDigestSchedule(schedule: DigestSchedule): Promise<void> {
+    this.connection
+      .prepare('INSERT INTO digest_schedules (chat_id, data) VALUES (?, ?) ON CONFLICT (chat_id) DO UPDATE SET data = excluded.data')
+      .run(schedule.chatId, JSON.stringify(schedule));
+  }
+
+  async removeDigestSchedule(chatId: string): Promise<boolean> {
+    const result = this.connection.prepare('DELETE FROM digest_schedules WHERE chat_id = ?').run(chatId);
+    return result.changes > 0;
+  }
+
+  async enqueueOutbox(message: OutboxMessage): Promise<void> {
+    this.writeOutbox(message);
+  }
+
+  async getDueOutbox(now: Date, limit: number, after?: OutboxMessage): Promise<OutboxMessage[]> {
+    const rows = (after
+      ? this.connection
+        .prepare(`SELECT data FROM outbox WHERE next_attempt_at <= ? AND (created_at > ? OR (created_at = ? AND id > ?))
+          ORDER BY created_at ASC, id ASC LIMIT ?`)
+        .all(now.getTime(), after.createdAt.getTime(), after.createdAt.getTime(), after.id, limit)
+      : this.connection
+        .prepare('SELECT data FROM outbox WHERE next_attempt_at <= ? ORDER BY created_at ASC, id ASC LIMIT ?')
+        .all(now.getTime(), limit)) as { data: string }[];
+
+    return rows.map(row => {
+      const message = JSON.parse(row.data);
+      return { ...message, nextAttemptAt: new Date(message.nextAttemptAt), createdAt: new Date(message.createdAt) };
+    });
+  }
+
+  async updateOutbox(message: OutboxMessage): Promise<void> {
+    this.writeOutbox(message);
+  }
+
+  async deleteOutbox(id: string): Promise<void> {
+    this.connection.prepare('DELETE FROM outbox WHERE id = ?').run(id);
+  }
+
+  async finishOutbox(id: string, record?: DeliveryRecord): Promise<void> {
+    this.connection.transaction(() => {
+      this.connection.prepare('DELETE FROM outbox WHERE id = ?').run(id);
+      if (record && this.exists(record.migrationId)) {
+        this.connection
+          .prepare(`INSERT OR IGNORE INTO ${record.outcome === 'delivered' ? 'notifications' : 'failed_notifications'} (migration_id, chat_id) VALUES (?, ?)`)
+          .run(record.migrationId, record.chatId);
+      }
+    })();
+  }
+
+  async countOutbox(): Promise<number> {
+    return (this.connection.prepare('SELECT COUNT(*) AS count FROM outbox').get() as { count: number }).count;
+  }
+
+  async hasPendingOutbox(migrationId: string, chatId: string): Promise<boolean> {
+    return this.connection
+      .prepare('SELECT 1 FROM outbox WHERE migration_id = ? AND chat_id = ?')
+      .get(migrationId, chatId) !== undefined;
+  }
+
+  async clear(): Promise<void> {
+    // Queued messages were already promised to chats, so the outbox is left alone, as are subscriptions and digests
+    this.connection.exec(`
+      DELETE FROM migrations;
+      DELETE FROM notifications;
+      DELETE FROM failed_notifications;
+      DELETE FROM fired_milestones;
+      DELETE FROM milestone_trackers;
+      DELETE FROM snapshots;
+    `);
+  }
+
+  async compact(): Promise<void> {
+    this.connection.exec(`
+      DELETE FROM notifications WHERE migration_id NOT IN (SELECT id FROM migrations);
+      DELETE FROM failed_notifications WHERE migration_id NOT IN (SELECT id FROM migrations);
+      DELETE FROM fired_milestones WHERE migration_id NOT IN (SELECT id FROM migrations);
+      DELETE FROM milestone_trackers WHERE migration_id NOT IN (SELECT id FROM migrations);
+      DELETE FROM snapshots WHERE migration_id NOT IN (SELECT id FROM migrations);
+    `);
+    // In WAL mode VACUUM writes the rebuilt file to the log; fold it back in and empty the log
+    this.connection.exec('VACUUM');
+    this.connection.pragma('wal_checkpoint(TRUNCATE)');
+  }
+
+  private upgradeSchema(): void {
+    // Databases created before creators were indexed lack the column; fill it from the stored records
+    const columns = this.connection.pragma('table_info(migrations)') as { name: string }[];
+    if (!columns.some(column => column.name === 'creator_lc')) {
+      this.connection.exec(`
+        ALTER TABLE migrations ADD COLUMN creator_lc TEXT;
+        UPDATE migrations SET creator_lc = lower(json_extract(data, '$.creator'));
+      `);
+    }
+    this.connection.exec('CREATE INDEX IF NOT EXISTS idx_migrations_creator ON migrations (creator_lc)');
+  }
+
+  private get connection(): Database.Database {
+    if (!this.db) {
+      throw new Error('SQLite store used before initialize()');
+    }
+    return this.db;
+  }
+
+  private writeOutbox(message: OutboxMessage): void {
+    this.connection.prepare(`
+      INSERT INTO outbox (id, chat_id, migration_id, next_attempt_at, created_at, data) VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET next_attempt_at = excluded.next_attempt_at, data = excluded.data
+    `).run(
+      message.id,
+      message.chatId,
+      message.migrationId ?? null,
+      new Date(message.nextAttemptAt).getTime(),
+      new Date(message.createdAt).getTime(),
+      JSON.stringify(message)
+    );
+  }
+
+  private exists(migrationId: string): boolean {
+    return this.connection.prepare('SELECT 1 FROM migrations WHERE id = ?').get(migrationId) !== undefined;
+  }
+
+  private upsert(migration: MigratedToken): void {
+    const { notifiedChats, failedChats, firedMilestones, trackedBy, ...record } = migration;
+
+    this.connection.prepare(`
+      INSERT INTO migrations (id, contract_address, contract_address_lc, symbol_lc, name_lc, migration_date, creator_lc, data)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET
+        contract_address = excluded.contract_address,
+        contract_address_lc = excluded.contract_address_lc,
+        symbol_lc = excluded.symbol_lc,
+        name_lc = excluded.name_lc,
+        migration_date = excluded.migration_date,
+        creator_lc = excluded.creator_lc,
+        data = excluded.data
+    `).run(
+      migration.id,
+      migration.contractAddress || null,
+      migration.contractAddress ? migration.contractAddress.toLowerCase() : null,
+      migration.symbol.toLowerCase(),
+      migration.name.toLowerCase(),
+      new Date(migration.migrationDate).getTime(),
+      migration.creator ? migration.creator.toLowerCase() : null,
+      JSON.stringify(record)
+    );
+
+    const insertNotification = this.connection.prepare('INSERT OR IGNORE INTO notifications (migration_id, chat_id) VALUES (?, ?)');
+    for (const chatId of notifiedChats || []) {
+      insertNotification.run(migration.id, chatId);
+    }
+
+    const insertFailure = this.connection.prepare('INSERT OR IGNORE INTO failed_notifications (migration_id, chat_id) VALUES (?, ?)');
+    for (const chatId of failedChats || []) {
+      insertFailure.run(migration.id, chatId);
+    }
+
+    const insertMilestone = this.connection.prepare('INSERT OR IGNORE INTO fired_milestones (migration_id, milestone) VALUES (?, ?)');
+    for (const key of firedMilestones || []) {
+      insertMilestone.run(migration.id, key);
+    }
+
+    const insertTracker = this.connection.prepare('INSERT OR IGNORE INTO milestone_trackers (migration_id, user_id) VALUES (?, ?)');
+    for (const userId of trackedBy || []) {
+      insertTracker.run(migration.id, userId);
+    }
+  }
+
+  private fromRow(row: MigrationRow): MigratedToken {
+    return hydrateMigration({
+      ...JSON.parse(row.data),
+      notifiedChats: JSON.parse(row.notified_chats || '[]'),
+      failedChats: JSON.parse(row.failed_chats || '[]'),
+      firedMilestones: JSON.parse(row.fired_milestones || '[]'),
+      trackedBy: JSON.parse(row.tracked_by || '[]')
+    });
+  }
+}
+
+function isCorruption(error: unknown): boolean {
+  return error instanceof Database.SqliteError &&
+    CORRUPTION_CODES.some(code => error.code === code || error.code.startsWith(`${code}_`));
+}
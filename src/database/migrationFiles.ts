@@ -0,0 +1,245 @@
+import path from 'path';
+import { ExportFormat, MigratedToken } from '../types';
+
+// Fields written to export files, in CSV column order. Delivery bookkeeping
+// (notified chats, milestone trackers, held flags) stays in the database.
+const EXPORT_FIELDS = [
+  'id', 'name', 'symbol', 'contractAddress', 'migrationDate', 'firstSeenAt',
+  'marketCap', 'price', 'volume24h', 'totalRaised', 'bondingDuration', 'bondingProgress', 'bondingCompleted',
+  'creator', 'website', 'twitter', 'telegram', 'url', 'image', 'description', 'firstSeenBy',
+  'fromChain', 'toChain', 'createdAt'
+] as const;
+
+type ExportField = typeof EXPORT_FIELDS[number];
+
+const NUMBER_FIELDS: ExportField[] = ['marketCap', 'price', 'volume24h', 'totalRaised', 'bondingDuration', 'bondingProgress'];
+const DATE_FIELDS: ExportField[] = ['migrationDate', 'firstSeenAt', 'createdAt'];
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'ndjson'];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  ndjson: 'application/x-ndjson'
+};
+
+/**
+ * Thrown when an import file can't be read as migrations; the message names
+ * the offending line or record.
+ */
+export class MigrationFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationFileError';
+  }
+}
+
+/** Picks the format from a file name, e.g. `history.ndjson`. */
+export function formatFromPath(filePath: string): ExportFormat | undefined {
+  const extension = path.extname(filePath).toLowerCase().slice(1);
+  if (extension === 'jsonl') {
+    return 'ndjson';
+  }
+  return EXPORT_FORMATS.includes(extension as ExportFormat) ? extension as ExportFormat : undefined;
+}
+
+export function serializeMigrations(migrations: MigratedToken[], format: ExportFormat): string {
+  const records = migrations.map(exportRecord);
+
+  switch (format) {
+    case 'json':
+      return JSON.stringify(records, null, 2) + '\n';
+    case 'ndjson':
+      return records.map(record => JSON.stringify(record) + '\n').join('');
+    case 'csv': {
+      const rows = records.map(record => EXPORT_FIELDS.map(field => {
+        const value = record[field];
+        return csvCell(Array.isArray(value) ? value.join(';') : value === undefined ? '' : String(value));
+      }).join(','));
+      return [EXPORT_FIELDS.join(','), ...rows].join('\r\n') + '\r\n';
+    }
+  }
+}
+
+/**
+ * Reads migrations from an export file. JSON accepts both an exported array
+ * and a `migrations.json` database file. Records need a name and symbol; a
+ * missing ID is derived the way the scraper does.
+ */
+export function parseMigrations(content: string, format: ExportFormat): MigratedToken[] {
+  const text = content.replace(/^\uFEFF/, '');
+
+  switch (format) {
+    case 'json': {
+      const data = parseJson(text, 'file');
+      const records = Array.isArray(data) ? data : data?.migrations;
+      if (!Array.isArray(records)) {
+        throw new MigrationFileError('Expected a JSON array of migrations or a migrations.json database file');
+      }
+      return records.map((record, index) => toMigration(record, `record ${index + 1}`));
+    }
+    case 'ndjson':
+      return text.split(/\r?\n/)
+        .map((line, index) => ({ line: line.trim(), label: `line ${index + 1}` }))
+        .filter(({ line }) => line)
+        .map(({ line, label }) => toMigration(parseJson(line, label), label));
+    case 'csv': {
+      const [header, ...rows] = parseCsv(text);
+      if (!header) {
+        return [];
+      }
+      return rows
+        .filter(row => row.some(cell => cell.trim()))
+        .map((row, index) => toMigration(
+          Object.fromEntries(header.map((column, position) => [column.trim(), unescapeCsvCell(row[position] ?? '')])),
+          `row ${index + 2}`
+        ));
+    }
+  }
+}
+
+function exportRecord(token: MigratedToken): Partial<Record<ExportField, unknown>> {
+  const record: Partial<Record<ExportField, unknown>> = {};
+  for (const field of EXPORT_FIELDS) {
+    const value = token[field];
+    if (value !== undefined && value !== null && value !== '') {
+      record[field] = value instanceof Date ? value.toISOString() : value;
+    }
+  }
+  return record;
+}
+
+// Accepts JSON values and CSV strings alike; empty cells count as missing
+function toMigration(record: any, label: string): MigratedToken {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    throw new MigrationFileError(`${label}: expected an object`);
+  }
+
+  const text = (field: string): string | undefined => {
+    const value = record[field];
+    return value === undefined || value === null || String(value).trim() === '' ? undefined : String(value).trim();
+  };
+
+  const name = text('name');
+  const symbol = text('symbol');
+  if (!name || !symbol) {
+    throw new MigrationFileError(`${label}: name and symbol are required`);
+  }
+
+  const migration: MigratedToken = {
+    id: text('id') || text('contractAddress') || `token-${symbol}-${name}`.replace(/[^a-zA-Z0-9]/g, ''),
+    name,
+    symbol,
+    contractAddress: text('contractAddress') || '',
+    migrationDate: new Date(0)
+  };
+
+  for (const field of DATE_FIELDS) {
+    const value = text(field);
+    if (value === undefined) {
+      continue;
+    }
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new MigrationFileError(`${label}: invalid date "${value}" for ${field}`);
+    }
+    migration[field as 'migrationDate' | 'firstSeenAt' | 'createdAt'] = date;
+  }
+  if (!text('migrationDate')) {
+    throw new MigrationFileError(`${label}: migrationDate is required`);
+  }
+
+  for (const field of NUMBER_FIELDS) {
+    const value = text(field);
+    if (value === undefined) {
+      continue;
+    }
+    const number = Number(value);
+    if (!isFinite(number)) {
+      throw new MigrationFileError(`${label}: invalid number "${value}" for ${field}`);
+    }
+    migration[field as 'marketCap'] = number;
+  }
+
+  const completed = record.bondingCompleted;
+  if (completed !== undefined && completed !== '') {
+    migration.bondingCompleted = completed === true || String(completed).toLowerCase() === 'true';
+  }
+
+  const sources = record.firstSeenBy;
+  if (Array.isArray(sources)) {
+    migration.firstSeenBy = sources.map(String);
+  } else if (text('firstSeenBy')) {
+    migration.firstSeenBy = text('firstSeenBy')!.split(';').map(source => source.trim()).filter(Boolean);
+  }
+
+  for (const field of ['creator', 'website', 'twitter', 'telegram', 'url', 'image', 'description', 'fromChain', 'toChain'] as const) {
+    migration[field] = text(field);
+  }
+
+  return migration;
+}
+
+function parseJson(text: string, label: string): any {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new MigrationFileError(`${label}: invalid JSON (${(error as Error).message})`);
+  }
+}
+
+// Quotes cells that need it and defuses spreadsheet formulas
+function csvCell(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) && isNaN(Number(value)) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function unescapeCsvCell(value: string): string {
+  return value.replace(/^'(?=[=+\-@\t\r])/, '');
+}
+
+// RFC 4180: quoted cells may contain commas, doubled quotes and line breaks
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new MigrationFileError('Unterminated quoted CSV cell');
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
@@ -1,46 +1,59 @@
 import dotenv from 'dotenv';
-import { BagsFmBot } from './bot/BagsFmBot';
+import { CliArgs, CliUsageError, COMMANDS, USAGE } from './cli/commands';
+import { ConfigError } from './bot/config';
 import { Logger } from './utils/Logger';
 
 // Load environment variables
 dotenv.config();
 
-const logger = new Logger();
+function parseArgs(argv: string[]): { command: string; cli: CliArgs } {
+  const [command = 'run', ...rest] = argv;
+  const cli: CliArgs = { args: [], flags: new Map() };
 
-async function main() {
-  try {
-    logger.info('Starting Bags.fm Migration Bot...');
-    
-    // Validate required environment variables
-    const requiredEnvVars = ['TELEGRAM_BOT_TOKEN', 'TELEGRAM_CHAT_ID'];
-    for (const envVar of requiredEnvVars) {
-      if (!process.env[envVar]) {
-        throw new Error(`Missing required environment variable: ${envVar}`);
-      }
+  for (const arg of rest) {
+    const match = arg.match(/^--([^=]+)(?:=(.*))?$/);
+    if (match) {
+      cli.flags.set(match[1], match[2] ?? true);
+    } else {
+      cli.args.push(arg);
     }
+  }
+
+  return { command, cli };
+}
+
+async function main() {
+  const { command, cli } = parseArgs(process.argv.slice(2));
 
-    // Initialize and start the bot
-    const bot = new BagsFmBot();
-    await bot.start();
-    
-    logger.info('Bot started successfully!');
-    
-    // Graceful shutdown handling
-    process.on('SIGINT', async () => {
-      logger.info('Received SIGINT, shutting down gracefully...');
-      await bot.stop();
-      process.exit(0);
-    });
-
-    process.on('SIGTERM', async () => {
-      logger.info('Received SIGTERM, shutting down gracefully...');
-      await bot.stop();
-      process.exit(0);
-    });
+  if (command === 'help' || command === '--help' || command === '-h') {
+    console.log(USAGE);
+    return;
+  }
 
+  const handler = COMMANDS[command];
+  if (!handler) {
+    console.error(`Unknown command: ${command}\n\n${USAGE}`);
+    process.exit(2);
+  }
+
+  // Offline commands print their own results; keep routine log lines out of them
+  if (command !== 'run' && !process.env.LOG_LEVEL) {
+    process.env.LOG_LEVEL = 'warn';
+  }
+  const logger = new Logger('cli');
+
+  try {
+    await handler(cli);
   } catch (error) {
-    logger.error('Failed to start bot:', error);
-    console.error('Full error details:', error);
+    if (error instanceof CliUsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      process.exit(2);
+    }
+    if (error instanceof ConfigError) {
+      console.error(error.message);
+      process.exit(1);
+    }
+    logger.error(command === 'run' ? 'Failed to start bot:' : `Command ${command} failed:`, error);
     process.exit(1);
   }
 }
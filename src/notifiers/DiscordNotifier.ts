@@ -0,0 +1,135 @@
+import { formatCurrency, formatDuration, isHttpUrl, riskEmoji } from '../utils/format';
+import { MigratedToken, NotificationEvent, RiskAssessment, NotificationEventType, NotifierContent } from '../types';
+import { HttpNotifier } from './HttpNotifier';
+
+interface DiscordEmbedField {
+  name: string;
+  value: string;
+  inline?: boolean;
+}
+
+// Token names and descriptions come from the API; keep them from pinging @everyone, roles or users
+const NO_MENTIONS = { parse: [] };
+
+const MIGRATION_COLOR = 0x2ecc71;
+const MILESTONE_COLOR = 0xf1c40f;
+
+/**
+ * Posts alerts to a Discord channel webhook as embeds, using the token image
+ * as the thumbnail.
+ */
+export class DiscordNotifier extends HttpNotifier {
+  readonly name = 'discord';
+
+  constructor(webhookUrl: string, events: NotificationEventType[]) {
+    // Discord allows 5 requests per 2 seconds per webhook
+    super(webhookUrl, events, 500);
+  }
+
+  format(event: NotificationEvent): NotifierContent {
+    switch (event.type) {
+      case 'migration': {
+        const token = event.token;
+        const migratedAt = new Date(token.migrationDate);
+        return {
+          text: `${token.name} (${token.symbol}) migrated`,
+          payload: {
+            allowed_mentions: NO_MENTIONS,
+            embeds: [{
+              title: `🎯 ${token.name} (${token.symbol}) migrated on Bags.fm`,
+              url: token.url,
+              description: token.description ? truncate(token.description, 200) : undefined,
+              color: MIGRATION_COLOR,
+              thumbnail: token.image ? { url: token.image } : undefined,
+              fields: this.migrationFields(token, event.creatorBadge, event.risk),
+              timestamp: isNaN(migratedAt.getTime()) ? undefined : migratedAt.toISOString()
+            }]
+          }
+        };
+      }
+      case 'milestone': {
+        const { alerted, current, crossed, multiple } = event;
+        const top = crossed[crossed.length - 1];
+        const fields: DiscordEmbedField[] = [];
+
+        if (current.marketCap) {
+          const from = alerted.marketCap ? `$${formatCurrency(alerted.marketCap)} → ` : '';
+          fields.push({ name: 'Market Cap', value: `${from}$${formatCurrency(current.marketCap)}`, inline: true });
+        }
+        if (multiple !== undefined) {
+          fields.push({ name: 'Since alert', value: `${multiple.toFixed(1)}x`, inline: true });
+        }
+        if (current.volume24h) {
+          fields.push({ name: '24h Volume', value: `$${formatCurrency(current.volume24h)}`, inline: true });
+        }
+        fields.push({ name: 'Contract', value: `\`${current.contractAddress}\`` });
+
+        return {
+          text: `${current.name} (${current.symbol}) hit ${top.label}`,
+          payload: {
+            allowed_mentions: NO_MENTIONS,
+            embeds: [{
+              title: `🚀 ${current.name} (${current.symbol}) hit ${top.label}!`,
+              url: current.url,
+              color: MILESTONE_COLOR,
+              thumbnail: current.image ? { url: current.image } : undefined,
+              fields
+            }]
+          }
+        };
+      }
+      case 'notice':
+        return { text: event.text, payload: { content: truncate(event.text, 2000), allowed_mentions: NO_MENTIONS } };
+    }
+  }
+
+  private migrationFields(token: MigratedToken, creatorBadge?: string, risk?: RiskAssessment): DiscordEmbedField[] {
+    const fields: DiscordEmbedField[] = [];
+
+    if (token.marketCap) {
+      fields.push({ name: 'Market Cap', value: `$${formatCurrency(token.marketCap)}`, inline: true });
+    }
+    if (token.price) {
+      fields.push({ name: 'Price', value: `$${token.price.toFixed(8)}`, inline: true });
+    }
+    if (token.volume24h) {
+      fields.push({ name: '24h Volume', value: `$${formatCurrency(token.volume24h)}`, inline: true });
+    }
+    if (token.totalRaised) {
+      fields.push({ name: 'Total Raised', value: `$${formatCurrency(token.totalRaised)}`, inline: true });
+    }
+    if (token.bondingDuration) {
+      fields.push({ name: 'Bonding Duration', value: formatDuration(token.bondingDuration), inline: true });
+    }
+    if (token.contractAddress) {
+      fields.push({ name: 'Contract', value: `\`${token.contractAddress}\`` });
+    }
+    if (token.creator) {
+      fields.push({ name: 'Creator', value: `\`${token.creator}\`` + (creatorBadge ? `\n${creatorBadge}` : '') });
+    }
+    if (risk) {
+      const reasons = risk.reasons.length > 0 ? `\n${risk.reasons.join(', ')}` : '';
+      fields.push({ name: 'Risk', value: `${riskEmoji(risk.level)} ${risk.score}/100 (${risk.level})${reasons}` });
+    }
+
+    const links = [
+      isHttpUrl(token.website) ? `[Website](${linkUrl(token.website)})` : undefined,
+      isHttpUrl(token.twitter) ? `[Twitter](${linkUrl(token.twitter)})` : undefined,
+      isHttpUrl(token.telegram) ? `[Telegram](${linkUrl(token.telegram)})` : undefined
+    ].filter(Boolean);
+    if (links.length > 0) {
+      fields.push({ name: 'Links', value: links.join(' | ') });
+    }
+
+    return fields;
+  }
+}
+
+// A ) would end the URL of a [label](url) link early
+function linkUrl(url: string): string {
+  return url.replace(/\(/g, '%28').replace(/\)/g, '%29');
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? text.substring(0, length - 3) + '...' : text;
+}
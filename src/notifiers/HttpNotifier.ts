@@ -0,0 +1,54 @@
+import axios from 'axios';
+import { DeliveryFailure, NotificationEvent, NotificationEventType, Notifier, NotifierContent, OutboxMessage } from '../types';
+
+/**
+ * Base for sinks that POST a JSON payload to a webhook URL. Subclasses build
+ * the payload in `format` and may add request headers.
+ */
+export abstract class HttpNotifier implements Notifier {
+  abstract readonly name: string;
+  readonly events: NotificationEventType[];
+  protected url: string;
+  private minIntervalMs: number;
+
+  constructor(url: string, events: NotificationEventType[], minIntervalMs: number) {
+    this.url = url;
+    this.events = events;
+    this.minIntervalMs = minIntervalMs;
+  }
+
+  abstract format(event: NotificationEvent): NotifierContent;
+
+  intervalMs(): number {
+    return this.minIntervalMs;
+  }
+
+  async deliver(message: OutboxMessage): Promise<void> {
+    const body = JSON.stringify(message.payload);
+    await axios.post(this.url, body, {
+      headers: { 'Content-Type': 'application/json', ...this.headers(body, message) },
+      timeout: 15000
+    });
+  }
+
+  describeError(error: unknown): DeliveryFailure {
+    if (!axios.isAxiosError(error)) {
+      return { description: error instanceof Error ? error.message : String(error) };
+    }
+
+    const data = error.response?.data;
+    const retryAfterHeader = parseFloat(error.response?.headers?.['retry-after']);
+    const retryAfterBody = typeof data?.retry_after === 'number' ? data.retry_after : undefined;
+    const detail = typeof data === 'string' ? data : data?.message;
+
+    return {
+      statusCode: error.response?.status,
+      retryAfterSeconds: retryAfterBody ?? (isNaN(retryAfterHeader) ? undefined : retryAfterHeader),
+      description: detail ? `${error.message}: ${detail}` : error.message
+    };
+  }
+
+  protected headers(_body: string, _message: OutboxMessage): Record<string, string> {
+    return {};
+  }
+}
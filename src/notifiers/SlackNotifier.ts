@@ -0,0 +1,139 @@
+import { formatCurrency, formatDuration, isHttpUrl, riskEmoji } from '../utils/format';
+import { MigratedToken, NotificationEvent, RiskAssessment, NotificationEventType, NotifierContent } from '../types';
+import { HttpNotifier } from './HttpNotifier';
+
+/**
+ * Posts alerts to a Slack incoming webhook as Block Kit messages. `text` is
+ * kept as the notification fallback Slack shows in previews.
+ */
+export class SlackNotifier extends HttpNotifier {
+  readonly name = 'slack';
+
+  constructor(webhookUrl: string, events: NotificationEventType[]) {
+    // Incoming webhooks accept about one message per second
+    super(webhookUrl, events, 1000);
+  }
+
+  format(event: NotificationEvent): NotifierContent {
+    switch (event.type) {
+      case 'migration': {
+        const token = event.token;
+        const text = `🎯 ${token.name} (${token.symbol}) migrated on Bags.fm`;
+        return { text, payload: { text, blocks: this.migrationBlocks(token, text, event.creatorBadge, event.risk) } };
+      }
+      case 'milestone': {
+        const { alerted, current, crossed, multiple } = event;
+        const text = `🚀 ${current.name} (${current.symbol}) hit ${crossed[crossed.length - 1].label}!`;
+        const fields: string[] = [];
+
+        if (current.marketCap) {
+          const from = alerted.marketCap ? `$${formatCurrency(alerted.marketCap)} → ` : '';
+          fields.push(`*Market Cap*\n${from}$${formatCurrency(current.marketCap)}`);
+        }
+        if (multiple !== undefined) {
+          fields.push(`*Since alert*\n${multiple.toFixed(1)}x`);
+        }
+        if (current.volume24h) {
+          fields.push(`*24h Volume*\n$${formatCurrency(current.volume24h)}`);
+        }
+
+        return {
+          text,
+          payload: {
+            text,
+            blocks: [
+              header(text),
+              ...(fields.length > 0 ? [fieldsSection(fields)] : []),
+              ...this.footerBlocks(current)
+            ]
+          }
+        };
+      }
+      case 'notice':
+        return {
+          text: event.text,
+          payload: { text: event.text, blocks: [{ type: 'section', text: mrkdwn(escape(event.text)) }] }
+        };
+    }
+  }
+
+  private migrationBlocks(token: MigratedToken, title: string, creatorBadge?: string, risk?: RiskAssessment): unknown[] {
+    const blocks: unknown[] = [header(title)];
+
+    if (token.description) {
+      blocks.push({
+        type: 'section',
+        text: mrkdwn(escape(token.description.length > 200 ? token.description.substring(0, 200) + '...' : token.description)),
+        accessory: token.image ? { type: 'image', image_url: token.image, alt_text: token.symbol } : undefined
+      });
+    }
+
+    const fields: string[] = [];
+    if (token.marketCap) fields.push(`*Market Cap*\n$${formatCurrency(token.marketCap)}`);
+    if (token.price) fields.push(`*Price*\n$${token.price.toFixed(8)}`);
+    if (token.volume24h) fields.push(`*24h Volume*\n$${formatCurrency(token.volume24h)}`);
+    if (token.totalRaised) fields.push(`*Total Raised*\n$${formatCurrency(token.totalRaised)}`);
+    if (token.bondingDuration) fields.push(`*Bonding Duration*\n${formatDuration(token.bondingDuration)}`);
+    if (token.firstSeenBy && token.firstSeenBy.length > 0) fields.push(`*Source*\n${token.firstSeenBy.join(', ')}`);
+    if (risk) fields.push(`*Risk*\n${riskEmoji(risk.level)} ${risk.score}/100 (${risk.level})`);
+    if (fields.length > 0) {
+      blocks.push(fieldsSection(fields));
+    }
+
+    const links = [
+      isHttpUrl(token.website) ? `<${linkUrl(token.website)}|Website>` : undefined,
+      isHttpUrl(token.twitter) ? `<${linkUrl(token.twitter)}|Twitter>` : undefined,
+      isHttpUrl(token.telegram) ? `<${linkUrl(token.telegram)}|Telegram>` : undefined
+    ].filter(Boolean);
+    if (links.length > 0) {
+      blocks.push({ type: 'section', text: mrkdwn(links.join(' | ')) });
+    }
+
+    if (risk && risk.reasons.length > 0) {
+      blocks.push({ type: 'context', elements: [mrkdwn(`Risk signals: ${escape(risk.reasons.join(', '))}`)] });
+    }
+
+    blocks.push(...this.footerBlocks(token, creatorBadge));
+    return blocks;
+  }
+
+  private footerBlocks(token: MigratedToken, creatorBadge?: string): unknown[] {
+    const blocks: unknown[] = [];
+    const context = [`Contract: \`${token.contractAddress}\``];
+    if (token.creator) {
+      context.push(`Creator: \`${token.creator}\`` + (creatorBadge ? ` ${creatorBadge}` : ''));
+    }
+    blocks.push({ type: 'context', elements: context.map(mrkdwn) });
+
+    if (token.url) {
+      blocks.push({
+        type: 'actions',
+        elements: [{ type: 'button', text: { type: 'plain_text', text: '🔗 View on Bags.fm' }, url: token.url }]
+      });
+    }
+    return blocks;
+  }
+}
+
+function header(text: string): unknown {
+  // Header blocks are limited to 150 characters
+  return { type: 'header', text: { type: 'plain_text', text: text.substring(0, 150), emoji: true } };
+}
+
+function fieldsSection(fields: string[]): unknown {
+  return { type: 'section', fields: fields.slice(0, 10).map(mrkdwn) };
+}
+
+function mrkdwn(text: string): { type: 'mrkdwn'; text: string } {
+  return { type: 'mrkdwn', text };
+}
+
+// Slack treats &, < and > as control characters in mrkdwn
+function escape(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// A | would end the URL of a <url|label> link early
+function linkUrl(url: string): string {
+  return escape(url).replace(/\|/g, '%7C');
+}
@@ -0,0 +1,154 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { Logger } from '../utils/Logger';
+import { MessageTemplates } from '../templates/MessageTemplates';
+import { AlertAction, AlertButton, DeliveryFailure, MigratedToken, NotificationEvent, NotificationEventType, Notifier, NotifierContent, OutboxMessage } from '../types';
+
+// Telegram rejects the whole message if any button's callback_data is longer
+const MAX_CALLBACK_DATA_BYTES = 64;
+
+export interface TelegramNotifierOptions {
+  events?: NotificationEventType[];
+  buttons?: AlertAction[];
+  privateChatIntervalMs?: number;
+  groupChatIntervalMs?: number;
+}
+
+/**
+ * Delivers alerts to Telegram chats as HTML messages rendered from the chat's
+ * templates, with the token image attached as a photo when there is one.
+ */
+export class TelegramNotifier implements Notifier {
+  readonly name = 'telegram';
+  readonly events: NotificationEventType[];
+  private bot: TelegramBot;
+  private templates: MessageTemplates;
+  private logger: Logger;
+  private privateChatIntervalMs: number;
+  private groupChatIntervalMs: number;
+  private buttons: AlertAction[];
+
+  constructor(bot: TelegramBot, templates: MessageTemplates, options: TelegramNotifierOptions = {}) {
+    this.bot = bot;
+    this.templates = templates;
+    this.logger = new Logger('TelegramNotifier');
+    this.events = options.events || ['migration', 'milestone', 'notice'];
+    // Telegram allows about 1 message/second per private chat and 20/minute per group
+    this.privateChatIntervalMs = options.privateChatIntervalMs ?? 1100;
+    this.groupChatIntervalMs = options.groupChatIntervalMs ?? 3100;
+    this.buttons = options.buttons ?? ['refresh', 'copy', 'mute', 'track', 'open'];
+  }
+
+  setTemplates(templates: MessageTemplates): void {
+    this.templates = templates;
+  }
+
+  intervalMs(chatId: string): number {
+    return chatId.startsWith('-') ? this.groupChatIntervalMs : this.privateChatIntervalMs;
+  }
+
+  format(event: NotificationEvent, chatId: string): NotifierContent {
+    return {
+      text: this.templates.render(event, chatId),
+      photo: event.type === 'migration' && /^https?:\/\//i.test(event.token.image || '') ? event.token.image : undefined,
+      parseMode: 'HTML',
+      disableWebPagePreview: event.type !== 'migration',
+      buttons: event.type === 'migration' && event.migrationId ? this.buttonsFor(event.token, event.migrationId) : undefined
+    };
+  }
+
+  /**
+   * Inline buttons for a migration alert, in rows of two. Buttons that don't
+   * apply to the token (no creator, no contract, no link) are left out.
+   */
+  buttonsFor(token: MigratedToken, migrationId: string): AlertButton[][] | undefined {
+    const callback = (action: AlertAction, text: string): AlertButton | undefined => {
+      const callbackData = `${action}:${migrationId}`;
+      return Buffer.byteLength(callbackData) <= MAX_CALLBACK_DATA_BYTES ? { text, callbackData } : undefined;
+    };
+
+    const candidates: Record<AlertAction, AlertButton | undefined> = {
+      refresh: callback('refresh', '🔄 Refresh stats'),
+      copy: token.contractAddress ? { text: '📋 Copy contract', copyText: token.contractAddress } : undefined,
+      mute: token.creator ? callback('mute', '🔇 Mute creator') : undefined,
+      track: callback('track', '📈 Track milestones'),
+      open: /^https?:\/\//i.test(token.url || '') ? { text: '🌐 Open on Bags.fm', url: token.url } : undefined
+    };
+
+    const buttons = this.buttons.map(action => candidates[action]).filter((button): button is AlertButton => !!button);
+    const rows: AlertButton[][] = [];
+    for (let i = 0; i < buttons.length; i += 2) {
+      rows.push(buttons.slice(i, i + 2));
+    }
+    return rows.length > 0 ? rows : undefined;
+  }
+
+  /**
+   * Replaces the text of an alert that was already sent, keeping it a caption
+   * when the alert went out as a photo.
+   */
+  async edit(sent: TelegramBot.Message, content: NotifierContent): Promise<void> {
+    const options = {
+      chat_id: sent.chat.id,
+      message_id: sent.message_id,
+      parse_mode: content.parseMode,
+      reply_markup: toReplyMarkup(content.buttons)
+    };
+
+    if (sent.photo) {
+      await this.bot.editMessageCaption(content.text, options);
+    } else {
+      await this.bot.editMessageText(content.text, { ...options, disable_web_page_preview: content.disableWebPagePreview });
+    }
+  }
+
+  async deliver(message: OutboxMessage): Promise<void> {
+    if (message.photo) {
+      try {
+        await this.bot.sendPhoto(message.chatId, message.photo, {
+          caption: message.text,
+          parse_mode: message.parseMode,
+          reply_markup: toReplyMarkup(message.buttons)
+        });
+        return;
+      } catch (error) {
+        const info = this.describeError(error);
+        // Only a rejected image is worth a text-only retry; rate limits and outages are not
+        if (info.statusCode !== 400) {
+          throw error;
+        }
+        this.logger.warn(`Failed to send image to chat ${message.chatId}, sending text only: ${info.description}`);
+      }
+    }
+
+    await this.bot.sendMessage(message.chatId, message.text, {
+      parse_mode: message.parseMode,
+      disable_web_page_preview: message.disableWebPagePreview,
+      reply_markup: toReplyMarkup(message.buttons)
+    });
+  }
+
+  describeError(error: any): DeliveryFailure {
+    const body = error?.response?.body;
+    return {
+      statusCode: body?.error_code ?? error?.response?.statusCode,
+      retryAfterSeconds: body?.parameters?.retry_after,
+      description: body?.description || error?.message || String(error)
+    };
+  }
+}
+
+export function toReplyMarkup(buttons?: AlertButton[][]): TelegramBot.InlineKeyboardMarkup | undefined {
+  if (!buttons || buttons.length === 0) {
+    return undefined;
+  }
+
+  return {
+    inline_keyboard: buttons.map(row => row.map(button => ({
+      text: button.text,
+      callback_data: button.callbackData,
+      url: button.url,
+      // copy_text is newer than the bundled typings
+      ...(button.copyText ? { copy_text: { text: button.copyText } } : {})
+    } as TelegramBot.InlineKeyboardButton)))
+  };
+}
@@ -0,0 +1,58 @@
+import crypto from 'crypto';
+import { MigratedToken, NotificationEvent, NotificationEventType, NotifierContent, OutboxMessage } from '../types';
+import { HttpNotifier } from './HttpNotifier';
+
+/**
+ * Posts every event as plain JSON to an arbitrary URL. When a secret is set
+ * the raw body is signed with HMAC-SHA256 and sent as
+ * `X-Signature-256: sha256=<hex>` so receivers can verify it.
+ */
+export class WebhookNotifier extends HttpNotifier {
+  readonly name = 'webhook';
+  private secret?: string;
+
+  constructor(url: string, events: NotificationEventType[], secret?: string) {
+    super(url, events, 0);
+    this.secret = secret;
+  }
+
+  format(event: NotificationEvent): NotifierContent {
+    const timestamp = new Date().toISOString();
+
+    switch (event.type) {
+      case 'migration':
+        return {
+          text: `${event.token.name} (${event.token.symbol}) migrated`,
+          payload: { event: 'migration', timestamp, token: publicFields(event.token), creatorBadge: event.creatorBadge, risk: event.risk }
+        };
+      case 'milestone':
+        return {
+          text: `${event.current.name} (${event.current.symbol}) hit ${event.crossed[event.crossed.length - 1].label}`,
+          payload: {
+            event: 'milestone',
+            timestamp,
+            token: publicFields(event.current),
+            alerted: { marketCap: event.alerted.marketCap, price: event.alerted.price },
+            milestones: event.crossed,
+            multiple: event.multiple
+          }
+        };
+      case 'notice':
+        return { text: event.text, payload: { event: 'notice', timestamp, text: event.text } };
+    }
+  }
+
+  protected headers(body: string, message: OutboxMessage): Record<string, string> {
+    const headers: Record<string, string> = { 'X-Event-Type': message.kind };
+    if (this.secret) {
+      headers['X-Signature-256'] = 'sha256=' + crypto.createHmac('sha256', this.secret).update(body).digest('hex');
+    }
+    return headers;
+  }
+}
+
+// Delivery bookkeeping is internal to the bot and would leak subscriber chat IDs
+function publicFields(token: MigratedToken): Partial<MigratedToken> {
+  const { notifiedChats, failedChats, firedMilestones, trackedBy, notificationHeld, ...rest } = token;
+  return rest;
+}
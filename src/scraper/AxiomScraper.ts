@@ -0,0 +1,237 @@
+import axios from 'axios';
+import { Logger } from '../utils/Logger';
+import { CircuitOpenError } from '../utils/CircuitBreaker';
+import { UpstreamClient, UpstreamClientOptions } from './UpstreamClient';
+import { SchemaDriftMonitor } from './SchemaDriftMonitor';
+import { Schema, array, boolean, date, number, object, optional, parseDate, string } from '../utils/schema';
+import { CrawlStats, MigratedToken, SchemaDriftReport, TokenSnapshot, TokenSource } from '../types';
+
+interface AxiomApiToken {
+  tokenAddress: string;
+  pairAddress?: string;
+  tokenName: string;
+  tokenTicker: string;
+  tokenImage?: string;
+  protocol?: string;
+  createdAt?: string;
+  migratedAt?: string;
+  marketCapUsd?: number;
+  priceUsd?: number;
+  volumeUsd24h?: number;
+  liquidityUsd?: number;
+  devAddress?: string;
+  website?: string;
+  twitter?: string;
+  telegram?: string;
+}
+
+interface AxiomApiResponse {
+  success?: boolean;
+  tokens?: AxiomApiToken[];
+}
+
+const TOKEN_SCHEMA: Schema = object({
+  tokenAddress: string(),
+  pairAddress: optional(string()),
+  tokenName: string(),
+  tokenTicker: string(),
+  tokenImage: optional(string()),
+  protocol: optional(string()),
+  createdAt: optional(date()),
+  migratedAt: date(),
+  marketCapUsd: optional(number()),
+  priceUsd: optional(number()),
+  volumeUsd24h: optional(number()),
+  liquidityUsd: optional(number()),
+  devAddress: optional(string()),
+  website: optional(string()),
+  twitter: optional(string()),
+  telegram: optional(string())
+});
+
+const RESPONSE_SCHEMA: Schema = object({
+  success: optional(boolean()),
+  tokens: array(TOKEN_SCHEMA)
+});
+
+export interface AxiomScraperOptions {
+  baseUrl?: string;
+  siteUrl?: string; // Base of the bags.fm token links on alerts
+  apiKey?: string;
+  protocol?: string;
+  upstream?: UpstreamClientOptions; // Retries and circuit breaker for API requests
+}
+
+export class AxiomScraper implements TokenSource {
+  readonly name = 'axiom';
+  private logger: Logger;
+  private baseUrl: string;
+  private siteUrl: string;
+  private apiKey?: string;
+  private protocol: string;
+  private lastCrawlStats?: CrawlStats;
+  private schemaDrift = new SchemaDriftMonitor('axiom');
+  private http: UpstreamClient;
+  private lastError?: string;
+
+  constructor(options: AxiomScraperOptions = {}) {
+    this.logger = new Logger('AxiomScraper');
+    this.baseUrl = options.baseUrl || 'https://api.axiom.trade';
+    this.siteUrl = options.siteUrl || 'https://bags.fm';
+    this.apiKey = options.apiKey;
+    this.protocol = (options.protocol || 'bags').toLowerCase();
+    this.http = new UpstreamClient('axiom', options.upstream);
+  }
+
+  async getNewMigrations(): Promise<MigratedToken[]> {
+    const startedAt = Date.now();
+    this.schemaDrift.startCrawl();
+    const tokens = await this.fetchMigratedTokens(true);
+    this.schemaDrift.finishCrawl();
+
+    // The endpoint is not paginated, so a crawl is always a single request
+    this.lastCrawlStats = {
+      pagesCrawled: tokens ? 1 : 0,
+      totalPages: 1,
+      itemsFetched: tokens ? tokens.length : 0,
+      itemsQualified: tokens ? tokens.length : 0,
+      stopReason: tokens ? 'last-page' : 'error',
+      error: tokens ? undefined : this.lastError,
+      durationMs: Date.now() - startedAt,
+      finishedAt: new Date()
+    };
+
+    return tokens || [];
+  }
+
+  getLastCrawlStats(): CrawlStats | undefined {
+    return this.lastCrawlStats;
+  }
+
+  getLastSchemaDrift(): SchemaDriftReport | undefined {
+    return this.schemaDrift.getLastReport();
+  }
+
+  async fetchSnapshot(contractAddress: string): Promise<TokenSnapshot | undefined> {
+    const tokens = await this.fetchMigratedTokens();
+    if (!tokens) {
+      throw new Error('Axiom API request failed');
+    }
+
+    const token = tokens.find(t => t.contractAddress === contractAddress);
+    return token && {
+      timestamp: new Date(),
+      marketCap: token.marketCap,
+      price: token.price,
+      volume24h: token.volume24h
+    };
+  }
+
+  /** Only crawls (`crawl`) feed the schema drift report; refreshing an alert doesn't. */
+  private async fetchMigratedTokens(crawl: boolean = false): Promise<MigratedToken[] | null> {
+    try {
+      this.logger.info('Fetching migrated tokens from Axiom API...');
+
+      const headers: Record<string, string> = {
+        'Accept': 'application/json'
+      };
+      if (this.apiKey) {
+        headers['Authorization'] = `Bearer ${this.apiKey}`;
+      }
+
+      this.lastError = undefined;
+      const data = await this.http.get<AxiomApiResponse | AxiomApiToken[]>(`${this.baseUrl}/migrated-tokens`, {
+        params: { protocol: this.protocol },
+        headers,
+        timeout: 30000 // 30 seconds timeout
+      });
+
+      // The endpoint has returned both a bare array and a wrapped object
+      if (crawl) {
+        this.schemaDrift.check(Array.isArray(data) ? array(TOKEN_SCHEMA) : RESPONSE_SCHEMA, data);
+      }
+      const tokenList = Array.isArray(data) ? data : data?.tokens;
+      if (!Array.isArray(tokenList)) {
+        this.lastError = 'response had no token data';
+        this.logger.warn('No token data found in Axiom response');
+        this.logger.debug('API Response:', JSON.stringify(data, null, 2));
+        return null;
+      }
+
+      return this.parseMigratedTokens(tokenList);
+    } catch (error) {
+      this.lastError = (error as Error).message;
+      if (error instanceof CircuitOpenError) {
+        this.logger.warn(`Skipping Axiom: ${error.message}`);
+      } else if (axios.isAxiosError(error)) {
+        this.logger.error('Failed to fetch from Axiom API:', error.message);
+        this.logger.debug('API Error details:', {
+          status: error.response?.status,
+          statusText: error.response?.statusText
+        });
+      } else {
+        this.logger.error('Unexpected error:', error);
+      }
+      return null;
+    }
+  }
+
+  private parseMigratedTokens(tokenList: AxiomApiToken[]): MigratedToken[] {
+    const tokens: MigratedToken[] = [];
+
+    for (const token of tokenList) {
+      try {
+        if (!token.tokenAddress) {
+          continue;
+        }
+
+        // Axiom aggregates every launchpad; only keep the ones launched through bags.fm
+        if (token.protocol && token.protocol.toLowerCase() !== this.protocol) {
+          continue;
+        }
+
+        const createdDate = parseDate(token.createdAt);
+        const migrationDate = parseDate(token.migratedAt) || createdDate;
+
+        // Without any date the alert would claim the token migrated just now; the schema report flags the missing field
+        if (!migrationDate) {
+          this.logger.warn(`Skipping Axiom token ${token.tokenTicker}: no valid migration or creation date`);
+          continue;
+        }
+
+        let bondingDuration: number | undefined;
+        if (createdDate && migrationDate > createdDate) {
+          bondingDuration = (migrationDate.getTime() - createdDate.getTime()) / (1000 * 60 * 60);
+        }
+
+        tokens.push({
+          id: token.tokenAddress,
+          name: token.tokenName || 'Unknown Token',
+          symbol: token.tokenTicker || 'UNKNOWN',
+          contractAddress: token.tokenAddress,
+          migrationDate: migrationDate,
+          createdAt: createdDate,
+          fromChain: 'Solana',
+          toChain: 'Bags.fm Launch',
+          marketCap: token.marketCapUsd,
+          price: token.priceUsd,
+          volume24h: token.volumeUsd24h,
+          bondingDuration: bondingDuration,
+          url: `${this.siteUrl}/token/${token.tokenAddress}`,
+          image: token.tokenImage,
+          creator: token.devAddress,
+          website: token.website || undefined,
+          twitter: token.twitter || undefined,
+          telegram: token.telegram || undefined,
+          socialsReported: ['website', 'twitter', 'telegram'].some(field => field in token),
+          bondingCompleted: true
+        });
+      } catch (error) {
+        this.logger.warn('Error parsing Axiom token:', error, token);
+      }
+    }
+
+    this.logger.info(`Successfully parsed ${tokens.length} migrated tokens from Axiom`);
+    return tokens;
+  }
+}
@@ -1,6 +1,11 @@
 import axios from 'axios';
 import { Logger } from '../utils/Logger';
-import { MigratedToken } from '../types';
+import { CircuitOpenError } from '../utils/CircuitBreaker';
+import { UpstreamClient, UpstreamClientOptions } from './UpstreamClient';
+import { LeaderboardRecorder, LeaderboardReplay } from './LeaderboardFixtures';
+import { SchemaDriftMonitor } from './SchemaDriftMonitor';
+import { Schema, any, array, boolean, date, number, object, optional, parseDate, string } from '../utils/schema';
+import { MigratedToken, CrawlStats, TokenSource, TokenSnapshot, SchemaDriftReport } from '../types';
 
 interface BagsApiToken {
   tokenAddress: string;
@@ -47,49 +52,199 @@ interface BagsApiResponse {
   };
 }
 
-export class BagsFmScraper {
+const TOKEN_SCHEMA: Schema = object({
+  tokenAddress: string(),
+  name: string(),
+  symbol: string(),
+  description: optional(string()),
+  image: optional(string()),
+  createdAt: date(),
+  migratedAt: optional(date()),
+  launchedAt: optional(date()),
+  bondingCompletedAt: optional(date()),
+  completedAt: optional(date()),
+  marketCap: optional(number()),
+  price: optional(number()),
+  volume24h: optional(number()),
+  totalRaised: optional(number()),
+  fundingGoal: optional(number()),
+  bondingCurve: optional(object({
+    completed: boolean(),
+    progress: number(),
+    completedAt: optional(date()),
+    totalRaised: optional(number())
+  })),
+  creator: optional(string()),
+  website: optional(string()),
+  twitter: optional(string()),
+  telegram: optional(string()),
+  migrated: optional(boolean()),
+  launched: optional(boolean())
+});
+
+// The leaderboard has been served in both shapes; each response is checked against the one it claims to be
+const RESPONSE_SCHEMA: Schema = object({
+  success: boolean(),
+  response: array(TOKEN_SCHEMA)
+});
+
+const LEGACY_RESPONSE_SCHEMA: Schema = object({
+  success: boolean(),
+  data: object({
+    leaderboard: array(TOKEN_SCHEMA),
+    pagination: object({
+      currentPage: number(),
+      totalPages: number(),
+      totalCount: number(),
+      hasNext: boolean(),
+      hasPrev: boolean()
+    })
+  })
+});
+
+// Error responses only need to say so
+const ERROR_RESPONSE_SCHEMA: Schema = object({
+  success: boolean(),
+  error: optional(any()),
+  message: optional(any())
+});
+
+export interface BagsFmScraperOptions {
+  baseUrl?: string;
+  siteUrl?: string; // Base of the token links on alerts
+  maxPages?: number;
+  maxTokenAgeHours?: number;
+  marketCapThreshold?: number;
+  recordDir?: string; // Save every crawled leaderboard response here as a fixture
+  replayDir?: string; // Read leaderboard responses from fixtures here instead of the API
+  upstream?: UpstreamClientOptions; // Retries and circuit breaker for API requests
+}
+
+export class BagsFmScraper implements TokenSource {
+  readonly name = 'bagsfm';
   private logger: Logger;
-  private baseUrl = 'https://api2.bags.fm/api/v1';
+  private baseUrl: string;
+  private siteUrl: string;
+  private maxPages: number;
+  private maxTokenAgeHours: number;
+  private marketCapThreshold: number;
+  private lastCrawlStats?: CrawlStats;
+  private recorder?: LeaderboardRecorder;
+  private replay?: LeaderboardReplay;
+  private schemaDrift = new SchemaDriftMonitor('bagsfm');
+  private http: UpstreamClient;
 
-  constructor() {
+  constructor(options: BagsFmScraperOptions = {}) {
     this.logger = new Logger('BagsFmScraper');
+    this.baseUrl = options.baseUrl || 'https://api2.bags.fm/api/v1';
+    this.siteUrl = options.siteUrl || 'https://bags.fm';
+    this.maxPages = options.maxPages ?? 5;
+    this.maxTokenAgeHours = options.maxTokenAgeHours ?? 48;
+    this.marketCapThreshold = options.marketCapThreshold ?? 100000;
+    if (options.recordDir && options.replayDir) {
+      throw new Error('bags.fm responses can be recorded or replayed, not both');
+    }
+    this.recorder = options.recordDir ? new LeaderboardRecorder(options.recordDir) : undefined;
+    this.replay = options.replayDir ? new LeaderboardReplay(options.replayDir) : undefined;
+    this.http = new UpstreamClient('bagsfm', options.upstream);
+  }
+
+  getLastCrawlStats(): CrawlStats | undefined {
+    return this.lastCrawlStats;
   }
 
-  async getNewMigrations(): Promise<MigratedToken[]> {
+  getLastSchemaDrift(): SchemaDriftReport | undefined {
+    return this.schemaDrift.getLastReport();
+  }
+
+  /**
+   * Walks the leaderboard page by page. Crawling stops once a page only holds
+   * tokens we already know about (per `isKnown`), once every token on a page is
+   * older than the age cap, or once the page cap is reached.
+   */
+  async getNewMigrations(isKnown?: (token: MigratedToken) => Promise<boolean>): Promise<MigratedToken[]> {
+    const startedAt = Date.now();
+    const stats: CrawlStats = {
+      pagesCrawled: 0,
+      totalPages: 0,
+      itemsFetched: 0,
+      itemsQualified: 0,
+      stopReason: 'last-page',
+      durationMs: 0,
+      finishedAt: new Date()
+    };
+    const tokens: MigratedToken[] = [];
+    const seenAddresses = new Set<string>();
+    const ageCutoff = Date.now() - this.maxTokenAgeHours * 60 * 60 * 1000;
+
     try {
-      this.logger.info('Fetching migrated tokens from bags.fm API...');
-      
-      const response = await axios.get<BagsApiResponse>(`${this.baseUrl}/token-launch/leaderboard`, {
-        headers: {
-          'Accept': 'application/json',
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-        },
-        timeout: 30000 // 30 seconds timeout
-      });
-
-      if (!response.data.success) {
-        this.logger.warn('API returned success: false');
-        this.logger.debug('API Response:', JSON.stringify(response.data, null, 2));
-        return [];
-      }
+      this.logger.info(this.replay ? 'Replaying recorded bags.fm leaderboard...' : 'Fetching migrated tokens from bags.fm API...');
+      await this.recorder?.startCrawl();
+      await this.replay?.startCrawl();
+      this.schemaDrift.startCrawl();
 
-      // Handle both response formats
-      let tokenList: BagsApiToken[] = [];
-      if (response.data.response) {
-        // New format: response is directly in 'response' field
-        tokenList = response.data.response;
-      } else if (response.data.data?.leaderboard) {
-        // Old format: response is in 'data.leaderboard' field
-        tokenList = response.data.data.leaderboard;
-      } else {
-        this.logger.warn('No token data found in API response');
-        this.logger.debug('API Response:', JSON.stringify(response.data, null, 2));
-        return [];
-      }
+      let page = 1;
+      while (true) {
+        const result = await this.fetchPage(page, true);
+        if (!result) {
+          stats.stopReason = 'error';
+          stats.error = `page ${page} returned no token data`;
+          break;
+        }
+
+        stats.pagesCrawled++;
+        stats.totalPages = result.totalPages;
+        stats.itemsFetched += result.tokens.length;
+
+        const parsed = this.parseTokenLaunches(result.tokens);
+        let knownOnPage = 0;
+        for (const token of parsed) {
+          // Leaderboard pages can shift while we crawl, so the same token may show up twice
+          const key = token.contractAddress || token.id;
+          if (seenAddresses.has(key)) {
+            continue;
+          }
+          seenAddresses.add(key);
+          tokens.push(token);
+
+          if (isKnown && await isKnown(token)) {
+            knownOnPage++;
+          }
+        }
+        stats.itemsQualified = tokens.length;
+
+        if (!result.hasNext || result.tokens.length === 0) {
+          stats.stopReason = 'last-page';
+          break;
+        }
+
+        if (isKnown && parsed.length > 0 && knownOnPage === parsed.length) {
+          stats.stopReason = 'reached-known-tokens';
+          break;
+        }
 
-      return this.parseTokenLaunches(tokenList);
+        const allTooOld = result.tokens.every(token => {
+          const createdAt = token.createdAt ? new Date(token.createdAt).getTime() : NaN;
+          return !isNaN(createdAt) && createdAt < ageCutoff;
+        });
+        if (allTooOld) {
+          stats.stopReason = 'age-cap';
+          break;
+        }
+
+        if (page >= this.maxPages) {
+          stats.stopReason = 'page-cap';
+          break;
+        }
+
+        page++;
+      }
     } catch (error) {
-      if (axios.isAxiosError(error)) {
+      stats.stopReason = 'error';
+      stats.error = (error as Error).message;
+      if (error instanceof CircuitOpenError) {
+        this.logger.warn(`Skipping bags.fm: ${error.message}`);
+      } else if (axios.isAxiosError(error)) {
         this.logger.error('Failed to fetch from bags.fm API:', error.message);
         this.logger.debug('API Error details:', {
           status: error.response?.status,
@@ -99,8 +254,99 @@ export class BagsFmScraper {
       } else {
         this.logger.error('Unexpected error:', error);
       }
-      return [];
     }
+
+    this.schemaDrift.finishCrawl();
+    stats.durationMs = Date.now() - startedAt;
+    stats.finishedAt = new Date();
+    this.lastCrawlStats = stats;
+    this.logger.info(
+      `Crawled ${stats.pagesCrawled}/${stats.totalPages || '?'} leaderboard pages ` +
+      `(${stats.itemsFetched} fetched, ${stats.itemsQualified} qualifying, stopped: ${stats.stopReason})`
+    );
+
+    return tokens;
+  }
+
+  /**
+   * Looks `contractAddress` up on the leaderboard, scanning no further than the
+   * crawl's page cap. Used to refresh the numbers on an alert on demand.
+   */
+  async fetchSnapshot(contractAddress: string): Promise<TokenSnapshot | undefined> {
+    for (let page = 1; page <= this.maxPages; page++) {
+      const result = await this.fetchPage(page);
+      if (!result) {
+        throw new Error(`bags.fm leaderboard page ${page} returned no data`);
+      }
+
+      const token = result.tokens.find(t => t.tokenAddress === contractAddress);
+      if (token) {
+        return {
+          timestamp: new Date(),
+          marketCap: this.estimateMarketCap(token),
+          price: token.price,
+          volume24h: token.volume24h
+        };
+      }
+
+      if (!result.hasNext) {
+        return undefined;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Fetches and unpacks one leaderboard page. Only crawls record their
+   * responses and check them against the schema, so refreshing an alert
+   * doesn't overwrite a crawl's fixtures or skew its drift report.
+   */
+  private async fetchPage(page: number, crawl: boolean = false): Promise<{ tokens: BagsApiToken[]; totalPages: number; hasNext: boolean } | null> {
+    const data = await this.requestPage(page);
+    if (crawl) {
+      await this.recorder?.record(page, data);
+      this.schemaDrift.check(data?.success === false ? ERROR_RESPONSE_SCHEMA : data?.data && !data.response ? LEGACY_RESPONSE_SCHEMA : RESPONSE_SCHEMA, data);
+    }
+
+    if (data?.success === false) {
+      this.logger.warn('API returned success: false');
+      this.logger.debug('API Response:', JSON.stringify(data, null, 2));
+      return null;
+    }
+
+    // Handle both response formats
+    if (Array.isArray(data?.response)) {
+      // New format: response is directly in 'response' field, without pagination
+      return { tokens: data.response, totalPages: 1, hasNext: false };
+    } else if (Array.isArray(data?.data?.leaderboard)) {
+      // Old format: response is in 'data.leaderboard' field
+      const pagination = data.data.pagination;
+      return {
+        tokens: data.data.leaderboard,
+        totalPages: pagination?.totalPages ?? page,
+        hasNext: Boolean(pagination?.hasNext)
+      };
+    }
+
+    this.logger.warn('No token data found in API response');
+    this.logger.debug('API Response:', JSON.stringify(data, null, 2));
+    return null;
+  }
+
+  private async requestPage(page: number): Promise<BagsApiResponse> {
+    if (this.replay) {
+      return await this.replay.page(page) as BagsApiResponse;
+    }
+
+    return await this.http.get<BagsApiResponse>(`${this.baseUrl}/token-launch/leaderboard`, {
+      params: { page },
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
+      },
+      timeout: 30000 // 30 seconds timeout
+    });
   }
 
   private parseTokenLaunches(tokenList: BagsApiToken[]): MigratedToken[] {
@@ -115,64 +361,47 @@ export class BagsFmScraper {
 
     for (const token of tokenList) {
       try {
-        // Calculate market cap if not provided (price * total supply estimate)
-        let marketCap = token.marketCap;
-        if (!marketCap && token.price) {
-          // Most meme tokens have 1B supply, this is an estimate
-          marketCap = token.price * 1000000000;
-        }
+        const marketCap = this.estimateMarketCap(token);
 
         // Check if token qualifies for notification:
         // 1. Has completed bonding/migration (traditional migration)
-        // 2. OR has crossed 100k market cap threshold (new launch success)
+        // 2. OR has crossed the market cap threshold (new launch success, 100k by default)
         const hasCompletedBonding = token.bondingCurve?.completed || 
                                   token.migrated || 
                                   token.migratedAt || 
                                   token.bondingCompletedAt || 
                                   token.completedAt;
         
-        const hasCrossed100kMcap = marketCap && marketCap >= 100000;
+        const hasCrossedMcapThreshold = marketCap && marketCap >= this.marketCapThreshold;
         
         // Only include tokens that meet our criteria
-        if (!hasCompletedBonding && !hasCrossed100kMcap) {
-          this.logger.debug(`Skipping token ${token.symbol}: Not migrated and mcap ${marketCap ? '$' + (marketCap / 1000).toFixed(0) + 'k' : 'unknown'} < $100k`);
+        if (!hasCompletedBonding && !hasCrossedMcapThreshold) {
+          this.logger.debug(`Skipping token ${token.symbol}: Not migrated and mcap ${marketCap ? '$' + (marketCap / 1000).toFixed(0) + 'k' : 'unknown'} < $${(this.marketCapThreshold / 1000).toFixed(0)}k`);
           continue;
         }
 
         // Log why this token was included
         if (hasCompletedBonding) {
           this.logger.debug(`Including token ${token.symbol}: Completed bonding/migration`);
-        } else if (hasCrossed100kMcap) {
-          this.logger.debug(`Including token ${token.symbol}: Crossed 100k mcap threshold ($${(marketCap! / 1000).toFixed(0)}k)`);
+        } else if (hasCrossedMcapThreshold) {
+          this.logger.debug(`Including token ${token.symbol}: Crossed mcap threshold ($${(marketCap! / 1000).toFixed(0)}k)`);
         }
 
         // Use the actual bonding completion date if available, otherwise token creation date
-        let migrationDate = new Date();
-        let createdDate = new Date();
-        let dateSource = 'current';
-        
-        if (token.createdAt) {
-          createdDate = new Date(token.createdAt);
-        }
-        
-        if (token.bondingCurve?.completedAt) {
-          migrationDate = new Date(token.bondingCurve.completedAt);
-          dateSource = 'bondingCurve.completedAt';
-        } else if (token.migratedAt) {
-          migrationDate = new Date(token.migratedAt);
-          dateSource = 'migratedAt';
-        } else if (token.launchedAt) {
-          migrationDate = new Date(token.launchedAt);
-          dateSource = 'launchedAt';
-        } else if (token.bondingCompletedAt) {
-          migrationDate = new Date(token.bondingCompletedAt);
-          dateSource = 'bondingCompletedAt';
-        } else if (token.completedAt) {
-          migrationDate = new Date(token.completedAt);
-          dateSource = 'completedAt';
-        } else if (token.createdAt) {
-          migrationDate = new Date(token.createdAt);
-          dateSource = 'createdAt';
+        const createdDate = parseDate(token.createdAt);
+        const [dateSource, migrationDate] = ([
+          ['bondingCurve.completedAt', parseDate(token.bondingCurve?.completedAt)],
+          ['migratedAt', parseDate(token.migratedAt)],
+          ['launchedAt', parseDate(token.launchedAt)],
+          ['bondingCompletedAt', parseDate(token.bondingCompletedAt)],
+          ['completedAt', parseDate(token.completedAt)],
+          ['createdAt', createdDate]
+        ] as [string, Date | undefined][]).find(([, date]) => date) || [];
+
+        // Without any date the alert would claim the token migrated just now; the schema report flags the missing field
+        if (!migrationDate) {
+          this.logger.warn(`Skipping token ${token.symbol}: no valid migration or creation date`);
+          continue;
         }
 
         // Calculate bonding duration in hours
@@ -197,14 +426,21 @@ export class BagsFmScraper {
           migrationDate: migrationDate,
           createdAt: createdDate,
           fromChain: 'Solana',
-          toChain: hasCrossed100kMcap ? 'Bags.fm 100k+ Launch' : 'Bags.fm Launch',
+          toChain: hasCrossedMcapThreshold ? 'Bags.fm 100k+ Launch' : 'Bags.fm Launch',
           marketCap: marketCap,
           price: token.price,
           volume24h: token.volume24h,
           totalRaised: totalRaised,
           bondingDuration: bondingDuration,
-          url: `https://bags.fm/token/${token.tokenAddress}`,
+          url: `${this.siteUrl}/token/${token.tokenAddress}`,
+          description: token.description,
           image: token.image,
+          creator: token.creator,
+          website: token.website || undefined,
+          twitter: token.twitter || undefined,
+          telegram: token.telegram || undefined,
+          // Leaderboard entries that leave the link fields out entirely say nothing about a token's socials
+          socialsReported: ['website', 'twitter', 'telegram'].some(field => field in token),
           bondingCompleted: Boolean(hasCompletedBonding)
         };
 
@@ -217,4 +453,13 @@ export class BagsFmScraper {
     this.logger.info(`Successfully parsed ${tokens.length} qualifying tokens`);
     return tokens;
   }
+
+  // Calculate market cap if not provided (price * total supply estimate)
+  private estimateMarketCap(token: BagsApiToken): number | undefined {
+    if (!token.marketCap && token.price) {
+      // Most meme tokens have 1B supply, this is an estimate
+      return token.price * 1000000000;
+    }
+    return token.marketCap;
+  }
 }
@@ -0,0 +1,126 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { Logger } from '../utils/Logger';
+
+// crawl-0003-page-2.json: page 2 of the third recorded crawl
+const FIXTURE_PATTERN = /^crawl-(\d+)-page-(\d+)\.json$/;
+
+function fixtureName(crawl: number, page: number): string {
+  return `crawl-${String(crawl).padStart(4, '0')}-page-${page}.json`;
+}
+
+async function listCrawls(dir: string): Promise<Map<number, Map<number, string>>> {
+  const crawls = new Map<number, Map<number, string>>();
+
+  for (const file of await fs.readdir(dir)) {
+    const match = file.match(FIXTURE_PATTERN);
+    if (!match) {
+      continue;
+    }
+    const crawl = parseInt(match[1]);
+    if (!crawls.has(crawl)) {
+      crawls.set(crawl, new Map());
+    }
+    crawls.get(crawl)!.set(parseInt(match[2]), path.join(dir, file));
+  }
+
+  return crawls;
+}
+
+/**
+ * Saves the raw leaderboard responses of each crawl to `dir`, numbering
+ * crawls after any already recorded there. Failing to write a fixture is
+ * logged and never interrupts the crawl.
+ */
+export class LeaderboardRecorder {
+  private dir: string;
+  private logger: Logger;
+  private crawl = 0;
+
+  constructor(dir: string) {
+    this.dir = dir;
+    this.logger = new Logger('LeaderboardRecorder');
+  }
+
+  async startCrawl(): Promise<void> {
+    try {
+      if (this.crawl === 0) {
+        await fs.mkdir(this.dir, { recursive: true });
+        this.crawl = Math.max(0, ...(await listCrawls(this.dir)).keys());
+      }
+      this.crawl++;
+    } catch (error) {
+      this.logger.warn(`Failed to prepare fixture directory ${this.dir}:`, error);
+    }
+  }
+
+  async record(page: number, body: unknown): Promise<void> {
+    if (this.crawl === 0) {
+      return;
+    }
+
+    const file = path.join(this.dir, fixtureName(this.crawl, page));
+    try {
+      await fs.writeFile(file, JSON.stringify(body, null, 2) + '\n');
+      this.logger.debug(`Recorded leaderboard page ${page} to ${file}`);
+    } catch (error) {
+      this.logger.warn(`Failed to record leaderboard page ${page} to ${file}:`, error);
+    }
+  }
+}
+
+/**
+ * Serves leaderboard responses recorded by `LeaderboardRecorder` in place of
+ * the API: each crawl reads the next recorded crawl, and once they run out
+ * the last one is repeated, like a leaderboard that stopped changing.
+ */
+export class LeaderboardReplay {
+  private dir: string;
+  private logger: Logger;
+  private crawls?: Map<number, string>[];
+  private index = -1;
+  private exhausted = false;
+
+  constructor(dir: string) {
+    this.dir = dir;
+    this.logger = new Logger('LeaderboardReplay');
+  }
+
+  async crawlCount(): Promise<number> {
+    return (await this.load()).length;
+  }
+
+  async startCrawl(): Promise<void> {
+    const crawls = await this.load();
+    if (this.index === crawls.length - 1) {
+      if (!this.exhausted) {
+        this.logger.info(`Replayed all ${crawls.length} recorded crawl(s) from ${this.dir}; repeating the last one`);
+        this.exhausted = true;
+      }
+      return;
+    }
+    this.index++;
+  }
+
+  /** The recorded response for `page` of the current crawl (the first one before any crawl started). */
+  async page(page: number): Promise<unknown> {
+    const crawls = await this.load();
+    const crawl = Math.max(this.index, 0);
+    const file = crawls[crawl].get(page);
+    if (!file) {
+      throw new Error(`No fixture for page ${page} of recorded crawl ${crawl + 1} in ${this.dir}`);
+    }
+    return JSON.parse(await fs.readFile(file, 'utf-8'));
+  }
+
+  private async load(): Promise<Map<number, string>[]> {
+    if (!this.crawls) {
+      const crawls = await listCrawls(this.dir);
+      if (crawls.size === 0) {
+        throw new Error(`No leaderboard fixtures (crawl-NNNN-page-N.json) in ${this.dir}`);
+      }
+      this.crawls = Array.from(crawls.keys()).sort((a, b) => a - b).map(crawl => crawls.get(crawl)!);
+    }
+    return this.crawls;
+  }
+}
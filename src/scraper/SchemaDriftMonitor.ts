@@ -0,0 +1,149 @@
+import { Logger } from '../utils/Logger';
+import { Schema, SchemaIssue, validate } from '../utils/schema';
+import { SchemaDriftEntry, SchemaDriftReport } from '../types';
+
+// Keeps drift alerts readable when a whole page changes shape
+const MAX_SAMPLE_LINES = 12;
+const MAX_VALUE_LENGTH = 60;
+
+/**
+ * Validates a source's API responses against its declared schema over one
+ * crawl, counting each kind of issue per field and keeping a diff of the first
+ * response that didn't match.
+ */
+export class SchemaDriftMonitor {
+  private source: string;
+  private logger: Logger;
+  private issues = new Map<string, SchemaDriftEntry>();
+  private payloadsChecked = 0;
+  private sample: string[] = [];
+  private lastReport?: SchemaDriftReport;
+
+  constructor(source: string) {
+    this.source = source;
+    this.logger = new Logger('SchemaDriftMonitor', { source });
+  }
+
+  startCrawl(): void {
+    this.issues.clear();
+    this.payloadsChecked = 0;
+    this.sample = [];
+  }
+
+  /** Checks one response; returns whether it matched the schema. */
+  check(schema: Schema, payload: unknown, path: string = ''): boolean {
+    const issues = validate(schema, payload, path);
+    this.payloadsChecked++;
+
+    for (const issue of issues) {
+      const key = `${issue.kind}:${issue.path}`;
+      const entry = this.issues.get(key);
+      if (entry) {
+        entry.count++;
+      } else {
+        this.issues.set(key, { kind: issue.kind, path: issue.path, expected: issue.expected, actual: issue.actual, count: 1 });
+      }
+    }
+
+    if (issues.length > 0 && this.sample.length === 0) {
+      this.sample = sampleDiff(issues);
+    }
+    return issues.length === 0;
+  }
+
+  /** Wraps up the crawl. Crawls that never got a response produce no report. */
+  finishCrawl(): SchemaDriftReport | undefined {
+    if (this.payloadsChecked === 0) {
+      return undefined;
+    }
+
+    const report: SchemaDriftReport = {
+      source: this.source,
+      payloadsChecked: this.payloadsChecked,
+      issues: Array.from(this.issues.values()).sort((a, b) => b.count - a.count || a.path.localeCompare(b.path)),
+      sample: this.sample,
+      checkedAt: new Date()
+    };
+    this.lastReport = report;
+
+    if (report.issues.length > 0) {
+      this.logger.warn(
+        `Responses don't match the declared schema: ${report.issues.length} issue(s) in ${report.payloadsChecked} response(s)`,
+        report.issues.slice(0, MAX_SAMPLE_LINES)
+      );
+    }
+    return report;
+  }
+
+  getLastReport(): SchemaDriftReport | undefined {
+    return this.lastReport;
+  }
+}
+
+/**
+ * Renders a response's issues as diff lines: `-` for missing fields, `+` for
+ * undeclared ones and `~` for type changes. Issues repeated across the items
+ * of a list are shown once.
+ */
+function sampleDiff(issues: SchemaIssue[]): string[] {
+  const seen = new Set<string>();
+  const lines: string[] = [];
+
+  for (const issue of issues) {
+    const key = `${issue.kind}:${issue.path}`;
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+
+    const path = issue.path || '(response)';
+    switch (issue.kind) {
+      case 'missing':
+        lines.push(`- ${path} (${issue.expected})`);
+        break;
+      case 'unknown':
+        lines.push(`+ ${path}: ${preview(issue.value)}`);
+        break;
+      case 'type':
+        lines.push(`~ ${path}: ${issue.expected} -> ${issue.actual} ${preview(issue.value)}`);
+        break;
+    }
+  }
+
+  return lines.length > MAX_SAMPLE_LINES
+    ? [...lines.slice(0, MAX_SAMPLE_LINES), `... and ${lines.length - MAX_SAMPLE_LINES} more`]
+    : lines;
+}
+
+function preview(value: unknown): string {
+  let text: string;
+  try {
+    text = JSON.stringify(value) ?? String(value);
+  } catch {
+    text = String(value);
+  }
+  return text.length > MAX_VALUE_LENGTH ? text.substring(0, MAX_VALUE_LENGTH) + '...' : text;
+}
+
+const ISSUE_LABELS: Record<SchemaDriftEntry['kind'], string> = {
+  missing: 'missing',
+  unknown: 'new field',
+  type: 'type changed'
+};
+
+/** Plain-text summary of a drift report for admin alerts and the CLI. */
+export function describeSchemaDrift(report: SchemaDriftReport): string {
+  const lines = report.issues.slice(0, MAX_SAMPLE_LINES).map(issue =>
+    `• ${ISSUE_LABELS[issue.kind]}: ${issue.path || '(response)'}` +
+    (issue.kind === 'type' ? ` (${issue.expected} -> ${issue.actual})` : issue.kind === 'missing' ? ` (${issue.expected})` : '') +
+    ` ×${issue.count}`
+  );
+  if (report.issues.length > MAX_SAMPLE_LINES) {
+    lines.push(`• ... and ${report.issues.length - MAX_SAMPLE_LINES} more`);
+  }
+
+  return `⚠️ Schema drift: ${report.source} API responses no longer match the declared schema ` +
+    `(${report.issues.length} issue(s) in ${report.payloadsChecked} response(s)).\n\n` +
+    `${lines.join('\n')}\n\nSample diff:\n${report.sample.join('\n')}\n\n` +
+    `Alerts from ${report.source} may be missing or wrong until the scraper is updated.`;
+}
@@ -0,0 +1,105 @@
+import axios, { AxiosRequestConfig } from 'axios';
+import { Logger } from '../utils/Logger';
+import { CircuitBreaker, CircuitState } from '../utils/CircuitBreaker';
+
+export interface UpstreamClientOptions {
+  retries?: number; // Extra attempts after a transient failure
+  baseDelayMs?: number; // First backoff; it doubles with every retry
+  maxDelayMs?: number; // Longest single wait, for backoff and Retry-After alike
+  circuitThreshold?: number; // Consecutive failed requests that open the circuit; 0 never opens it
+  circuitResetMs?: number; // How long an open circuit rejects requests
+}
+
+/**
+ * GETs JSON from a token source's API. Transient failures (network errors,
+ * timeouts, 408, 429 and 5xx) are retried with jittered exponential backoff,
+ * honouring `Retry-After`, and a circuit breaker stops requests for a while
+ * once requests keep failing after their retries.
+ */
+export class UpstreamClient {
+  private logger: Logger;
+  private retries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private breaker: CircuitBreaker;
+
+  constructor(name: string, options: UpstreamClientOptions = {}) {
+    this.logger = new Logger('UpstreamClient', { source: name });
+    this.retries = options.retries ?? 3;
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 30000;
+    this.breaker = new CircuitBreaker(name, {
+      failureThreshold: options.circuitThreshold ?? 5,
+      resetTimeoutMs: options.circuitResetMs ?? 5 * 60 * 1000,
+      retryAfterMs
+    });
+  }
+
+  get circuitState(): CircuitState {
+    return this.breaker.state;
+  }
+
+  /** Throws the last error once retries run out, or `CircuitOpenError` while the circuit is open. */
+  async get<T>(url: string, config: AxiosRequestConfig = {}): Promise<T> {
+    return this.breaker.run(() => this.getWithRetries<T>(url, config));
+  }
+
+  private async getWithRetries<T>(url: string, config: AxiosRequestConfig): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await axios.get<T>(url, config);
+        return response.data;
+      } catch (error) {
+        if (attempt >= this.retries || !isTransient(error)) {
+          throw error;
+        }
+
+        // A longer pause than we're willing to wait is left to the circuit breaker, which opens for that long
+        const requested = retryAfterMs(error);
+        if (requested !== undefined && requested > this.maxDelayMs) {
+          throw error;
+        }
+
+        const backoff = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt);
+        const delay = requested ?? backoff / 2 + Math.random() * backoff / 2;
+        this.logger.warn(`Request failed (${describe(error)}); retry ${attempt + 1}/${this.retries} in ${Math.round(delay)}ms`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+}
+
+function isTransient(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+  if (!error.response) {
+    // No response at all: connection refused or reset, DNS failure, timeout
+    return true;
+  }
+  const status = error.response.status;
+  return status === 408 || status === 429 || status >= 500;
+}
+
+// Retry-After holds either a number of seconds or an HTTP date
+function retryAfterMs(error: unknown): number | undefined {
+  if (!axios.isAxiosError(error) || (error.response?.status !== 429 && error.response?.status !== 503)) {
+    return undefined;
+  }
+  const header = error.response.headers?.['retry-after'];
+  if (typeof header !== 'string' || !header.trim()) {
+    return undefined;
+  }
+  if (/^\d+$/.test(header.trim())) {
+    return parseInt(header, 10) * 1000;
+  }
+  const at = Date.parse(header);
+  return isNaN(at) ? undefined : Math.max(0, at - Date.now());
+}
+
+function describe(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    return error.response ? `HTTP ${error.response.status}` : error.code || error.message;
+  }
+  return (error as Error).message;
+}
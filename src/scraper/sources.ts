@@ -0,0 +1,123 @@
+import { Logger } from '../utils/Logger';
+import { BagsFmScraper } from './BagsFmScraper';
+import { AxiomScraper } from './AxiomScraper';
+import { changedSettings } from '../bot/config';
+import { BotConfig, MigratedToken, TokenSource } from '../types';
+
+// Settings each source is built from; a reload only rebuilds sources whose settings changed
+const UPSTREAM_SETTINGS: (keyof BotConfig)[] = ['sourceRetries', 'sourceCircuitThreshold', 'sourceCircuitResetSeconds'];
+const SOURCE_SETTINGS: Record<string, (keyof BotConfig)[]> = {
+  bagsfm: [
+    ...UPSTREAM_SETTINGS, 'bagsFmApiUrl', 'bagsFmUrl', 'maxLeaderboardPages', 'maxTokenAgeHours',
+    'marketCapThreshold', 'bagsFmRecordDir', 'bagsFmReplayDir'
+  ],
+  axiom: [...UPSTREAM_SETTINGS, 'axiomApiUrl', 'axiomApiKey', 'bagsFmUrl']
+};
+
+/**
+ * Creates the token sources named in `TOKEN_SOURCES`. Unknown names are
+ * skipped with a warning; having none left is a configuration error.
+ */
+export function createSources(config: BotConfig): TokenSource[] {
+  return reloadSources([], config, config);
+}
+
+/**
+ * Creates the sources for `next`, keeping every source in `current` whose
+ * settings are the same in `previous` and `next`. Kept sources hold on to
+ * their circuit breakers, crawl statistics and schema drift reports.
+ */
+export function reloadSources(current: TokenSource[], previous: BotConfig, next: BotConfig): TokenSource[] {
+  const logger = new Logger('sources');
+  const changed = changedSettings(previous, next);
+  const sources: TokenSource[] = [];
+
+  for (const name of next.tokenSources) {
+    const existing = current.find(source => source.name === name);
+    if (existing && !SOURCE_SETTINGS[name]?.some(key => changed.includes(key))) {
+      sources.push(existing);
+      continue;
+    }
+
+    const source = createSource(name, next);
+    if (source) {
+      sources.push(source);
+    } else {
+      logger.warn(`Ignoring unknown token source: ${name}`);
+    }
+  }
+
+  if (sources.length === 0) {
+    throw new Error('No valid token sources configured (TOKEN_SOURCES)');
+  }
+
+  return sources;
+}
+
+function createSource(name: string, config: BotConfig): TokenSource | undefined {
+  const upstream = {
+    retries: config.sourceRetries,
+    circuitThreshold: config.sourceCircuitThreshold,
+    circuitResetMs: config.sourceCircuitResetSeconds * 1000
+  };
+
+  switch (name) {
+    case 'bagsfm':
+      return new BagsFmScraper({
+        baseUrl: config.bagsFmApiUrl,
+        siteUrl: config.bagsFmUrl,
+        maxPages: config.maxLeaderboardPages,
+        maxTokenAgeHours: config.maxTokenAgeHours,
+        marketCapThreshold: config.marketCapThreshold,
+        recordDir: config.bagsFmRecordDir,
+        replayDir: config.bagsFmReplayDir,
+        upstream
+      });
+    case 'axiom':
+      return new AxiomScraper({
+        baseUrl: config.axiomApiUrl,
+        siteUrl: config.bagsFmUrl,
+        apiKey: config.axiomApiKey,
+        upstream
+      });
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Merges one poll's results by contract address. A token reported by several
+ * sources keeps the first source's data, gaps are filled from the others, and
+ * every reporting source is recorded in `firstSeenBy`.
+ */
+export function mergeSourceResults(results: { source: TokenSource; tokens: MigratedToken[] }[]): MigratedToken[] {
+  const logger = new Logger('sources');
+  const merged = new Map<string, MigratedToken>();
+
+  for (const { source, tokens } of results) {
+    logger.debug(`Source ${source.name} returned ${tokens.length} tokens`);
+
+    for (const token of tokens) {
+      // Solana addresses are case-sensitive base58; ids are only unique within their source
+      const key = token.contractAddress || `${source.name}:${token.id}`;
+      const existing = merged.get(key);
+
+      if (!existing) {
+        merged.set(key, { ...token, firstSeenBy: [source.name] });
+        continue;
+      }
+
+      for (const [field, value] of Object.entries(token)) {
+        const target = existing as unknown as Record<string, unknown>;
+        if (target[field] === undefined && value !== undefined) {
+          target[field] = value;
+        }
+      }
+      if (!existing.firstSeenBy!.includes(source.name)) {
+        existing.firstSeenBy!.push(source.name);
+      }
+    }
+  }
+
+  return Array.from(merged.values());
+}
@@ -0,0 +1,113 @@
+import http from 'http';
+import https from 'https';
+import fs from 'fs';
+import { Logger } from '../utils/Logger';
+
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+  tlsCertPath?: string;
+  tlsKeyPath?: string;
+}
+
+export type RouteHandler = (req: http.IncomingMessage, res: http.ServerResponse, url: URL) => void | Promise<void>;
+
+interface Route {
+  method: string;
+  path: string;
+  handler: RouteHandler;
+}
+
+/**
+ * The bot's single embedded HTTP(S) server. The Telegram webhook and the
+ * status API register their routes here so they can share one port.
+ */
+export class HttpServer {
+  private options: HttpServerOptions;
+  private logger: Logger;
+  private routes: Route[] = [];
+  private server?: http.Server | https.Server;
+
+  constructor(options: HttpServerOptions) {
+    this.options = options;
+    this.logger = new Logger('HttpServer');
+  }
+
+  get isTls(): boolean {
+    return Boolean(this.options.tlsCertPath && this.options.tlsKeyPath);
+  }
+
+  route(method: string, path: string, handler: RouteHandler): void {
+    this.routes.push({ method: method.toUpperCase(), path, handler });
+  }
+
+  async start(): Promise<void> {
+    const listener = (req: http.IncomingMessage, res: http.ServerResponse) => this.handleRequest(req, res);
+
+    this.server = this.isTls
+      ? https.createServer({
+          cert: fs.readFileSync(this.options.tlsCertPath!),
+          key: fs.readFileSync(this.options.tlsKeyPath!)
+        }, listener)
+      : http.createServer(listener);
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.options.port, this.options.host, () => {
+        this.server!.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.logger.info(
+      `HTTP server listening on ${this.isTls ? 'https' : 'http'}://${this.options.host}:${this.options.port} ` +
+      `(${this.routes.map(route => route.path).join(', ')})`
+    );
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    this.server = undefined;
+    this.logger.info('HTTP server stopped');
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const routes = this.routes.filter(route => route.path === url.pathname);
+
+    if (routes.length === 0) {
+      sendText(res, 404, 'Not Found');
+      return;
+    }
+
+    const route = routes.find(candidate => candidate.method === req.method);
+    if (!route) {
+      res.setHeader('Allow', routes.map(candidate => candidate.method).join(', '));
+      sendText(res, 405, 'Method Not Allowed');
+      return;
+    }
+
+    try {
+      await route.handler(req, res, url);
+    } catch (error) {
+      this.logger.error(`Request handler for ${req.method} ${url.pathname} failed:`, error);
+      sendText(res, 500, 'Internal Server Error');
+    }
+  }
+}
+
+export function sendText(res: http.ServerResponse, status: number, body: string, contentType: string = 'text/plain'): void {
+  if (res.headersSent) {
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': contentType });
+  res.end(body);
+}
+
+export function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  sendText(res, status, JSON.stringify(body, null, 2), 'application/json');
+}
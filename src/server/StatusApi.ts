@@ -0,0 +1,46 @@
+import { DatabaseManager } from '../database/DatabaseManager';
+import { HealthReport } from '../types';
+import { HttpServer, sendJson, sendText } from './HttpServer';
+
+export interface StatusApiOptions {
+  database: DatabaseManager;
+  getHealth: () => Promise<HealthReport>;
+  renderMetrics: () => Promise<string>;
+}
+
+const DEFAULT_MIGRATION_LIMIT = 20;
+const MAX_MIGRATION_LIMIT = 100;
+
+/**
+ * Read-only endpoints for monitoring: `/healthz` for liveness probes,
+ * `/api/migrations` for recent history and `/metrics` for Prometheus.
+ */
+export class StatusApi {
+  private options: StatusApiOptions;
+
+  constructor(options: StatusApiOptions) {
+    this.options = options;
+  }
+
+  register(server: HttpServer): void {
+    server.route('GET', '/healthz', async (_req, res) => {
+      const health = await this.options.getHealth();
+      sendJson(res, health.healthy ? 200 : 503, health);
+    });
+
+    server.route('GET', '/api/migrations', async (_req, res, url) => {
+      const requested = parseInt(url.searchParams.get('limit') || '');
+      const limit = Math.min(isNaN(requested) || requested < 1 ? DEFAULT_MIGRATION_LIMIT : requested, MAX_MIGRATION_LIMIT);
+
+      const [stats, migrations] = await Promise.all([
+        this.options.database.getStats(),
+        this.options.database.getRecentMigrations(limit)
+      ]);
+      sendJson(res, 200, { stats, migrations });
+    });
+
+    server.route('GET', '/metrics', async (_req, res) => {
+      sendText(res, 200, await this.options.renderMetrics(), 'text/plain; version=0.0.4');
+    });
+  }
+}
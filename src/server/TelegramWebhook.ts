@@ -0,0 +1,83 @@
+import http from 'http';
+import crypto from 'crypto';
+import TelegramBot from 'node-telegram-bot-api';
+import { Logger } from '../utils/Logger';
+import { HttpServer, sendText } from './HttpServer';
+
+// Telegram updates are small; anything bigger is not from Telegram
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Receives Telegram updates over HTTP(S) and hands them to the bot. Requests
+ * must POST JSON to the configured path and carry the secret token in the
+ * `X-Telegram-Bot-Api-Secret-Token` header.
+ */
+export class TelegramWebhook {
+  private bot: TelegramBot;
+  private secretToken: string;
+  private logger: Logger;
+
+  constructor(bot: TelegramBot, secretToken: string) {
+    this.bot = bot;
+    this.secretToken = secretToken;
+    this.logger = new Logger('TelegramWebhook');
+  }
+
+  register(server: HttpServer, path: string): void {
+    server.route('POST', path, (req, res) => this.handleRequest(req, res));
+  }
+
+  private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (!this.isAuthorized(req.headers['x-telegram-bot-api-secret-token'])) {
+      this.logger.warn(`Rejected webhook request with invalid secret token from ${req.socket.remoteAddress}`);
+      sendText(res, 401, 'Unauthorized');
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        sendText(res, 413, 'Payload Too Large');
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+
+    req.on('end', () => {
+      if (res.writableEnded) {
+        return;
+      }
+
+      let update: TelegramBot.Update;
+      try {
+        update = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+      } catch {
+        sendText(res, 400, 'Invalid JSON');
+        return;
+      }
+
+      // Acknowledge first so a slow handler never makes Telegram resend the update
+      sendText(res, 200, 'OK');
+
+      try {
+        this.bot.processUpdate(update);
+      } catch (error) {
+        this.logger.error('Failed to process webhook update:', error);
+      }
+    });
+  }
+
+  private isAuthorized(header: string | string[] | undefined): boolean {
+    if (typeof header !== 'string') {
+      return false;
+    }
+
+    const expected = Buffer.from(this.secretToken);
+    const received = Buffer.from(header);
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  }
+}
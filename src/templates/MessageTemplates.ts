@@ -0,0 +1,156 @@
+import fs from 'fs';
+import { Logger } from '../utils/Logger';
+import { MigratedToken, NotificationEvent, NotificationEventType } from '../types';
+import { Template, TemplateError } from './TemplateEngine';
+import { isHttpUrl, riskEmoji } from '../utils/format';
+import { BUILTIN_TEMPLATES, DEFAULT_TEMPLATE_NAME, FALLBACK_TEMPLATES, TemplateSet } from './defaults';
+
+/**
+ * Shape of the optional templates file (`TEMPLATES_FILE`).
+ */
+interface TemplatesFile {
+  default?: string;
+  chats?: Record<string, string>;
+  templates?: Record<string, TemplateSet>;
+}
+
+const URL_FIELDS = ['url', 'image', 'website', 'twitter', 'telegram'] as const;
+
+/**
+ * Named sets of alert templates, one template per event type. The built-in
+ * `detailed` and `terse` sets can be extended or overridden from a JSON file,
+ * which also picks the default set and per-chat overrides.
+ */
+export class MessageTemplates {
+  private logger: Logger;
+  private sets = new Map<string, Map<NotificationEventType, Template>>();
+  private defaultName = DEFAULT_TEMPLATE_NAME;
+  private chatTemplates = new Map<string, string>();
+
+  constructor(filePath?: string) {
+    this.logger = new Logger('MessageTemplates');
+
+    for (const [name, set] of Object.entries(BUILTIN_TEMPLATES)) {
+      this.addSet(name, set);
+    }
+
+    if (filePath) {
+      this.loadFile(filePath);
+    }
+  }
+
+  names(): string[] {
+    return Array.from(this.sets.keys());
+  }
+
+  has(name: string): boolean {
+    return this.sets.has(name);
+  }
+
+  templateNameFor(chatId?: string): string {
+    return (chatId && this.chatTemplates.get(chatId)) || this.defaultName;
+  }
+
+  /**
+   * Renders `event` with the named set, or the one configured for `chatId`.
+   * Event types a set leaves out fall back to the default set, then to the
+   * built-in detailed layout.
+   */
+  render(event: NotificationEvent, chatId?: string, templateName?: string): string {
+    const name = templateName || this.templateNameFor(chatId);
+    const template = this.sets.get(name)?.get(event.type) ||
+      this.sets.get(this.defaultName)?.get(event.type) ||
+      new Template(FALLBACK_TEMPLATES[event.type]);
+
+    return template.render(this.buildContext(event)).trim();
+  }
+
+  private loadFile(filePath: string): void {
+    let file: TemplatesFile;
+    try {
+      file = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Failed to read templates file ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    for (const [name, set] of Object.entries(file.templates || {})) {
+      this.addSet(name, set);
+    }
+
+    if (file.default) {
+      if (!this.sets.has(file.default)) {
+        throw new Error(`Templates file ${filePath} sets unknown default template "${file.default}"`);
+      }
+      this.defaultName = file.default;
+    }
+
+    for (const [chatId, name] of Object.entries(file.chats || {})) {
+      if (!this.sets.has(name)) {
+        throw new Error(`Templates file ${filePath} assigns unknown template "${name}" to chat ${chatId}`);
+      }
+      this.chatTemplates.set(chatId, name);
+    }
+
+    this.logger.info(`Loaded message templates from ${filePath} (default: ${this.defaultName}, ${this.chatTemplates.size} chat override(s))`);
+  }
+
+  private addSet(name: string, set: TemplateSet): void {
+    const compiled = new Map<NotificationEventType, Template>();
+
+    for (const [event, source] of Object.entries(set) as [NotificationEventType, string][]) {
+      if (!['migration', 'milestone', 'notice'].includes(event)) {
+        throw new TemplateError(`Template "${name}" has unknown event "${event}"`);
+      }
+      try {
+        compiled.set(event, new Template(source));
+      } catch (error) {
+        throw new TemplateError(`Template "${name}.${event}" is invalid: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    this.sets.set(name, compiled);
+  }
+
+  private buildContext(event: NotificationEvent): Record<string, unknown> {
+    switch (event.type) {
+      case 'migration': {
+        const token = safeToken(event.token);
+        const links = [
+          { label: 'Website', url: token.website },
+          { label: 'Twitter', url: token.twitter },
+          { label: 'Telegram', url: token.telegram }
+        ].filter(link => link.url);
+
+        return {
+          token,
+          sources: token.firstSeenBy?.join(', '),
+          creatorBadge: event.creatorBadge,
+          risk: event.risk && { ...event.risk, emoji: riskEmoji(event.risk.level), summary: event.risk.reasons.join(', ') },
+          hasBondingProgress: token.bondingProgress !== undefined,
+          links: links.map((link, index) => ({ ...link, first: index === 0, last: index === links.length - 1 }))
+        };
+      }
+      case 'milestone':
+        return {
+          token: safeToken(event.current),
+          alerted: safeToken(event.alerted),
+          milestone: event.crossed[event.crossed.length - 1],
+          crossed: event.crossed,
+          multiple: event.multiple
+        };
+      case 'notice':
+        return { text: event.text };
+    }
+  }
+}
+
+// Only http(s) links may end up in an href; anything else is dropped
+function safeToken(token: MigratedToken): MigratedToken {
+  const copy = { ...token };
+  for (const field of URL_FIELDS) {
+    if (copy[field] && !isHttpUrl(copy[field])) {
+      copy[field] = undefined;
+    }
+  }
+  return copy;
+}
@@ -0,0 +1,164 @@
+import { formatCurrency, formatDuration } from '../utils/format';
+
+/**
+ * Thrown when a template cannot be parsed, e.g. an unclosed section.
+ */
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+type Node =
+  | { type: 'text'; value: string }
+  | { type: 'value'; helper?: string; path: string; args: string[] }
+  | { type: 'section'; path: string; inverted: boolean; children: Node[] };
+
+type Helper = (value: unknown, ...args: string[]) => string;
+
+const HELPERS: Record<string, Helper> = {
+  currency: value => typeof value === 'number' ? formatCurrency(value) : '',
+  duration: value => typeof value === 'number' ? formatDuration(value) : '',
+  price: value => typeof value === 'number' ? value.toFixed(8) : '',
+  percent: value => typeof value === 'number' ? (value * 100).toFixed(1) : '',
+  multiple: value => typeof value === 'number' ? value.toFixed(1) : '',
+  truncate: (value, length) => {
+    const text = value === undefined || value === null ? '' : String(value);
+    const max = parseInt(length) || 200;
+    return text.length > max ? text.substring(0, max) + '...' : text;
+  },
+  join: (value, separator = ', ') => Array.isArray(value) ? value.join(separator) : ''
+};
+
+const TAG = /\{\{\s*([#^/]?)\s*([^}]*?)\s*\}\}/g;
+
+/**
+ * A small Mustache-style template. Every value is HTML-escaped on output and
+ * there is deliberately no way to emit raw data, so markup can only come from
+ * the template itself.
+ *
+ * - `{{token.name}}` inserts a value
+ * - `{{currency token.marketCap}}` formats it with a helper
+ * - `{{#token.website}}...{{/token.website}}` renders when the value is set,
+ *   once per item for arrays; `{{^...}}` renders when it is not
+ */
+export class Template {
+  private nodes: Node[];
+
+  constructor(readonly source: string) {
+    this.nodes = parse(source);
+  }
+
+  render(context: Record<string, unknown>): string {
+    return renderNodes(this.nodes, [context]);
+  }
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function parse(source: string): Node[] {
+  const root: Node[] = [];
+  const stack: { path: string; children: Node[] }[] = [{ path: '', children: root }];
+  let lastIndex = 0;
+
+  for (const match of source.matchAll(TAG)) {
+    const current = stack[stack.length - 1].children;
+    if (match.index! > lastIndex) {
+      current.push({ type: 'text', value: source.slice(lastIndex, match.index) });
+    }
+    lastIndex = match.index! + match[0].length;
+
+    const [, sigil, body] = match;
+    if (!body) {
+      throw new TemplateError(`Empty tag at position ${match.index}`);
+    }
+
+    if (sigil === '#' || sigil === '^') {
+      const section: Node = { type: 'section', path: body, inverted: sigil === '^', children: [] };
+      current.push(section);
+      stack.push({ path: body, children: section.children });
+    } else if (sigil === '/') {
+      const open = stack.pop();
+      if (!open || stack.length === 0 || open.path !== body) {
+        throw new TemplateError(`Unexpected {{/${body}}}${open && stack.length > 0 ? `, expected {{/${open.path}}}` : ''}`);
+      }
+    } else {
+      const parts = body.split(/\s+/);
+      if (parts.length > 1) {
+        const [helper, path, ...args] = parts;
+        if (!HELPERS[helper]) {
+          throw new TemplateError(`Unknown helper "${helper}"`);
+        }
+        current.push({ type: 'value', helper, path, args });
+      } else {
+        current.push({ type: 'value', path: body, args: [] });
+      }
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new TemplateError(`Unclosed section {{#${stack[stack.length - 1].path}}}`);
+  }
+  if (lastIndex < source.length) {
+    root.push({ type: 'text', value: source.slice(lastIndex) });
+  }
+
+  return root;
+}
+
+function renderNodes(nodes: Node[], scopes: unknown[]): string {
+  let output = '';
+
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      output += node.value;
+      continue;
+    }
+
+    const value = lookup(node.path, scopes);
+
+    if (node.type === 'value') {
+      const text = node.helper
+        ? HELPERS[node.helper](value, ...node.args)
+        : value === undefined || value === null ? '' : String(value);
+      output += escapeHtml(text);
+      continue;
+    }
+
+    const truthy = Array.isArray(value) ? value.length > 0 : Boolean(value);
+    if (node.inverted) {
+      output += truthy ? '' : renderNodes(node.children, scopes);
+    } else if (Array.isArray(value)) {
+      output += value.map(item => renderNodes(node.children, [item, ...scopes])).join('');
+    } else if (truthy) {
+      output += renderNodes(node.children, typeof value === 'object' ? [value, ...scopes] : scopes);
+    }
+  }
+
+  return output;
+}
+
+// Resolves a dotted path against the innermost scope that has its first segment
+function lookup(path: string, scopes: unknown[]): unknown {
+  if (path === '.') {
+    return scopes[0];
+  }
+
+  const [head, ...rest] = path.split('.');
+  for (const scope of scopes) {
+    if (scope !== null && typeof scope === 'object' && head in scope) {
+      return rest.reduce<unknown>(
+        (value, key) => value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined,
+        (scope as Record<string, unknown>)[head]
+      );
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,61 @@
+import { NotificationEventType } from '../types';
+
+export type TemplateSet = Partial<Record<NotificationEventType, string>>;
+
+export const DEFAULT_TEMPLATE_NAME = 'detailed';
+
+const DETAILED: Required<TemplateSet> = {
+  migration: [
+    '🎯 <b>Token Successfully Migrated on Bags.fm!</b>\n\n',
+    '<b>Token:</b> {{token.name}} ({{token.symbol}})\n',
+    '{{#token.contractAddress}}<b>Contract:</b> <code>{{token.contractAddress}}</code>\n{{/token.contractAddress}}',
+    '{{#token.description}}<b>Description:</b> {{truncate token.description 200}}\n{{/token.description}}',
+    '<b>Chain:</b> Solana\n',
+    '{{#sources}}<b>Source:</b> {{sources}}\n{{/sources}}',
+    '{{#token.creator}}<b>Creator:</b> <code>{{token.creator}}</code>\n{{/token.creator}}',
+    '{{#creatorBadge}}<b>Reputation:</b> {{creatorBadge}}\n{{/creatorBadge}}',
+    '{{#risk}}<b>{{risk.emoji}} Risk:</b> {{risk.score}}/100 ({{risk.level}}){{#risk.summary}}: {{risk.summary}}{{/risk.summary}}\n{{/risk}}',
+    '{{#token.marketCap}}<b>💰 Market Cap:</b> ${{currency token.marketCap}}\n{{/token.marketCap}}',
+    '{{#token.price}}<b>💵 Price:</b> ${{price token.price}}\n{{/token.price}}',
+    '{{#token.volume24h}}<b>📊 24h Volume:</b> ${{currency token.volume24h}}\n{{/token.volume24h}}',
+    '{{#token.totalRaised}}<b>💰 Total Raised:</b> ${{currency token.totalRaised}}\n{{/token.totalRaised}}',
+    '{{#token.bondingDuration}}<b>⏱️ Bonding Duration:</b> {{duration token.bondingDuration}}\n{{/token.bondingDuration}}',
+    '{{#hasBondingProgress}}<b>🔥 Bonding Progress:</b> {{percent token.bondingProgress}}%\n{{/hasBondingProgress}}',
+    '{{#links}}{{#first}}\n<b>Links:</b> {{/first}}{{^first}} | {{/first}}<a href="{{url}}">{{label}}</a>{{#last}}\n{{/last}}{{/links}}',
+    '{{#token.url}}\n<a href="{{token.url}}">🔗 View on Bags.fm</a>{{/token.url}}',
+    '\n\n#TokenMigration #BagsFm #Solana #{{token.symbol}}'
+  ].join(''),
+  milestone: [
+    '🚀 <b>{{token.name}} ({{token.symbol}}) hit {{milestone.label}}!</b>\n\n',
+    '{{#token.marketCap}}<b>💰 Market Cap:</b> {{#alerted.marketCap}}${{currency alerted.marketCap}} → {{/alerted.marketCap}}${{currency token.marketCap}}\n{{/token.marketCap}}',
+    '{{#alerted.price}}{{#token.price}}<b>💵 Price:</b> ${{price alerted.price}} → ${{price token.price}}\n{{/token.price}}{{/alerted.price}}',
+    '{{#multiple}}<b>📈 Since alert:</b> {{multiple multiple}}x\n{{/multiple}}',
+    '{{#token.volume24h}}<b>📊 24h Volume:</b> ${{currency token.volume24h}}\n{{/token.volume24h}}',
+    '<b>Contract:</b> <code>{{token.contractAddress}}</code>\n',
+    '{{#token.url}}\n<a href="{{token.url}}">🔗 View on Bags.fm</a>{{/token.url}}'
+  ].join(''),
+  notice: '{{text}}'
+};
+
+const TERSE: TemplateSet = {
+  migration: [
+    '🎯 <b>{{token.name}} ({{token.symbol}})</b> migrated',
+    '{{#token.marketCap}} · ${{currency token.marketCap}}{{/token.marketCap}}\n',
+    '<code>{{token.contractAddress}}</code>',
+    '{{#creatorBadge}}\n{{creatorBadge}}{{/creatorBadge}}',
+    '{{#risk}}\n{{risk.emoji}} Risk {{risk.score}}/100{{/risk}}',
+    '{{#token.url}}\n<a href="{{token.url}}">View on Bags.fm</a>{{/token.url}}'
+  ].join(''),
+  milestone: [
+    '🚀 <b>{{token.symbol}}</b> hit {{milestone.label}}',
+    '{{#multiple}} ({{multiple multiple}}x){{/multiple}}',
+    '{{#token.marketCap}} · ${{currency token.marketCap}}{{/token.marketCap}}'
+  ].join('')
+};
+
+export const BUILTIN_TEMPLATES: Record<string, TemplateSet> = {
+  detailed: DETAILED,
+  terse: TERSE
+};
+
+export const FALLBACK_TEMPLATES = DETAILED;
@@ -17,19 +17,273 @@ export interface MigratedToken {
   website?: string;
   twitter?: string;
   telegram?: string;
+  socialsReported?: boolean; // Whether the source said which links the token has; unset means they're unknown, not missing
   bondingProgress?: number;
   bondingCompleted?: boolean;
   // New fields for bonding analytics
   bondingDuration?: number; // Duration in hours
   totalRaised?: number; // Total amount raised during bonding
   createdAt?: Date; // When token was created (for duration calculation)
+  // Which token sources reported this token in the poll where it was first seen
+  firstSeenBy?: string[];
+  // Delivery bookkeeping, only set on records stored in the database
+  firstSeenAt?: Date;
+  notifiedChats?: string[];
+  failedChats?: string[]; // Chats whose alert was dropped after a permanent delivery failure; never requeued
+  firedMilestones?: string[];
+  trackedBy?: string[]; // Telegram user IDs that asked for milestone DMs via the alert's Track button
+  notificationHeld?: boolean; // Set by the startup burst guard until released or discarded
+}
+
+export interface TokenSnapshot {
+  timestamp: Date;
+  marketCap?: number;
+  price?: number;
+  volume24h?: number;
+}
+
+export interface Milestone {
+  key: string; // Stable identifier stored once fired, e.g. "x5" or "mcap:1000000"
+  label: string;
+  type: 'multiple' | 'marketCap';
+  value: number;
 }
 
 export interface BotConfig {
   telegramBotToken: string;
   telegramChatId: string;
   checkIntervalMinutes: number;
+  checkActiveIntervalMinutes: number; // Used for checkActiveWindowMinutes after a check that found new tokens
+  checkActiveWindowMinutes: number;
+  checkJitterSeconds: number; // Up to this much is added to every wait between checks
   databasePath: string;
-  bagsFmUrl: string;
+  databaseDriver?: 'json' | 'sqlite';
+  databaseBackupCount: number;
+  databaseBackupIntervalMinutes: number;
+  burstHoldThreshold: number;
+  startupGraceMinutes: number;
+  adminUserIds: string[];
+  adminChatId: string; // Where operational alerts such as schema drift go
+  sourceRetries: number; // Retries of a transient source API failure
+  sourceCircuitThreshold: number; // Consecutive failed requests that pause a source API; 0 to never pause
+  sourceCircuitResetSeconds: number;
+  sourceOutageAlertAfter: number; // Failed polls in a row before the admin chat hears a source is down; 0 to never alert
+  auditLogPath: string;
+  checkCooldownSeconds: number;
+  notificationMaxAttempts: number;
+  telegramMode: 'polling' | 'webhook';
+  webhookUrl?: string; // Public base URL Telegram should call; unset to skip registration
+  webhookPath: string;
+  webhookSecret?: string;
+  httpHost: string;
+  httpPort: number;
+  httpTlsCertPath?: string;
+  httpTlsKeyPath?: string;
+  statusApiEnabled: boolean;
+  healthMaxScrapeAgeMinutes: number;
+  healthMaxSendFailureMinutes: number;
+  telegramEvents: NotificationEventType[];
+  discordWebhookUrl?: string;
+  discordEvents: NotificationEventType[];
+  slackWebhookUrl?: string;
+  slackEvents: NotificationEventType[];
+  genericWebhookUrl?: string;
+  genericWebhookSecret?: string; // Signs generic webhook bodies with HMAC-SHA256 when set
+  genericWebhookEvents: NotificationEventType[];
+  templatesFile?: string;
+  alertButtons: AlertAction[];
+  bagsFmUrl: string; // Site that token links point to
+  bagsFmApiUrl: string;
+  bagsFmRecordDir?: string; // Saves raw leaderboard responses as replay fixtures
+  bagsFmReplayDir?: string; // Replays recorded leaderboard responses instead of calling the API
   logLevel: string;
+  logFormat: 'text' | 'json'; // Console format; the log file is always JSON lines
+  logFile?: string;
+  logFileMaxSizeMb: number; // 0 for no size limit
+  logFileRotate: 'none' | 'hourly' | 'daily';
+  logFileKeep: number;
+  maxLeaderboardPages: number;
+  maxTokenAgeHours: number;
+  tokenSources: string[];
+  axiomApiUrl?: string;
+  axiomApiKey?: string;
+  marketCapThreshold: number;
+  milestoneMultipliers: number[];
+  milestoneMarketCaps: number[];
+  serialLauncherThreshold: number; // Launches in a week that flag a creator in alerts
+}
+
+export type SubscriptionMode = 'all' | 'migration' | 'mcap';
+
+export interface SubscriptionFilters {
+  minMarketCap?: number;
+  minVolume24h?: number;
+  maxBondingHours?: number;
+  mutedCreators?: string[];
+  maxRiskScore?: number;
+  mode: SubscriptionMode;
+}
+
+export interface Subscription {
+  chatId: string;
+  chatTitle?: string;
+  filters: SubscriptionFilters;
+  createdAt: Date;
+}
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson';
+
+export type DigestFrequency = 'daily' | 'weekly';
+
+export interface DigestSchedule {
+  chatId: string;
+  frequencies: DigestFrequency[];
+  time: string; // HH:MM in `timezone`
+  timezone: string; // IANA zone name, e.g. Europe/Berlin
+  weekday: number; // Day weekly digests go out, 0 = Sunday
+  updatedAt: Date;
+}
+
+export interface CrawlStats {
+  pagesCrawled: number;
+  totalPages: number;
+  itemsFetched: number;
+  itemsQualified: number;
+  stopReason: 'last-page' | 'reached-known-tokens' | 'age-cap' | 'page-cap' | 'error';
+  error?: string; // Why the crawl failed, when stopReason is 'error'
+  durationMs: number;
+  finishedAt: Date;
+}
+
+export type PollTrigger = 'startup' | 'schedule' | 'manual' | 'offline';
+
+export interface PollResult {
+  pollId: string;
+  trigger: PollTrigger;
+  startedAt: Date;
+  durationMs: number;
+  sources: number; // Sources polled
+  launches: number; // Tokens the sources reported, after merging
+  newCount: number;
+  queuedCount: number;
+  failedSources: string[];
+  held: boolean; // New tokens were held as a burst instead of alerted
+  error?: string; // The check itself failed
+}
+
+export type SchemaIssueKind = 'missing' | 'unknown' | 'type';
+
+export interface SchemaDriftEntry {
+  kind: SchemaIssueKind;
+  path: string; // e.g. response[].bondingCurve.completedAt
+  expected?: string;
+  actual?: string;
+  count: number; // Occurrences in the crawl, e.g. once per token on a page
+}
+
+export interface SchemaDriftReport {
+  source: string;
+  payloadsChecked: number;
+  issues: SchemaDriftEntry[]; // Most frequent first; empty when every payload matched
+  sample: string[]; // Diff lines for the first payload that didn't match
+  checkedAt: Date;
+}
+
+export interface TokenSource {
+  readonly name: string;
+  getNewMigrations(isKnown?: (token: MigratedToken) => Promise<boolean>): Promise<MigratedToken[]>;
+  getLastCrawlStats?(): CrawlStats | undefined;
+  /** How the last crawl's responses compared with the declared API schema. */
+  getLastSchemaDrift?(): SchemaDriftReport | undefined;
+  /** Current market data for one token, or undefined if the source doesn't list it. Throws on request failures. */
+  fetchSnapshot?(contractAddress: string): Promise<TokenSnapshot | undefined>;
+}
+
+export interface AuditEntry {
+  timestamp: Date;
+  command: string;
+  chatId: string;
+  userId?: string;
+  username?: string;
+  args?: string;
+  outcome: 'allowed' | 'denied' | 'confirmed' | 'cancelled' | 'failed' | 'rate-limited';
+}
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export interface RiskAssessment {
+  score: number; // 0 (no warning signs) to 100
+  level: RiskLevel;
+  reasons: string[]; // Short phrases such as "bonded in 12m", highest weight first
+}
+
+export type NotificationEventType = 'migration' | 'milestone' | 'notice';
+
+export type NotificationEvent =
+  | { type: 'migration'; token: MigratedToken; migrationId?: string; creatorBadge?: string; risk?: RiskAssessment }
+  | { type: 'milestone'; alerted: MigratedToken; current: MigratedToken; crossed: Milestone[]; multiple?: number }
+  | { type: 'notice'; text: string };
+
+export type MigrationEvent = Extract<NotificationEvent, { type: 'migration' }>;
+
+export interface OutboxMessage {
+  id: string;
+  sink?: string; // Notifier that delivers the message; Telegram when unset
+  chatId: string; // Telegram chat, or the sink name for webhook sinks
+  kind: NotificationEventType;
+  migrationId?: string; // Set for migration alerts; marked notified once delivered
+  text: string;
+  payload?: unknown; // Request body for webhook sinks
+  photo?: string; // Sent as a photo with `text` as caption, falling back to text only
+  parseMode?: 'HTML';
+  disableWebPagePreview?: boolean;
+  buttons?: AlertButton[][]; // Rows of inline buttons under the message
+  attempts: number;
+  nextAttemptAt: Date;
+  createdAt: Date;
+  lastError?: string;
+}
+
+export type NotifierContent = Pick<OutboxMessage, 'text' | 'photo' | 'parseMode' | 'disableWebPagePreview' | 'buttons' | 'payload'>;
+
+export type AlertAction = 'refresh' | 'copy' | 'mute' | 'track' | 'open';
+
+export interface AlertButton {
+  text: string;
+  callbackData?: string; // `<action>:<migrationId>`, handled by the bot's callback query handler
+  url?: string;
+  copyText?: string;
+}
+
+export interface DeliveryFailure {
+  statusCode?: number;
+  retryAfterSeconds?: number;
+  description: string;
+}
+
+export interface Notifier {
+  readonly name: string;
+  readonly events: NotificationEventType[];
+  /** Minimum gap between two messages to the same target. */
+  intervalMs(target: string): number;
+  format(event: NotificationEvent, target: string): NotifierContent;
+  deliver(message: OutboxMessage): Promise<void>;
+  describeError(error: unknown): DeliveryFailure;
+}
+
+export interface HealthCheck {
+  ok: boolean;
+  lastSuccessAt?: Date;
+  failingSince?: Date;
+  thresholdSeconds: number;
+  detail?: string;
+}
+
+export interface HealthReport {
+  healthy: boolean;
+  uptimeSeconds: number;
+  checks: {
+    scrape: HealthCheck;
+    send: HealthCheck;
+  };
 }
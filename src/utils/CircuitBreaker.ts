@@ -0,0 +1,81 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Thrown instead of making a request while the circuit is open.
+ */
+export class CircuitOpenError extends Error {
+  readonly retryAt: Date;
+
+  constructor(name: string, retryAt: Date) {
+    super(`${name} circuit is open after repeated failures; next attempt at ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+    this.retryAt = retryAt;
+  }
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures that open the circuit; 0 never opens it
+  resetTimeoutMs: number; // How long it stays open before one trial request is let through
+  retryAfterMs?: (error: unknown) => number | undefined; // A wait the failure itself asks for, such as HTTP Retry-After
+}
+
+/**
+ * Stops calling a failing dependency for a while. After `failureThreshold`
+ * consecutive failures the circuit opens and calls fail fast; once
+ * `resetTimeoutMs` has passed a single trial call is let through (half-open),
+ * which closes the circuit on success or reopens it on failure. A failure
+ * that says when to come back (`retryAfterMs`) opens it straight away.
+ */
+export class CircuitBreaker {
+  private name: string;
+  private options: CircuitBreakerOptions;
+  private failures = 0;
+  private openUntil = 0;
+  private trialInFlight = false;
+
+  constructor(name: string, options: CircuitBreakerOptions) {
+    this.name = name;
+    this.options = options;
+  }
+
+  get state(): CircuitState {
+    if (this.openUntil === 0) {
+      return 'closed';
+    }
+    return Date.now() < this.openUntil ? 'open' : 'half-open';
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    const state = this.state;
+    if (state === 'open' || (state === 'half-open' && this.trialInFlight)) {
+      throw new CircuitOpenError(this.name, new Date(Math.max(this.openUntil, Date.now())));
+    }
+
+    this.trialInFlight = state === 'half-open';
+    try {
+      const result = await task();
+      this.failures = 0;
+      this.openUntil = 0;
+      return result;
+    } catch (error) {
+      this.recordFailure(error);
+      throw error;
+    } finally {
+      this.trialInFlight = false;
+    }
+  }
+
+  private recordFailure(error: unknown): void {
+    this.failures++;
+
+    if (this.options.failureThreshold <= 0) {
+      return;
+    }
+
+    // A server saying when to come back opens the circuit right away, for at least that long
+    const retryAfterMs = this.options.retryAfterMs?.(error);
+    if (retryAfterMs !== undefined || this.state === 'half-open' || this.failures >= this.options.failureThreshold) {
+      this.openUntil = Date.now() + Math.max(this.options.resetTimeoutMs, retryAfterMs || 0);
+    }
+  }
+}
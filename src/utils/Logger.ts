@@ -1,46 +1,181 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { RotatingLogFile, RotatingLogFileOptions } from './RotatingLogFile';
+
+export type LogFormat = 'text' | 'json';
+
+// Fields attached to every line a logger writes, e.g. { pollId: 'a1b2c3d4', symbol: 'BAGS' }
+export type LogContext = Record<string, string | number | boolean | undefined>;
+
+export interface LoggingOptions {
+  level?: string;
+  format?: LogFormat; // Console format; the log file is always JSON lines
+  file?: RotatingLogFileOptions;
+  secrets?: string[]; // Values masked wherever they appear, such as the bot token
+}
+
+const LEVELS = ['debug', 'info', 'warn', 'error'];
+const REDACTED = '[REDACTED]';
+
+// Telegram bot tokens look like 123456789:AA...; they also end up in Bot API URLs
+const BOT_TOKEN_PATTERN = /(?<!\d)\d{6,12}:[A-Za-z0-9_-]{30,}/g;
+const SECRET_KEY_PATTERN = /(secret|password|authorization|api_?key)$|^(bot_?)?token$/i;
+
+/**
+ * Component-scoped logger. `child()` adds fields such as a token symbol, and
+ * `Logger.withContext()` attaches fields (like a poll ID) to everything
+ * logged while a task runs, across awaits and in other components. Lines go
+ * to the console as text or JSON and, optionally, to a rotating JSON-lines
+ * file. Known secrets, bot tokens and secret-looking fields are redacted.
+ */
 export class Logger {
-  private logLevel: string;
+  private static level?: string;
+  private static format: LogFormat = 'text';
+  private static file?: RotatingLogFile;
+  private static secrets: string[] = [];
+  private static scope = new AsyncLocalStorage<LogContext>();
+
+  private context: LogContext;
 
-  constructor(logLevel: string = process.env.LOG_LEVEL || 'info') {
-    this.logLevel = logLevel.toLowerCase();
+  constructor(component?: string, context: LogContext = {}) {
+    this.context = component ? { component, ...context } : { ...context };
   }
 
-  private shouldLog(level: string): boolean {
-    const levels = ['debug', 'info', 'warn', 'error'];
-    const currentLevelIndex = levels.indexOf(this.logLevel);
-    const messageLevelIndex = levels.indexOf(level);
-    return messageLevelIndex >= currentLevelIndex;
+  /**
+   * Applies the logging settings. Reconfiguring with the same file keeps it
+   * open; a different (or no) file closes the old one.
+   */
+  static configure(options: LoggingOptions): void {
+    Logger.level = options.level?.toLowerCase();
+    Logger.format = options.format || 'text';
+    Logger.secrets = (options.secrets || []).filter(secret => secret && secret.length >= 6);
+
+    if (Logger.file?.path !== options.file?.path) {
+      Logger.file?.close();
+      Logger.file = options.file ? new RotatingLogFile(options.file) : undefined;
+    }
   }
 
-  private formatMessage(level: string, message: string, ...args: any[]): string {
-    const timestamp = new Date().toISOString();
-    const formattedArgs = args.length > 0 ? ' ' + args.map(arg => 
-      typeof arg === 'object' ? JSON.stringify(arg, null, 2) : String(arg)
-    ).join(' ') : '';
-    return `[${timestamp}] [${level.toUpperCase()}] ${message}${formattedArgs}`;
+  /** Runs `task` with `context` added to every line logged until it settles. */
+  static withContext<T>(context: LogContext, task: () => T): T {
+    return Logger.scope.run({ ...Logger.scope.getStore(), ...context }, task);
+  }
+
+  child(context: LogContext): Logger {
+    const child = new Logger();
+    child.context = { ...this.context, ...context };
+    return child;
   }
 
   debug(message: string, ...args: any[]): void {
-    if (this.shouldLog('debug')) {
-      console.log(this.formatMessage('debug', message, ...args));
-    }
+    this.write('debug', message, args);
   }
 
   info(message: string, ...args: any[]): void {
-    if (this.shouldLog('info')) {
-      console.log(this.formatMessage('info', message, ...args));
-    }
+    this.write('info', message, args);
   }
 
   warn(message: string, ...args: any[]): void {
-    if (this.shouldLog('warn')) {
-      console.warn(this.formatMessage('warn', message, ...args));
-    }
+    this.write('warn', message, args);
   }
 
   error(message: string, ...args: any[]): void {
-    if (this.shouldLog('error')) {
-      console.error(this.formatMessage('error', message, ...args));
+    this.write('error', message, args);
+  }
+
+  private shouldLog(level: string): boolean {
+    const current = LEVELS.indexOf(Logger.level || process.env.LOG_LEVEL?.toLowerCase() || 'info');
+    return LEVELS.indexOf(level) >= Math.max(current, 0);
+  }
+
+  private write(level: string, message: string, args: any[]): void {
+    if (!this.shouldLog(level)) {
+      return;
     }
+
+    const time = new Date().toISOString();
+    const { component, ...fields } = { ...Logger.scope.getStore(), ...this.context };
+    const values = args.map(arg => serialize(arg, level));
+    const entry = { time, level, ...(component ? { component } : {}), ...fields, msg: message, ...(values.length > 0 ? { args: values } : {}) };
+    const json = this.redact(stringify(entry));
+
+    if (Logger.file) {
+      try {
+        Logger.file.write(json + '\n');
+      } catch (error) {
+        const path = Logger.file.path;
+        Logger.file = undefined;
+        console.error(`[${time}] [ERROR] Writing to log file ${path} failed, logging to the console only: ${(error as Error).message}`);
+      }
+    }
+
+    let line = json;
+    if (Logger.format === 'text') {
+      const extra = Object.entries(fields).filter(([, value]) => value !== undefined).map(([key, value]) => `${key}=${value}`);
+      const rendered = args.map((arg, index) => typeof arg === 'string' ? arg
+        : arg instanceof Error ? values[index].stack || `${arg.name}: ${arg.message}`
+        : stringify(values[index]));
+      line = this.redact(
+        `[${time}] [${level.toUpperCase()}]${component ? ` [${component}]` : ''} ${message}` +
+        (rendered.length > 0 ? ' ' + rendered.join(' ') : '') +
+        (extra.length > 0 ? ` (${extra.join(' ')})` : '')
+      );
+    }
+
+    if (level === 'error') {
+      console.error(line);
+    } else if (level === 'warn') {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+  }
+
+  private redact(line: string): string {
+    let result = line.replace(BOT_TOKEN_PATTERN, REDACTED);
+    for (const secret of Logger.secrets) {
+      result = result.split(secret).join(REDACTED);
+    }
+    return result;
+  }
+}
+
+// Errors keep their message (and stack, for errors logged as such) instead of
+// turning into {}; fields named like secrets are masked
+function serialize(value: any, level: string, seen = new WeakSet<object>()): any {
+  if (value instanceof Error) {
+    const error = value as Error & { code?: string; response?: { status?: number; statusCode?: number } };
+    return {
+      name: error.name,
+      message: error.message,
+      ...(error.code ? { code: error.code } : {}),
+      ...(error.response ? { status: error.response.status ?? error.response.statusCode } : {}),
+      ...(level === 'error' && error.stack ? { stack: error.stack } : {})
+    };
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map(item => serialize(item, level, seen));
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+    key,
+    SECRET_KEY_PATTERN.test(key) && item ? REDACTED : serialize(item, level, seen)
+  ]));
+}
+
+function stringify(value: unknown): string {
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
   }
 }
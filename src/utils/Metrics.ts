@@ -0,0 +1,144 @@
+export type MetricLabels = Record<string, string>;
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+interface Series {
+  labels: MetricLabels;
+  value: number;
+  // Histograms only
+  buckets?: number[];
+  sum?: number;
+  count?: number;
+}
+
+const DEFAULT_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+abstract class Metric {
+  protected series = new Map<string, Series>();
+
+  constructor(readonly name: string, readonly help: string, readonly type: MetricType) {}
+
+  protected getSeries(labels: MetricLabels = {}): Series {
+    const key = JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, value: 0 };
+      this.series.set(key, series);
+    }
+    return series;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    // Report untouched counters and gauges as zero so dashboards don't see gaps
+    if (this.series.size === 0 && this.type !== 'histogram') {
+      lines.push(`${this.name} 0`);
+    }
+    for (const series of this.series.values()) {
+      lines.push(...this.renderSeries(series));
+    }
+    return lines;
+  }
+
+  protected renderSeries(series: Series): string[] {
+    return [`${this.name}${formatLabels(series.labels)} ${formatValue(series.value)}`];
+  }
+}
+
+export class Counter extends Metric {
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels?: MetricLabels, amount: number = 1): void {
+    this.getSeries(labels).value += amount;
+  }
+}
+
+export class Gauge extends Metric {
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  set(value: number, labels?: MetricLabels): void {
+    this.getSeries(labels).value = value;
+  }
+}
+
+export class Histogram extends Metric {
+  constructor(name: string, help: string, private bucketBounds: number[] = DEFAULT_BUCKETS) {
+    super(name, help, 'histogram');
+  }
+
+  observe(value: number, labels?: MetricLabels): void {
+    const series = this.getSeries(labels);
+    series.buckets = series.buckets || this.bucketBounds.map(() => 0);
+    this.bucketBounds.forEach((bound, index) => {
+      if (value <= bound) {
+        series.buckets![index]++;
+      }
+    });
+    series.sum = (series.sum || 0) + value;
+    series.count = (series.count || 0) + 1;
+  }
+
+  protected renderSeries(series: Series): string[] {
+    const lines = this.bucketBounds.map((bound, index) =>
+      `${this.name}_bucket${formatLabels({ ...series.labels, le: String(bound) })} ${series.buckets![index]}`
+    );
+    lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`);
+    lines.push(`${this.name}_sum${formatLabels(series.labels)} ${formatValue(series.sum!)}`);
+    lines.push(`${this.name}_count${formatLabels(series.labels)} ${series.count}`);
+    return lines;
+  }
+}
+
+/**
+ * Minimal in-process metrics registry rendered in the Prometheus text
+ * exposition format. Values live in memory and reset on restart.
+ */
+export class Metrics {
+  private metrics: Metric[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  render(): string {
+    return this.metrics.flatMap(metric => metric.render()).join('\n') + '\n';
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  const formatted = entries.map(([key, value]) =>
+    `${key}="${value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`
+  );
+  return `{${formatted.join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN';
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf';
+  }
+  return String(value);
+}
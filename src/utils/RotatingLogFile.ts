@@ -0,0 +1,87 @@
+import fs from 'fs';
+import path from 'path';
+
+export type LogRotation = 'none' | 'hourly' | 'daily';
+
+export interface RotatingLogFileOptions {
+  path: string;
+  maxBytes?: number; // Rotate once the file would grow past this; 0 or unset for no limit
+  rotate?: LogRotation; // Also rotate when the hour or (UTC) day changes
+  keep?: number; // Rotated files kept as path.1 (newest) to path.N
+}
+
+/**
+ * Append-only log file that rotates by size and/or time, shifting older files
+ * to `.1`, `.2`, ... and dropping the oldest. Writes are synchronous, like
+ * console output, so nothing is lost when the process exits.
+ */
+export class RotatingLogFile {
+  readonly path: string;
+  private maxBytes: number;
+  private rotate: LogRotation;
+  private keep: number;
+  private fd?: number;
+  private size = 0;
+  private period = '';
+
+  constructor(options: RotatingLogFileOptions) {
+    this.path = options.path;
+    this.maxBytes = options.maxBytes || 0;
+    this.rotate = options.rotate || 'none';
+    this.keep = Math.max(1, options.keep ?? 5);
+  }
+
+  write(line: string): void {
+    const bytes = Buffer.byteLength(line);
+    const period = this.periodOf(new Date());
+
+    if (this.fd === undefined) {
+      this.open();
+      // A file left by an earlier run belongs to the period it was last written in
+      this.period = this.size > 0 ? this.periodOf(fs.statSync(this.path).mtime) : period;
+    }
+    if ((this.maxBytes > 0 && this.size > 0 && this.size + bytes > this.maxBytes) || period !== this.period) {
+      this.rotateFiles();
+      this.period = period;
+    }
+
+    fs.writeSync(this.fd!, line);
+    this.size += bytes;
+  }
+
+  close(): void {
+    if (this.fd !== undefined) {
+      fs.closeSync(this.fd);
+      this.fd = undefined;
+    }
+  }
+
+  private open(): void {
+    fs.mkdirSync(path.dirname(this.path), { recursive: true });
+    this.fd = fs.openSync(this.path, 'a');
+    this.size = fs.fstatSync(this.fd).size;
+  }
+
+  private rotateFiles(): void {
+    this.close();
+    fs.rmSync(`${this.path}.${this.keep}`, { force: true });
+    for (let index = this.keep - 1; index >= 1; index--) {
+      if (fs.existsSync(`${this.path}.${index}`)) {
+        fs.renameSync(`${this.path}.${index}`, `${this.path}.${index + 1}`);
+      }
+    }
+    fs.renameSync(this.path, `${this.path}.1`);
+    this.open();
+  }
+
+  private periodOf(date: Date): string {
+    switch (this.rotate) {
+      case 'hourly':
+        return date.toISOString().slice(0, 13);
+      case 'daily':
+        return date.toISOString().slice(0, 10);
+      default:
+        return '';
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import path from 'path';
+import fs from 'fs/promises';
+
+/**
+ * Writes `content` to a temporary file in the same directory, flushes it to
+ * disk and renames it over `filePath`, so readers never see a partial file.
+ */
+export async function atomicWriteFile(filePath: string, content: string): Promise<void> {
+  const tempPath = path.join(path.dirname(filePath), `.${path.basename(filePath)}.${process.pid}.tmp`);
+  const handle = await fs.open(tempPath, 'w');
+
+  try {
+    await handle.writeFile(content, 'utf-8');
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+
+  try {
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
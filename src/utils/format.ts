@@ -0,0 +1,39 @@
+import { RiskLevel } from '../types';
+
+export function formatCurrency(amount: number): string {
+  if (amount >= 1e9) {
+    return (amount / 1e9).toFixed(2) + 'B';
+  } else if (amount >= 1e6) {
+    return (amount / 1e6).toFixed(2) + 'M';
+  } else if (amount >= 1e3) {
+    return (amount / 1e3).toFixed(2) + 'K';
+  } else {
+    return amount.toFixed(2);
+  }
+}
+
+export function formatDuration(hours: number): string {
+  if (hours < 1) {
+    const minutes = Math.round(hours * 60);
+    return `${minutes} minutes`;
+  } else if (hours < 24) {
+    return `${hours.toFixed(1)} hours`;
+  } else {
+    const days = Math.floor(hours / 24);
+    const remainingHours = Math.round(hours % 24);
+    if (remainingHours === 0) {
+      return `${days} days`;
+    } else {
+      return `${days}d ${remainingHours}h`;
+    }
+  }
+}
+
+/** Whether `value` is an http(s) link with nothing in it that could break out of a message link. */
+export function isHttpUrl(value: string | undefined): value is string {
+  return !!value && /^https?:\/\/\S+$/i.test(value);
+}
+
+export function riskEmoji(level: RiskLevel): string {
+  return level === 'high' ? '🔴' : level === 'medium' ? '🟡' : '🟢';
+}
@@ -0,0 +1,61 @@
+/**
+ * Scores how well `query` matches `text`, from 0 (no match) to 1 (exact).
+ * Whole and partial matches rank first, then the query's letters appearing in
+ * order ("bnk" in "BONK"), then near misses within a couple of typos.
+ */
+export function fuzzyScore(query: string, text: string): number {
+  const q = query.trim().toLowerCase();
+  const t = text.trim().toLowerCase();
+  if (!q || !t) {
+    return 0;
+  }
+
+  if (t === q) {
+    return 1;
+  }
+  if (t.startsWith(q)) {
+    return 0.9;
+  }
+  if (t.includes(q)) {
+    return 0.8;
+  }
+  if (isSubsequence(q, t)) {
+    return 0.4 + 0.2 * (q.length / t.length);
+  }
+
+  // Allow roughly one typo per four characters against the start of the text or any word
+  const distance = Math.min(...[t, ...t.split(/\s+/)].map(candidate => levenshtein(q, candidate.slice(0, q.length))));
+  const allowed = Math.max(1, Math.floor(q.length / 4));
+  return q.length >= 3 && distance <= allowed ? 0.3 * (1 - distance / (q.length + 1)) : 0;
+}
+
+function isSubsequence(needle: string, haystack: string): boolean {
+  let index = 0;
+  for (const char of haystack) {
+    if (char === needle[index]) {
+      index++;
+      if (index === needle.length) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
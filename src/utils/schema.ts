@@ -0,0 +1,102 @@
+import { SchemaIssueKind } from '../types';
+
+/**
+ * Declared shapes of third-party API payloads, checked at runtime so upstream
+ * changes show up as schema issues instead of silently empty results.
+ */
+export type Schema =
+  | { type: 'string' | 'number' | 'boolean' | 'date' | 'any'; optional?: boolean }
+  | { type: 'object'; fields: Record<string, Schema>; optional?: boolean }
+  | { type: 'array'; items: Schema; optional?: boolean };
+
+export interface SchemaIssue {
+  kind: SchemaIssueKind;
+  path: string; // e.g. data.leaderboard[].bondingCurve.completedAt; array indexes are folded into []
+  expected?: string; // Declared type; unset for unknown fields
+  actual?: string; // Type found; unset for missing fields
+  value?: unknown; // The offending value, for unknown fields and type changes
+}
+
+export const string = (): Schema => ({ type: 'string' });
+export const number = (): Schema => ({ type: 'number' });
+export const boolean = (): Schema => ({ type: 'boolean' });
+// An ISO 8601 (or otherwise Date-parseable) string
+export const date = (): Schema => ({ type: 'date' });
+// Anything goes, e.g. a field the bot passes along without reading
+export const any = (): Schema => ({ type: 'any' });
+export const object = (fields: Record<string, Schema>): Schema => ({ type: 'object', fields });
+export const array = (items: Schema): Schema => ({ type: 'array', items });
+// Optional fields may be absent or null
+export const optional = (schema: Schema): Schema => ({ ...schema, optional: true });
+
+/** Reads a date the way `date()` accepts it; undefined for anything else. */
+export function parseDate(value: unknown): Date | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Checks `value` against `schema` and lists every missing required field,
+ * undeclared field and type mismatch. Never throws.
+ */
+export function validate(schema: Schema, value: unknown, path: string = ''): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  check(schema, value, path, issues);
+  return issues;
+}
+
+function check(schema: Schema, value: unknown, path: string, issues: SchemaIssue[]): void {
+  if (value === undefined || value === null) {
+    if (!schema.optional) {
+      issues.push({ kind: 'missing', path, expected: schema.type });
+    }
+    return;
+  }
+
+  const actual = typeOf(value);
+  if (!matches(schema, value, actual)) {
+    issues.push({ kind: 'type', path, expected: schema.type, actual, value });
+    return;
+  }
+
+  if (schema.type === 'array') {
+    for (const item of value as unknown[]) {
+      check(schema.items, item, `${path}[]`, issues);
+    }
+  } else if (schema.type === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const [key, field] of Object.entries(schema.fields)) {
+      check(field, record[key], join(path, key), issues);
+    }
+    for (const key of Object.keys(record)) {
+      if (!Object.prototype.hasOwnProperty.call(schema.fields, key)) {
+        issues.push({ kind: 'unknown', path: join(path, key), actual: typeOf(record[key]), value: record[key] });
+      }
+    }
+  }
+}
+
+function matches(schema: Schema, value: unknown, actual: string): boolean {
+  switch (schema.type) {
+    case 'any':
+      return true;
+    case 'date':
+      return parseDate(value) !== undefined;
+    default:
+      return actual === schema.type;
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return value === null ? 'null' : typeof value;
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
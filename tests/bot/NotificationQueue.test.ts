@@ -0,0 +1,174 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NotificationQueue } from '../../src/bot/NotificationQueue';
+import { DatabaseManager } from '../../src/database/DatabaseManager';
+import { DeliveryFailure, Notifier, OutboxMessage } from '../../src/types';
+
+class FakeNotifier implements Notifier {
+  readonly name = 'telegram';
+  readonly events = ['migration' as const, 'notice' as const];
+  readonly delivered: OutboxMessage[] = [];
+  failures: DeliveryFailure[] = [];
+  intervals: Record<string, number> = {};
+
+  intervalMs(chatId: string): number {
+    return this.intervals[chatId] || 0;
+  }
+
+  format(): never {
+    throw new Error('not used');
+  }
+
+  async deliver(message: OutboxMessage): Promise<void> {
+    const failure = this.failures.shift();
+    if (failure) {
+      throw failure;
+    }
+    this.delivered.push(message);
+  }
+
+  describeError(error: unknown): DeliveryFailure {
+    return error as DeliveryFailure;
+  }
+}
+
+const TOKEN = { id: 'token-1', name: 'Bags', symbol: 'BAGS', contractAddress: 'Token1', migrationDate: new Date('2026-01-01T00:00:00Z') };
+
+function migrationMessage(chatId: string) {
+  return { chatId, kind: 'migration' as const, migrationId: TOKEN.id, text: 'New token' };
+}
+
+describe('NotificationQueue', () => {
+  let dir: string;
+  let database: DatabaseManager;
+  let notifier: FakeNotifier;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'queue-test-'));
+    database = new DatabaseManager(path.join(dir, 'migrations.db'), 'sqlite', { keep: 0, intervalMinutes: 60 });
+    await database.initialize();
+    await database.saveMigration({ ...TOKEN, notifiedChats: [] });
+    notifier = new FakeNotifier();
+  });
+
+  afterEach(async () => {
+    await database.close();
+    await fs.rm(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  function startQueue(options: ConstructorParameters<typeof NotificationQueue>[2] = {}): NotificationQueue {
+    const queue = new NotificationQueue([notifier], database, { globalPerSecond: 1000, ...options });
+    queue.start();
+    return queue;
+  }
+
+  it('delivers queued messages in order and marks the chat notified', async () => {
+    const onDelivered = vi.fn();
+    const queue = startQueue({ onDelivered });
+
+    await queue.enqueue(migrationMessage('-100'));
+    await queue.enqueue({ chatId: '-100', kind: 'notice', text: 'Hello' });
+    expect(await queue.waitUntilIdle(5000)).toBe(true);
+    queue.stop();
+
+    expect(notifier.delivered.map(message => message.text)).toEqual(['New token', 'Hello']);
+    expect(onDelivered).toHaveBeenCalledTimes(2);
+    expect((await database.getMigration(TOKEN.id))?.notifiedChats).toEqual(['-100']);
+  });
+
+  it('keeps transient failures in the outbox for a later attempt', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const onFailed = vi.fn();
+    notifier.failures = [{ statusCode: 502, description: 'Bad Gateway' }];
+    const queue = startQueue({ onFailed });
+
+    await queue.enqueue(migrationMessage('-100'));
+    await vi.waitFor(() => expect(onFailed).toHaveBeenCalledWith(expect.anything(), true));
+    queue.stop();
+
+    // Still queued, but backing off
+    expect(await queue.depth()).toBe(1);
+    expect(await database.getDueOutbox(10)).toEqual([]);
+    expect(notifier.delivered).toHaveLength(0);
+  });
+
+  it('waits as long as the server asks before retrying', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    notifier.failures = [{ statusCode: 429, retryAfterSeconds: 1, description: 'Too Many Requests' }];
+    const queue = startQueue();
+
+    const queuedAt = Date.now();
+    await queue.enqueue(migrationMessage('-100'));
+    expect(await queue.waitUntilIdle(5000)).toBe(true);
+    queue.stop();
+
+    expect(notifier.delivered).toHaveLength(1);
+    expect(Date.now() - queuedAt).toBeGreaterThanOrEqual(1000);
+  });
+
+  it('records a permanent failure so the token is never queued for that chat again', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    notifier.failures = [{ statusCode: 400, description: 'Bad Request: chat not found' }];
+    const queue = startQueue();
+
+    await queue.enqueue(migrationMessage('-100'));
+    expect(await queue.waitUntilIdle(5000)).toBe(true);
+    queue.stop();
+
+    const stored = await database.getMigration(TOKEN.id);
+    expect(stored?.notifiedChats).toEqual([]);
+    expect(stored?.failedChats).toEqual(['-100']);
+  });
+
+  it('gives up after the maximum number of attempts', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const rateLimited = { statusCode: 429, retryAfterSeconds: 0, description: 'Too Many Requests' };
+    notifier.failures = [rateLimited, rateLimited];
+    const onFailed = vi.fn();
+    const queue = startQueue({ maxAttempts: 2, onFailed });
+
+    await queue.enqueue(migrationMessage('-100'));
+    expect(await queue.waitUntilIdle(5000)).toBe(true);
+    queue.stop();
+
+    expect(onFailed.mock.calls.map(([, willRetry]) => willRetry)).toEqual([true, false]);
+    expect(notifier.delivered).toHaveLength(0);
+    expect((await database.getMigration(TOKEN.id))?.failedChats).toEqual(['-100']);
+  });
+
+  it('keeps delivering to other chats while one throttled chat has a backlog', async () => {
+    notifier.intervals = { '-100': 60 * 1000 };
+    const queue = new NotificationQueue([notifier], database, { globalPerSecond: 1000 });
+
+    // More than one page of messages for the throttled chat, queued ahead of the other chat's
+    for (let i = 0; i < 120; i++) {
+      await queue.enqueue({ chatId: '-100', kind: 'notice', text: `Backlog ${i}` });
+    }
+    await queue.enqueue({ chatId: '-200', kind: 'notice', text: 'Other chat' });
+    queue.start();
+
+    await vi.waitFor(() => expect(notifier.delivered.map(message => message.text)).toContain('Other chat'));
+    queue.stop();
+
+    expect(notifier.delivered.filter(message => message.chatId === '-100')).toHaveLength(1);
+    expect(await queue.depth()).toBe(119);
+  });
+
+  it('drops messages for chats that blocked the bot and reports them unreachable', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    notifier.failures = [{ statusCode: 403, description: 'Forbidden: bot was blocked by the user' }];
+    const onUnreachable = vi.fn(async () => undefined);
+    const queue = startQueue({ onUnreachable });
+
+    await queue.enqueue(migrationMessage('42'));
+    expect(await queue.waitUntilIdle(5000)).toBe(true);
+    queue.stop();
+
+    expect(onUnreachable).toHaveBeenCalledWith(expect.objectContaining({ chatId: '42', attempts: 1 }));
+    expect((await database.getMigration(TOKEN.id))?.failedChats).toEqual(['42']);
+  });
+});
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PollScheduler } from '../../src/bot/PollScheduler';
+import { PollResult, PollTrigger } from '../../src/types';
+
+const MINUTE = 60 * 1000;
+
+function result(trigger: PollTrigger, newCount: number = 0): PollResult {
+  return {
+    pollId: 'test',
+    trigger,
+    startedAt: new Date(),
+    durationMs: 0,
+    sources: 1,
+    launches: newCount,
+    newCount,
+    queuedCount: 0,
+    failedSources: [],
+    held: false
+  };
+}
+
+describe('PollScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('joins a poll that is already running instead of starting another', async () => {
+    let finish!: (value: PollResult) => void;
+    const runPoll = vi.fn((trigger: PollTrigger) => new Promise<PollResult>(resolve => { finish = () => resolve(result(trigger)); }));
+    const scheduler = new PollScheduler(runPoll, { intervalMs: MINUTE });
+
+    const first = scheduler.request('manual');
+    const second = scheduler.request('schedule');
+    expect(second).toBe(first);
+    expect(scheduler.isPolling).toBe(true);
+
+    finish(result('manual'));
+    await expect(first).resolves.toMatchObject({ trigger: 'manual' });
+    expect(runPoll).toHaveBeenCalledTimes(1);
+    expect(scheduler.isPolling).toBe(false);
+  });
+
+  it('times the next poll from the end of the last one', async () => {
+    const runPoll = vi.fn(async (trigger: PollTrigger) => {
+      await new Promise(resolve => setTimeout(resolve, 10 * 1000));
+      return result(trigger);
+    });
+    const scheduler = new PollScheduler(runPoll, { intervalMs: MINUTE });
+    scheduler.start();
+    expect(scheduler.getNextPollAt()).toEqual(new Date(Date.now() + MINUTE));
+
+    await vi.advanceTimersByTimeAsync(MINUTE);
+    expect(runPoll).toHaveBeenCalledWith('schedule');
+    expect(scheduler.getNextPollAt()).toBeUndefined();
+
+    await vi.advanceTimersByTimeAsync(10 * 1000);
+    expect(scheduler.getNextPollAt()).toEqual(new Date(Date.now() + MINUTE));
+
+    scheduler.stop();
+  });
+
+  it('polls at the active interval for a while after new tokens', async () => {
+    const runPoll = vi.fn(async (trigger: PollTrigger) => result(trigger, 2));
+    const scheduler = new PollScheduler(runPoll, { intervalMs: 10 * MINUTE, activeIntervalMs: MINUTE, activeWindowMs: 30 * MINUTE });
+    scheduler.start();
+
+    await scheduler.request('manual');
+    expect(scheduler.isActive()).toBe(true);
+    expect(scheduler.getNextPollAt()).toEqual(new Date(Date.now() + MINUTE));
+
+    runPoll.mockImplementation(async (trigger: PollTrigger) => result(trigger, 0));
+    await vi.advanceTimersByTimeAsync(30 * MINUTE);
+    expect(scheduler.isActive()).toBe(false);
+    expect(scheduler.getNextPollAt()!.getTime() - Date.now()).toBeGreaterThan(MINUTE);
+
+    scheduler.stop();
+  });
+
+  it('waits out intervals longer than a single timer can', async () => {
+    const runPoll = vi.fn(async (trigger: PollTrigger) => result(trigger));
+    const interval = 40 * 24 * 60 * MINUTE;
+    const scheduler = new PollScheduler(runPoll, { intervalMs: interval });
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(interval - MINUTE);
+    expect(runPoll).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(MINUTE);
+    expect(runPoll).toHaveBeenCalledTimes(1);
+
+    scheduler.stop();
+  });
+
+  it('reschedules a pending wait when the options change', () => {
+    const scheduler = new PollScheduler(async trigger => result(trigger), { intervalMs: 10 * MINUTE });
+    scheduler.start();
+
+    vi.advanceTimersByTime(5 * MINUTE);
+    scheduler.setOptions({ intervalMs: 2 * MINUTE });
+    expect(scheduler.getNextPollAt()).toEqual(new Date(Date.now() + 2 * MINUTE));
+
+    scheduler.stop();
+  });
+
+  it('stops scheduling once stopped', async () => {
+    const runPoll = vi.fn(async (trigger: PollTrigger) => result(trigger));
+    const scheduler = new PollScheduler(runPoll, { intervalMs: MINUTE });
+    scheduler.start();
+    scheduler.stop();
+
+    await vi.advanceTimersByTimeAsync(10 * MINUTE);
+    expect(runPoll).not.toHaveBeenCalled();
+    expect(scheduler.getNextPollAt()).toBeUndefined();
+  });
+
+  it('keeps scheduling after a poll fails', async () => {
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const runPoll = vi.fn(async () => { throw new Error('boom'); });
+    const scheduler = new PollScheduler(runPoll, { intervalMs: MINUTE });
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(2 * MINUTE);
+    expect(runPoll).toHaveBeenCalledTimes(2);
+    expect(logged).toHaveBeenCalledWith(expect.stringContaining('Scheduled poll failed'));
+    expect(scheduler.getNextPollAt()).toEqual(new Date(Date.now() + MINUTE));
+
+    scheduler.stop();
+  });
+});
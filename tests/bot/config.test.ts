@@ -0,0 +1,88 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ConfigError, loadConfig } from '../../src/bot/config';
+
+describe('loadConfig with a YAML config file', () => {
+  let dir: string;
+  const saved = { ...process.env };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'config-test-'));
+  });
+
+  afterEach(async () => {
+    process.env = { ...saved };
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function useFile(content: string): Promise<void> {
+    const file = path.join(dir, 'config.yaml');
+    await fs.writeFile(file, content);
+    process.env.CONFIG_FILE = file;
+  }
+
+  it('reads nested sections, lists, anchors and multi-line strings', async () => {
+    await useFile([
+      'telegram:',
+      '  chatId: "-100123"',
+      '  adminUserIds:',
+      '    - 1',
+      '    - 2',
+      'scheduling:',
+      '  checkIntervalMinutes: 7',
+      'notifications:',
+      '  discord: &events',
+      '    events: [migration]',
+      '  slack:',
+      '    <<: *events',
+      'sources:',
+      '  bagsfm:',
+      '    recordDir: >-',
+      '      fixtures/',
+      '      launch-day'
+    ].join('\n'));
+
+    const config = loadConfig();
+
+    expect(config).toMatchObject({
+      telegramChatId: '-100123',
+      adminUserIds: ['1', '2'],
+      checkIntervalMinutes: 7,
+      discordEvents: ['migration'],
+      slackEvents: ['migration'],
+      bagsFmRecordDir: 'fixtures/ launch-day'
+    });
+  });
+
+  it('lets environment variables override the file', async () => {
+    await useFile('scheduling:\n  checkIntervalMinutes: 7\n');
+    process.env.CHECK_INTERVAL_MINUTES = '3';
+
+    expect(loadConfig().checkIntervalMinutes).toBe(3);
+  });
+
+  it('reports unknown keys and invalid values together', async () => {
+    await useFile('scheduling:\n  checkIntervalMinutes: soon\n  everyMinute: true\n');
+
+    let error: ConfigError | undefined;
+    try {
+      loadConfig();
+    } catch (thrown) {
+      error = thrown as ConfigError;
+    }
+
+    expect(error).toBeInstanceOf(ConfigError);
+    expect(error!.problems).toEqual([
+      expect.stringContaining('unknown setting "scheduling.everyMinute"'),
+      expect.stringContaining('scheduling.checkIntervalMinutes')
+    ]);
+  });
+
+  it('names the line of a YAML syntax error', async () => {
+    await useFile('telegram:\n  chatId: [1\n');
+
+    expect(() => loadConfig()).toThrow(/config\.yaml: .*line \d+/);
+  });
+});
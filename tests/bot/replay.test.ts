@@ -0,0 +1,142 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BagsFmBot } from '../../src/bot/BagsFmBot';
+import { InMemoryTelegramBot } from '../../src/bot/InMemoryTelegramBot';
+import { loadConfig } from '../../src/bot/config';
+import { DatabaseManager } from '../../src/database/DatabaseManager';
+import { BotConfig } from '../../src/types';
+
+const FIXTURES = path.join(__dirname, '..', 'fixtures', 'leaderboard');
+const CHANNEL_ID = '-1000000000000';
+const SUBSCRIBER_ID = 42;
+
+/**
+ * Runs full poll cycles (parsing, dedup, storage, templates and the outbox)
+ * against the recorded leaderboards, with Telegram captured in memory.
+ */
+describe('poll cycle replaying recorded leaderboards', () => {
+  let dir: string;
+  let config: BotConfig;
+  let telegram: InMemoryTelegramBot;
+  let bot: BagsFmBot | undefined;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'replay-test-'));
+    config = {
+      ...loadConfig(),
+      telegramBotToken: 'offline',
+      telegramChatId: CHANNEL_ID,
+      adminChatId: CHANNEL_ID,
+      telegramMode: 'polling',
+      tokenSources: ['bagsfm'],
+      bagsFmReplayDir: FIXTURES,
+      maxTokenAgeHours: 24 * 365 * 100,
+      databasePath: path.join(dir, 'migrations.db'),
+      databaseDriver: 'sqlite',
+      databaseBackupCount: 0,
+      auditLogPath: path.join(dir, 'audit.log'),
+      burstHoldThreshold: 0,
+      templatesFile: undefined,
+      discordWebhookUrl: undefined,
+      slackWebhookUrl: undefined,
+      genericWebhookUrl: undefined,
+      logFile: undefined
+    };
+  });
+
+  afterEach(async () => {
+    await bot?.stop();
+    bot = undefined;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function startBot(): Promise<BagsFmBot> {
+    telegram = new InMemoryTelegramBot();
+    bot = new BagsFmBot({ config, telegram, offline: true });
+    await bot.start();
+    telegram.takeSentMessages();
+    return bot;
+  }
+
+  function sentTo(chatId: string | number) {
+    return telegram.takeSentMessages()
+      .filter(request => String(request.params.chat_id) === String(chatId))
+      .map(request => String(request.params.text ?? request.params.caption));
+  }
+
+  async function subscribe(chatId: number): Promise<void> {
+    telegram.processUpdate({
+      update_id: 1,
+      message: {
+        message_id: 1,
+        date: Math.floor(Date.now() / 1000),
+        chat: { id: chatId, type: 'private' },
+        from: { id: chatId, is_bot: false, first_name: 'Subscriber' },
+        text: '/subscribe'
+      }
+    });
+    await vi.waitFor(() => expect(telegram.requests.some(request => String(request.params.chat_id) === String(chatId))).toBe(true));
+    telegram.takeSentMessages();
+  }
+
+  it('alerts each qualifying token once per chat across polls', async () => {
+    await startBot();
+    await subscribe(SUBSCRIBER_ID);
+
+    const first = await bot!.poll();
+    const messages = telegram.takeSentMessages();
+    const channel = messages.filter(request => String(request.params.chat_id) === CHANNEL_ID);
+    const subscriber = messages.filter(request => String(request.params.chat_id) === String(SUBSCRIBER_ID));
+    expect(first).toMatchObject({ launches: 2, newCount: 2, failedSources: [] });
+    expect(channel.map(request => request.params.text ?? request.params.caption).join('\n')).toMatch(/Alpha \(AAA\)[\s\S]*Gamma \(CCC\)/);
+    expect(channel.map(request => request.method)).toEqual(['sendPhoto', 'sendMessage']);
+    expect(subscriber).toHaveLength(2);
+
+    // Crawl 2 lists Gamma's address in lower case; it is still the same token
+    const second = await bot!.poll();
+    expect(second).toMatchObject({ launches: 3, newCount: 1 });
+    expect(sentTo(CHANNEL_ID)).toEqual([expect.stringContaining('Delta (DDD)')]);
+
+    const third = await bot!.poll();
+    expect(third).toMatchObject({ launches: 3, newCount: 0, queuedCount: 0 });
+    expect(telegram.takeSentMessages()).toEqual([]);
+  });
+
+  it('remembers announced tokens across restarts', async () => {
+    await startBot();
+    await bot!.poll();
+    await bot!.stop();
+
+    // The new bot replays from the first recorded crawl again
+    await startBot();
+    const result = await bot!.poll();
+
+    // Page 1 only holds known tokens, so the crawl ends there
+    expect(result).toMatchObject({ launches: 1, newCount: 0, queuedCount: 0 });
+    expect(telegram.takeSentMessages()).toEqual([]);
+  });
+
+  it('stores each token with the date it migrated', async () => {
+    await startBot();
+    await bot!.poll();
+    await bot!.poll();
+    await bot!.stop();
+    bot = undefined;
+
+    const database = new DatabaseManager(config.databasePath, 'sqlite', { keep: 0, intervalMinutes: 60 }, true);
+    await database.initialize();
+    try {
+      const stored = await database.getMigrationsBetween();
+      expect(stored.map(token => [token.symbol, token.migrationDate.toISOString()])).toEqual([
+        ['DDD', '2026-01-02T03:00:00.000Z'],
+        ['CCC', '2026-01-01T09:00:00.000Z'],
+        ['AAA', '2026-01-01T06:00:00.000Z']
+      ]);
+      expect(stored.find(token => token.symbol === 'AAA')?.notifiedChats).toEqual([CHANNEL_ID]);
+    } finally {
+      await database.close();
+    }
+  });
+});
@@ -0,0 +1,36 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import axios from 'axios';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { COMMANDS } from '../../src/cli/commands';
+
+const FIXTURES = path.join(__dirname, '..', 'fixtures', 'leaderboard');
+
+describe('check --dry-run', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cli-test-'));
+    const page = JSON.parse(await fs.readFile(path.join(FIXTURES, 'crawl-0002-page-1.json'), 'utf-8'));
+    vi.spyOn(axios, 'get').mockResolvedValue({ data: page });
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('does not record fixtures when BAGS_FM_RECORD_DIR is set', async () => {
+    const recordDir = path.join(dir, 'recorded');
+    vi.stubEnv('TOKEN_SOURCES', 'bagsfm');
+    vi.stubEnv('BAGS_FM_RECORD_DIR', recordDir);
+
+    await COMMANDS.check({ args: [], flags: new Map([['dry-run', true]]) });
+
+    expect(axios.get).toHaveBeenCalled();
+    await expect(fs.access(recordDir)).rejects.toThrow();
+  });
+});
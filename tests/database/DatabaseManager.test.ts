@@ -0,0 +1,55 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DatabaseManager } from '../../src/database/DatabaseManager';
+
+const NO_BACKUPS = { keep: 0, intervalMinutes: 60 };
+
+describe('DatabaseManager legacy JSON import', () => {
+  let dir: string;
+  let database: DatabaseManager | undefined;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'database-test-'));
+    await fs.writeFile(path.join(dir, 'migrations.json'), JSON.stringify({
+      migrations: [{
+        id: 'legacy-1',
+        name: 'Legacy',
+        symbol: 'OLD',
+        contractAddress: 'LegacyMint1',
+        migrationDate: '2025-06-01T00:00:00.000Z'
+      }],
+      subscriptions: []
+    }));
+  });
+
+  afterEach(async () => {
+    await database?.close();
+    database = undefined;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function start(): Promise<DatabaseManager> {
+    await database?.close();
+    database = new DatabaseManager(path.join(dir, 'migrations.db'), 'sqlite', NO_BACKUPS);
+    await database.initialize();
+    return database;
+  }
+
+  it('imports the file into a new database once and renames it', async () => {
+    const first = await start();
+
+    expect(await first.getMigration('legacy-1')).toMatchObject({ symbol: 'OLD' });
+    await expect(fs.access(path.join(dir, 'migrations.json'))).rejects.toThrow();
+    await expect(fs.access(path.join(dir, 'migrations.json.imported'))).resolves.toBeUndefined();
+  });
+
+  it('does not bring cleared history back on restart', async () => {
+    await (await start()).clearDatabase();
+    const restarted = await start();
+
+    expect(await restarted.getMigration('legacy-1')).toBeUndefined();
+    expect((await restarted.getStats()).totalMigrations).toBe(0);
+  });
+});
@@ -0,0 +1,63 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { JsonStore } from '../../src/database/JsonStore';
+import { OutboxMessage } from '../../src/types';
+
+const TOKEN = { id: 'token-1', name: 'Bags', symbol: 'BAGS', contractAddress: 'Token1', migrationDate: new Date('2026-01-01T00:00:00Z') };
+
+function message(id: string): OutboxMessage {
+  const now = new Date();
+  return { id, chatId: '42', kind: 'migration', migrationId: TOKEN.id, text: 'New token', attempts: 0, nextAttemptAt: now, createdAt: now };
+}
+
+describe('JsonStore outbox', () => {
+  let dir: string;
+  let file: string;
+  let store: JsonStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'json-store-test-'));
+    file = path.join(dir, 'migrations.json');
+    store = new JsonStore(file);
+    await store.initialize();
+    await store.saveMigration(TOKEN);
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  // What a crash right after the call would leave behind
+  async function onDisk(): Promise<{ migrations: { notifiedChats?: string[] }[]; outbox: OutboxMessage[] }> {
+    return JSON.parse(await fs.readFile(file, 'utf-8'));
+  }
+
+  it('saves a queued message before enqueueing resolves', async () => {
+    await store.enqueueOutbox(message('m1'));
+
+    expect((await onDisk()).outbox.map(m => m.id)).toEqual(['m1']);
+  });
+
+  it('saves a delivery together with the message leaving the outbox', async () => {
+    await store.enqueueOutbox(message('m1'));
+    await store.finishOutbox('m1', { migrationId: TOKEN.id, chatId: '42', outcome: 'delivered' });
+
+    const data = await onDisk();
+    expect(data.outbox).toEqual([]);
+    expect(data.migrations[0].notifiedChats).toEqual(['42']);
+  });
+
+  it('pages through due messages after a given one', async () => {
+    for (const id of ['m3', 'm1', 'm2']) {
+      await store.enqueueOutbox({ ...message(id), createdAt: new Date('2026-01-01T00:00:00Z') });
+    }
+
+    const [first] = await store.getDueOutbox(new Date(), 1);
+    const rest = await store.getDueOutbox(new Date(), 10, first);
+
+    expect([first, ...rest].map(m => m.id)).toEqual(['m1', 'm2', 'm3']);
+  });
+});
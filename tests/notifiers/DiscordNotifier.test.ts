@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { DiscordNotifier } from '../../src/notifiers/DiscordNotifier';
+import { MigratedToken } from '../../src/types';
+
+const TOKEN: MigratedToken = {
+  id: 'token-1',
+  name: '@everyone',
+  symbol: 'BAGS',
+  contractAddress: 'Token1',
+  migrationDate: new Date('2026-01-01T00:00:00Z')
+};
+
+const notifier = new DiscordNotifier('https://discord.test/api/webhooks/1/x', ['migration', 'notice']);
+
+function links(token: MigratedToken): string | undefined {
+  const { payload } = notifier.format({ type: 'migration', token });
+  return (payload as { embeds: { fields: { name: string; value: string }[] }[] }).embeds[0].fields
+    .find(field => field.name === 'Links')?.value;
+}
+
+describe('DiscordNotifier', () => {
+  it('links http(s) URLs and encodes parentheses in them', () => {
+    expect(links({ ...TOKEN, website: 'https://bags.example/(x)', twitter: 'https://x.com/bags' }))
+      .toBe('[Website](https://bags.example/%28x%29) | [Twitter](https://x.com/bags)');
+  });
+
+  it('drops links that are not http(s) URLs or contain spaces', () => {
+    expect(links({ ...TOKEN, website: 'javascript:alert(1)', telegram: 'https://t.me/bags [x](https://evil.example)' })).toBeUndefined();
+  });
+
+  it('never lets an alert ping anyone', () => {
+    const migration = notifier.format({ type: 'migration', token: TOKEN });
+    const notice = notifier.format({ type: 'notice', text: '@everyone look' });
+
+    expect(migration.payload).toMatchObject({ allowed_mentions: { parse: [] } });
+    expect(notice.payload).toMatchObject({ allowed_mentions: { parse: [] } });
+  });
+});
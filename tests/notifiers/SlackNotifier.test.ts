@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { SlackNotifier } from '../../src/notifiers/SlackNotifier';
+import { MigratedToken } from '../../src/types';
+
+const TOKEN: MigratedToken = {
+  id: 'token-1',
+  name: 'Bags',
+  symbol: 'BAGS',
+  contractAddress: 'Token1',
+  migrationDate: new Date('2026-01-01T00:00:00Z')
+};
+
+function linkText(token: MigratedToken): string | undefined {
+  const { payload } = new SlackNotifier('https://hooks.slack.test/T/B/x', ['migration']).format({ type: 'migration', token });
+  const blocks = (payload as { blocks: { type: string; text?: { text: string } }[] }).blocks;
+  return blocks.map(block => block.text?.text).find(text => text?.includes('Website') || text?.includes('Twitter'));
+}
+
+describe('SlackNotifier links', () => {
+  it('links http(s) URLs', () => {
+    expect(linkText({ ...TOKEN, website: 'https://bags.example', twitter: 'https://x.com/bags' }))
+      .toBe('<https://bags.example|Website> | <https://x.com/bags|Twitter>');
+  });
+
+  it('escapes characters that would break out of the link', () => {
+    expect(linkText({ ...TOKEN, website: 'https://bags.example/?a=1&b=<x>|Click' }))
+      .toBe('<https://bags.example/?a=1&amp;b=&lt;x&gt;%7CClick|Website>');
+  });
+
+  it('drops links that are not http(s) URLs or contain spaces', () => {
+    expect(linkText({ ...TOKEN, website: 'javascript:alert(1)', twitter: 'https://x.com/bags Click here' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,80 @@
+import path from 'path';
+import fs from 'fs';
+import axios from 'axios';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AxiomScraper } from '../../src/scraper/AxiomScraper';
+
+// A recorded /migrated-tokens response: two bags.fm launches and one from another launchpad
+const RESPONSE = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'fixtures', 'axiom', 'migrated-tokens.json'), 'utf-8'));
+
+function respondWith(data: unknown): void {
+  vi.spyOn(axios, 'get').mockResolvedValue({ data });
+}
+
+describe('AxiomScraper against a recorded response', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps only bags.fm launches and maps them to migrated tokens', async () => {
+    respondWith(RESPONSE);
+    const tokens = await new AxiomScraper({ siteUrl: 'https://bags.fm' }).getNewMigrations();
+
+    expect(tokens.map(token => token.symbol)).toEqual(['AAA', 'EEE']);
+    expect(tokens[0]).toMatchObject({
+      contractAddress: 'AAAmint1111111111111111111111111111111111111',
+      migrationDate: new Date('2026-01-01T06:00:00.000Z'),
+      bondingDuration: 6,
+      marketCap: 255000,
+      creator: 'CreatorA1111111111111111111111111111111111111',
+      url: 'https://bags.fm/token/AAAmint1111111111111111111111111111111111111',
+      website: 'https://alpha.example',
+      socialsReported: true,
+      bondingCompleted: true
+    });
+    expect(tokens[1]).toMatchObject({ bondingDuration: undefined, socialsReported: false });
+  });
+
+  it('reads the bare array the endpoint sometimes returns', async () => {
+    respondWith(RESPONSE.tokens);
+    const scraper = new AxiomScraper();
+
+    expect((await scraper.getNewMigrations()).map(token => token.symbol)).toEqual(['AAA', 'EEE']);
+    expect(scraper.getLastSchemaDrift()?.issues).toEqual([]);
+  });
+
+  it('reports no schema drift for the recorded response', async () => {
+    respondWith(RESPONSE);
+    const scraper = new AxiomScraper();
+    await scraper.getNewMigrations();
+
+    expect(scraper.getLastSchemaDrift()?.issues).toEqual([]);
+    expect(scraper.getLastCrawlStats()).toMatchObject({ pagesCrawled: 1, itemsFetched: 2, stopReason: 'last-page' });
+  });
+
+  it('sends the API key and the protocol filter', async () => {
+    respondWith(RESPONSE);
+    await new AxiomScraper({ baseUrl: 'https://axiom.test', apiKey: 'secret' }).getNewMigrations();
+
+    expect(axios.get).toHaveBeenCalledWith('https://axiom.test/migrated-tokens', expect.objectContaining({
+      params: { protocol: 'bags' },
+      headers: expect.objectContaining({ Authorization: 'Bearer secret' })
+    }));
+  });
+
+  it('returns no tokens and records the error when the request fails', async () => {
+    vi.spyOn(axios, 'get').mockRejectedValue(new Error('socket hang up'));
+    const scraper = new AxiomScraper({ upstream: { retries: 0 } });
+
+    expect(await scraper.getNewMigrations()).toEqual([]);
+    expect(scraper.getLastCrawlStats()).toMatchObject({ stopReason: 'error', error: 'socket hang up' });
+  });
+
+  it('looks snapshots up by the exact contract address', async () => {
+    respondWith(RESPONSE);
+    const scraper = new AxiomScraper();
+
+    expect(await scraper.fetchSnapshot('AAAmint1111111111111111111111111111111111111')).toMatchObject({ marketCap: 255000 });
+    expect(await scraper.fetchSnapshot('aaamint1111111111111111111111111111111111111')).toBeUndefined();
+  });
+});
@@ -0,0 +1,86 @@
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { BagsFmScraper } from '../../src/scraper/BagsFmScraper';
+
+const FIXTURES = path.join(__dirname, '..', 'fixtures', 'leaderboard');
+// The fixtures were recorded in January 2026; keep the age cap from ending crawls early
+const NO_AGE_CAP = 24 * 365 * 100;
+
+function replayScraper(options: { maxTokenAgeHours?: number } = {}): BagsFmScraper {
+  return new BagsFmScraper({ replayDir: FIXTURES, maxTokenAgeHours: NO_AGE_CAP, ...options });
+}
+
+describe('BagsFmScraper replaying recorded leaderboards', () => {
+  it('keeps tokens that bonded or crossed the market cap threshold, once each', async () => {
+    const tokens = await replayScraper().getNewMigrations();
+
+    expect(tokens.map(token => token.symbol)).toEqual(['AAA', 'CCC']);
+    expect(tokens.find(token => token.symbol === 'AAA')).toMatchObject({ bondingCompleted: true, toChain: 'Bags.fm 100k+ Launch' });
+    expect(tokens.find(token => token.symbol === 'CCC')).toMatchObject({ bondingCompleted: false });
+  });
+
+  it('dates a token by its bonding completion before any other date', async () => {
+    const [alpha] = await replayScraper().getNewMigrations();
+
+    // Both bondingCurve.completedAt and migratedAt are reported
+    expect(alpha.migrationDate).toEqual(new Date('2026-01-01T06:00:00.000Z'));
+    expect(alpha.createdAt).toEqual(new Date('2026-01-01T00:00:00.000Z'));
+    expect(alpha.bondingDuration).toBe(6);
+  });
+
+  it('falls back to migratedAt, then to the creation date', async () => {
+    const scraper = replayScraper();
+    const [, gamma] = await scraper.getNewMigrations();
+    const [delta] = await scraper.getNewMigrations();
+
+    expect(gamma.migrationDate).toEqual(new Date('2026-01-01T09:00:00.000Z'));
+    expect(gamma.bondingDuration).toBeUndefined();
+    expect(delta.symbol).toBe('DDD');
+    expect(delta.migrationDate).toEqual(new Date('2026-01-02T03:00:00.000Z'));
+    expect(delta.bondingDuration).toBe(3);
+  });
+
+  it('passes descriptions and links through', async () => {
+    const [alpha, gamma] = await replayScraper().getNewMigrations();
+
+    expect(alpha).toMatchObject({
+      description: 'First token to bond',
+      website: 'https://alpha.example',
+      twitter: 'https://x.com/alpha',
+      socialsReported: true
+    });
+    expect(gamma.socialsReported).toBe(false);
+  });
+
+  it('stops once a page only holds known tokens', async () => {
+    const scraper = replayScraper();
+    await scraper.getNewMigrations(async () => true);
+
+    expect(scraper.getLastCrawlStats()).toMatchObject({ pagesCrawled: 1, stopReason: 'reached-known-tokens' });
+  });
+
+  it('stops once every token on a page is older than the age cap', async () => {
+    const scraper = replayScraper({ maxTokenAgeHours: 1 });
+    const tokens = await scraper.getNewMigrations();
+
+    expect(tokens.map(token => token.symbol)).toEqual(['AAA']);
+    expect(scraper.getLastCrawlStats()).toMatchObject({ pagesCrawled: 1, stopReason: 'age-cap' });
+  });
+
+  it('repeats the last recorded crawl once they run out', async () => {
+    const scraper = replayScraper();
+    await scraper.getNewMigrations();
+    const second = await scraper.getNewMigrations();
+    const third = await scraper.getNewMigrations();
+
+    expect(third.map(token => token.symbol)).toEqual(second.map(token => token.symbol));
+    expect(third.map(token => token.symbol)).toEqual(['DDD', 'AAA', 'CCC']);
+  });
+
+  it('reports no schema drift for the recorded responses', async () => {
+    const scraper = replayScraper();
+    await scraper.getNewMigrations();
+
+    expect(scraper.getLastSchemaDrift()?.issues).toEqual([]);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { loadConfig } from '../../src/bot/config';
+import { createSources, mergeSourceResults, reloadSources } from '../../src/scraper/sources';
+import { MigratedToken, TokenSource } from '../../src/types';
+
+function source(name: string): TokenSource {
+  return { name, getNewMigrations: async () => [] };
+}
+
+function token(id: string, contractAddress: string, fields: Partial<MigratedToken> = {}): MigratedToken {
+  return { id, name: id, symbol: id, contractAddress, migrationDate: new Date('2026-01-01T00:00:00.000Z'), ...fields };
+}
+
+describe('createSources', () => {
+  it('builds every enabled source', () => {
+    const sources = createSources({ ...loadConfig(), tokenSources: ['bagsfm', 'axiom'] });
+
+    expect(sources.map(source => source.name)).toEqual(['bagsfm', 'axiom']);
+  });
+});
+
+describe('reloadSources', () => {
+  const config = loadConfig();
+
+  it('keeps a source whose settings did not change, with its state', () => {
+    const [bagsfm] = createSources(config);
+    const next = { ...config, checkIntervalMinutes: config.checkIntervalMinutes + 1, logLevel: 'debug' };
+
+    expect(reloadSources([bagsfm], config, next)[0]).toBe(bagsfm);
+  });
+
+  it('rebuilds a source when one of its settings changed', () => {
+    const [bagsfm] = createSources(config);
+
+    expect(reloadSources([bagsfm], config, { ...config, maxLeaderboardPages: config.maxLeaderboardPages + 1 })[0]).not.toBe(bagsfm);
+    expect(reloadSources([bagsfm], config, { ...config, sourceRetries: config.sourceRetries + 1 })[0]).not.toBe(bagsfm);
+  });
+});
+
+describe('mergeSourceResults', () => {
+  it('merges a token reported by several sources and records each of them', () => {
+    const merged = mergeSourceResults([
+      { source: source('bagsfm'), tokens: [token('a', 'AAAmint1', { marketCap: 100 })] },
+      { source: source('axiom'), tokens: [token('a', 'AAAmint1', { marketCap: 200, website: 'https://a.example' })] }
+    ]);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({ marketCap: 100, website: 'https://a.example', firstSeenBy: ['bagsfm', 'axiom'] });
+  });
+
+  it('keeps mints whose addresses differ only in case apart', () => {
+    const merged = mergeSourceResults([
+      { source: source('bagsfm'), tokens: [token('a', 'AbCmint1'), token('b', 'abcMINT1')] }
+    ]);
+
+    expect(merged.map(entry => entry.contractAddress)).toEqual(['AbCmint1', 'abcMINT1']);
+  });
+
+  it('only merges tokens without an address when the same source reports them', () => {
+    const merged = mergeSourceResults([
+      { source: source('bagsfm'), tokens: [token('x', ''), token('x', '')] },
+      { source: source('axiom'), tokens: [token('x', '')] }
+    ]);
+
+    expect(merged.map(entry => entry.firstSeenBy)).toEqual([['bagsfm'], ['axiom']]);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { Template, TemplateError, escapeHtml } from '../../src/templates/TemplateEngine';
+
+describe('Template', () => {
+  it('inserts values by dotted path', () => {
+    const template = new Template('{{token.name}} ({{token.symbol}})');
+    expect(template.render({ token: { name: 'Bags', symbol: 'BAGS' } })).toBe('Bags (BAGS)');
+  });
+
+  it('renders missing values as empty text', () => {
+    expect(new Template('[{{token.website}}]').render({ token: {} })).toBe('[]');
+  });
+
+  it('HTML-escapes every value, including helper output', () => {
+    const template = new Template('<b>{{name}}</b> {{truncate description 5}}');
+    expect(template.render({ name: '<script>"x" & y</script>', description: '<i>long text</i>' }))
+      .toBe('<b>&lt;script&gt;&quot;x&quot; &amp; y&lt;/script&gt;</b> &lt;i&gt;lo...');
+  });
+
+  it('has no way to emit raw values', () => {
+    expect(new Template('{{{name}}}').render({ name: '<b>' })).not.toContain('<b>');
+  });
+
+  it('formats values with helpers', () => {
+    const template = new Template('{{currency marketCap}} {{percent change}}% {{multiple ratio}}x {{join tags | }}');
+    expect(template.render({ marketCap: 150000, change: 0.1234, ratio: 2.04, tags: ['a', 'b'] })).toBe('150.00K 12.3% 2.0x a|b');
+  });
+
+  it('renders sections when the value is set and inverted sections when it is not', () => {
+    const template = new Template('{{#website}}site{{/website}}{{^website}}no site{{/website}}');
+    expect(template.render({ website: 'https://bags.fm' })).toBe('site');
+    expect(template.render({ website: '' })).toBe('no site');
+    expect(template.render({})).toBe('no site');
+  });
+
+  it('renders a section once per item, resolving names against the item first', () => {
+    const template = new Template('{{#links}}{{label}}={{url}} ({{symbol}});{{/links}}{{^links}}none{{/links}}');
+    const links = [{ label: 'Web', url: 'https://a.example' }, { label: 'X', url: 'https://b.example' }];
+    expect(template.render({ symbol: 'BAGS', links })).toBe('Web=https://a.example (BAGS);X=https://b.example (BAGS);');
+    expect(template.render({ symbol: 'BAGS', links: [] })).toBe('none');
+  });
+
+  it('refers to the current item with a dot', () => {
+    expect(new Template('{{#reasons}}- {{.}}\n{{/reasons}}').render({ reasons: ['thin volume', '<1h'] }))
+      .toBe('- thin volume\n- &lt;1h\n');
+  });
+
+  it('rejects malformed templates', () => {
+    expect(() => new Template('{{#token.website}}open')).toThrow(TemplateError);
+    expect(() => new Template('{{#a}}{{/b}}')).toThrow('Unexpected {{/b}}, expected {{/a}}');
+    expect(() => new Template('{{/a}}')).toThrow(TemplateError);
+    expect(() => new Template('{{shout name}}')).toThrow('Unknown helper "shout"');
+    expect(() => new Template('{{ }}')).toThrow(TemplateError);
+  });
+});
+
+describe('escapeHtml', () => {
+  it('escapes the characters Telegram HTML cares about', () => {
+    expect(escapeHtml('a < b && c > "d"')).toBe('a &lt; b &amp;&amp; c &gt; &quot;d&quot;');
+  });
+});
@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CircuitBreaker, CircuitOpenError } from '../../src/utils/CircuitBreaker';
+
+const fail = () => Promise.reject(new Error('upstream down'));
+const succeed = () => Promise.resolve('ok');
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('opens after the threshold of consecutive failures and fails fast', async () => {
+    const breaker = new CircuitBreaker('test', { failureThreshold: 2, resetTimeoutMs: 60000 });
+    const task = vi.fn(fail);
+
+    await expect(breaker.run(task)).rejects.toThrow('upstream down');
+    expect(breaker.state).toBe('closed');
+    await expect(breaker.run(task)).rejects.toThrow('upstream down');
+    expect(breaker.state).toBe('open');
+
+    await expect(breaker.run(task)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('resets the failure count after a success', async () => {
+    const breaker = new CircuitBreaker('test', { failureThreshold: 2, resetTimeoutMs: 60000 });
+
+    await expect(breaker.run(fail)).rejects.toThrow();
+    await breaker.run(succeed);
+    await expect(breaker.run(fail)).rejects.toThrow();
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('lets one trial call through once the reset timeout has passed', async () => {
+    const breaker = new CircuitBreaker('test', { failureThreshold: 1, resetTimeoutMs: 60000 });
+    await expect(breaker.run(fail)).rejects.toThrow();
+
+    vi.advanceTimersByTime(60000);
+    expect(breaker.state).toBe('half-open');
+
+    let finishTrial!: (value: string) => void;
+    const trial = breaker.run(() => new Promise<string>(resolve => { finishTrial = resolve; }));
+    await expect(breaker.run(succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+
+    finishTrial('ok');
+    await expect(trial).resolves.toBe('ok');
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('reopens when the trial call fails', async () => {
+    const breaker = new CircuitBreaker('test', { failureThreshold: 3, resetTimeoutMs: 60000 });
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.run(fail)).rejects.toThrow();
+    }
+
+    vi.advanceTimersByTime(60000);
+    await expect(breaker.run(fail)).rejects.toThrow('upstream down');
+
+    expect(breaker.state).toBe('open');
+  });
+
+  it('opens straight away for at least as long as the failure asks', async () => {
+    const breaker = new CircuitBreaker('test', { failureThreshold: 5, resetTimeoutMs: 1000, retryAfterMs: () => 30000 });
+    await expect(breaker.run(fail)).rejects.toThrow();
+
+    vi.advanceTimersByTime(29999);
+    await expect(breaker.run(succeed)).rejects.toMatchObject({ retryAt: new Date(Date.now() + 1) });
+
+    vi.advanceTimersByTime(1);
+    await expect(breaker.run(succeed)).resolves.toBe('ok');
+  });
+
+  it('never opens with a threshold of 0', async () => {
+    const breaker = new CircuitBreaker('test', { failureThreshold: 0, resetTimeoutMs: 1000, retryAfterMs: () => 30000 });
+    for (let i = 0; i < 10; i++) {
+      await expect(breaker.run(fail)).rejects.toThrow('upstream down');
+    }
+
+    expect(breaker.state).toBe('closed');
+  });
+});
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    // Tests assert on results, not log lines
+    env: { LOG_LEVEL: 'error' }
+  }
+});